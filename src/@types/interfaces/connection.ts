@@ -1,6 +1,20 @@
 import pino from "pino";
-import { ConnectionType } from "../../core/enum/KNXnetIPEnum";
+import { ConnectionType, DescriptionType } from "../../core/enum/KNXnetIPEnum";
 import { CEMIInstance } from "../../core/CEMI";
+import { Priority } from "../../core/enum/EnumControlField";
+import { StatusValues } from "./SystemStatus";
+import {
+  DIB,
+  DeviceInformationDIB,
+  SupportedServicesDIB,
+  IPConfigDIB,
+  IPCurrentConfigDIB,
+  KNXAddressesDIB,
+  TunnellingInfoDIB,
+  ExtendedDeviceInformationDIB,
+  MfrDataDIB,
+  UnknownDIB,
+} from "../../core/KNXnetIPStructures";
 
 /**
  * Options for configuring a KNX Tunneling connection.
@@ -18,6 +32,18 @@ export interface KNXTunnelingOptions extends KNXnetIPOptions {
    * Use DEVICE_MGMT_CONNECTION (0x03) for device configuration and management.
    */
   connectionType?: ConnectionType;
+  /**
+   * Individual address to request for the tunnel (e.g. "1.1.250"), sent in the extended CRI of
+   * Tunnelling v2. Only for TUNNEL_CONNECTION. If the server cannot hand it out the connection fails
+   * with TunnelAddressUnavailableError or TunnelConnectionInUseError.
+   * By default the server picks a free address.
+   */
+  individualAddress?: string;
+  /**
+   * Opens the tunnel on the busmonitor layer (TUNNEL_BUSMONITOR). Every frame of the bus arrives as an
+   * L_Busmon.ind and is emitted as a `busmonitor` event. The tunnel is read only, `send()` rejects.
+   */
+  busmonitor?: boolean;
   /**
    * If true, sends a "Route Back" HPAI (IP 0.0.0.0 and port 0).
    * This instructs the KNXnet/IP server to respond directly to the source IP and port
@@ -30,6 +56,77 @@ export interface KNXTunnelingOptions extends KNXnetIPOptions {
    * Defaults to 100.
    */
   maxQueueSize?: number;
+  /**
+   * Automatic reconnection policy. When enabled, a lost tunnel (heartbeat failure,
+   * invalid channel, ACK timeout or error, socket error or server disconnect) is re-established
+   * with a new CONNECT_REQUEST instead of emitting `error`. Queued messages are kept
+   * and sent on the new channel. A frame whose TUNNELLING_ACK carried an error status is resent
+   * once there; if it fails again its `send()` rejects.
+   */
+  reconnect?: KNXReconnectOptions;
+  /**
+   * KNX IP Secure credentials. When set the tunnel is opened over TCP inside a secure session
+   * (SESSION_REQUEST/AUTHENTICATE) and every frame is sent in a SECURE_WRAPPER.
+   */
+  secure?: KNXSecureTunnelOptions;
+}
+
+export interface KNXSecureTunnelOptions {
+  /**
+   * User ID of the secure tunnel as shown in ETS (1 is the management user, tunnels usually start at 2).
+   */
+  userId: number;
+  /**
+   * Password of the tunnel user. Ignored when userPasswordHash is set.
+   */
+  userPassword?: string;
+  /**
+   * Already derived password hash (16 bytes), e.g. taken from a keyring.
+   */
+  userPasswordHash?: Buffer;
+  /**
+   * Device authentication code of the gateway. When set (or its hash), the SESSION_RESPONSE is authenticated.
+   */
+  deviceAuthenticationCode?: string;
+  /**
+   * Already derived device authentication code (16 bytes).
+   */
+  deviceAuthenticationCodeHash?: Buffer;
+  /**
+   * KNX serial number (6 bytes) sent in the SECURE_WRAPPER frames. Defaults to the MAC address of the local interface.
+   */
+  serialNumber?: Buffer;
+}
+
+export interface KNXReconnectOptions {
+  /**
+   * Enables the reconnect policy. Defaults to false.
+   */
+  enabled?: boolean;
+  /**
+   * Delay before the first attempt in milliseconds. Defaults to 1000.
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound for the backoff delay in milliseconds. Defaults to 30000.
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt. Defaults to 2.
+   */
+  factor?: number;
+  /**
+   * Random spread applied to each delay, as a fraction of it (0 to 1). Defaults to 0.2 (±20%).
+   */
+  jitter?: number;
+  /**
+   * Attempts before giving up. Queued messages are then rejected and `error` is emitted. Defaults to 10.
+   */
+  maxAttempts?: number;
+  /**
+   * Keep retrying forever, ignoring `maxAttempts`.
+   */
+  infinite?: boolean;
 }
 
 export interface KNXnetIPServerOptions extends Omit<KNXnetIPOptions, "ip"> {
@@ -57,6 +154,14 @@ export interface KNXnetIPServerOptions extends Omit<KNXnetIPOptions, "ip"> {
    * MAC address for the KNXnetIP
    */
   macAddress?: string;
+  /**
+   * KNX manufacturer code served in PID_MANUFACTURER_ID of the Device Object. Defaults to 0x0000.
+   */
+  manufacturerId?: number;
+  /**
+   * Order information served in PID_ORDER_INFO of the Device Object (10 octets, padded with zeros).
+   */
+  orderInfo?: Buffer;
   /**
    * Defines the client address pool for KNXnet/IP Tunneling connections (e.g. "15.15.10:10" or "1.1.1:5").
    * Format: "START_ADDRESS:COUNT". This dictates how many tunneling clients can connect concurrently
@@ -73,12 +178,196 @@ export interface KNXnetIPServerOptions extends Omit<KNXnetIPOptions, "ip"> {
    * It abruptly stops a Tunneling client connection if it exceeds this limit of request messages per second; this is done to prevent performance degradation (the default is 100); to disable it, set it to less than 1
    */
   MAX_PENDING_REQUESTS_PER_CLIENT?: number;
+  /**
+   * Fallback time in milliseconds to wait for the L_Data.con of a bus link (TPUART, USB, Tunneling) when the
+   * server is part of a Router. When it expires the tunnel client receives a negative confirmation.
+   * Default is 3000ms.
+   */
+  confirmationTimeout?: number;
+  /**
+   * KNX IP Secure routing. When set, routing frames are sent and accepted only inside SECURE_WRAPPER
+   * frames protected with the backbone key; plain, unauthenticated and replayed frames are dropped.
+   */
+  secureRouting?: KNXSecureRoutingOptions;
   /**
    * If true, the server will join the multicast group on all valid host network interfaces (Multi-homing).
    * This improves discovery in multi-interface systems but can be disabled for specific network isolation.
    * Defaults to true.
    */
   useAllInterfaces?: boolean;
+  /**
+   * Keeps the parameters changed by ETS (individual address, tunnel addresses, friendly name, IP
+   * parameters) across restarts. They are saved on every change and restored on `connect()`, taking
+   * precedence over these options. See `JsonFileStateStore`.
+   */
+  stateStore?: KNXServerStateStore;
+  /**
+   * Accept KNXnet/IP tunnelling v2 over TCP on the same port, besides UDP. Over TCP there are no
+   * TUNNELLING_ACKs or retransmissions and one stream can carry several connections. Defaults to false:
+   * when enabled the server also listens on TCP `port` (3671 by default), which must be free.
+   */
+  tcp?: boolean;
+  /**
+   * Rules for the tunnelling and management connections (CONNECT_REQUEST). Without them any host that
+   * reaches the server can take a free channel. Refused requests emit `connection_rejected`.
+   */
+  admission?: KNXTunnelAdmissionOptions;
+}
+
+export type KNXTunnelLayerName = "link" | "busmonitor" | "raw";
+
+export interface KNXTunnelAdmissionOptions {
+  /**
+   * IPs or CIDR ranges ("192.168.1.0/24") allowed to connect. When omitted every host is allowed.
+   */
+  allow?: string[];
+  /**
+   * IPs or CIDR ranges always refused, even if they are in `allow`.
+   */
+  deny?: string[];
+  /**
+   * Maximum number of open connections (tunnelling and management) per client IP.
+   */
+  maxConnectionsPerIp?: number;
+  /**
+   * Individual address that a client IP always receives for its tunnel, e.g. { "192.168.1.20": "1.1.12" }.
+   * Pinned addresses are not handed out to other hosts.
+   */
+  pinnedAddresses?: Record<string, string>;
+  /**
+   * Tunnelling layers allowed per IP or CIDR range, e.g. { "192.168.1.0/24": ["link"], "192.168.1.5": ["busmonitor"] }.
+   * The most specific range applies; hosts without a rule may use any layer.
+   */
+  layers?: Record<string, KNXTunnelLayerName[]>;
+}
+
+/**
+ * Tunnelling or management session of a KNXnetIPServer, as listed by `getTunnelSessions()` and
+ * passed to the `tunnelOpened` / `tunnelClosed` events.
+ */
+export interface KNXTunnelSession {
+  channelId: number;
+  connectionType: ConnectionType;
+  /** Control endpoint (HPAI) of the client */
+  controlEndpoint: { ipAddress: string; port: number };
+  /** Data endpoint (HPAI) of the client */
+  dataEndpoint: { ipAddress: string; port: number };
+  /** Individual address of the tunnel, "0.0.0" for management connections */
+  individualAddress: string;
+  knxLayer: number;
+  connectedAt: Date;
+  /** Requests received from the client (duplicates excluded) */
+  rxFrames: number;
+  /** Requests sent to the client, retransmissions excluded */
+  txFrames: number;
+  /** Requests repeated because the client did not acknowledge them in time */
+  retransmissions: number;
+  /** Requests waiting to be sent to the client */
+  queueDepth: number;
+}
+
+/**
+ * Argument of the `connection_rejected` event of KNXnetIPServer
+ */
+export interface KNXConnectionRejection {
+  address: string;
+  port: number;
+  connectionType: ConnectionType;
+  knxLayer: number;
+  /** Error code sent in the CONNECT_RESPONSE (KNXnetIPErrorCodes) */
+  status: number;
+  reason: string;
+}
+
+/**
+ * TP1 frame received on a busmonitor tunnel (L_Busmon.ind), argument of the `busmonitor` event of KNXTunneling.
+ * The address, priority and TPDU fields are only decoded for data frames (standard and extended).
+ */
+export interface KNXBusmonitorFrame {
+  /** Frame as seen on the bus, check octet included */
+  raw: Buffer;
+  /** Check octet (odd parity) matches. Acknowledgement frames have none and are always valid */
+  checksumValid: boolean;
+  /** BusmonitorStatusInfo (AddInfo 03h), null when the server does not send it */
+  status: StatusValues | null;
+  /** Relative timestamp (AddInfo 04h or 06h), null when the server does not send it */
+  timestamp: number | null;
+  frameFormat: "standard" | "extended" | "acknowledgement" | "unknown";
+  /** Short acknowledgement (frameFormat "acknowledgement") */
+  acknowledgement?: "ACK" | "NAK" | "BUSY" | "NAK_BUSY";
+  /** The frame repeats one that was not acknowledged (repeat bit cleared) */
+  repeated?: boolean;
+  priority?: Priority;
+  sourceAddress?: string;
+  destinationAddress?: string;
+  addressType?: "individual" | "group";
+  hopCount?: number;
+  /** Transport layer PDU (TPCI + APDU) */
+  tpdu?: Buffer;
+}
+
+/**
+ * Parameters of a KNXnetIPServer that can be commissioned at runtime.
+ */
+export interface KNXServerState {
+  individualAddress: string;
+  /** Addresses of the tunnelling channels, in channel order */
+  clientAddresses: string[];
+  friendlyName: string;
+  routingMulticastAddress: string;
+  multicastTTL: number;
+  /** Configured IP parameters (PID_IP_ASSIGNMENT_METHOD, PID_IP_ADDRESS, ...) */
+  ipAssignmentMethod: number;
+  ipAddress: string;
+  subnetMask: string;
+  defaultGateway: string;
+}
+
+/**
+ * Persistence of the commissioned parameters of a KNXnetIPServer.
+ */
+export interface KNXServerStateStore {
+  /**
+   * @returns The saved state, or null when nothing was saved yet
+   */
+  load(): Promise<Partial<KNXServerState> | null>;
+  save(state: KNXServerState): Promise<void>;
+}
+
+export interface KNXSecureRoutingOptions {
+  /**
+   * Backbone key of the secure IP line (16 bytes), as exported by ETS.
+   */
+  backboneKey: Buffer;
+  /**
+   * Maximum age in milliseconds of a received frame compared to the multicast timer.
+   * Older frames are dropped and answered with TIMER_NOTIFY. Defaults to 2000.
+   */
+  latencyTolerance?: number;
+}
+
+export interface KNXDataSecureOptions {
+  /**
+   * Key table (16 byte keys). Group addresses ("1/2/3") take the key of the group object, individual
+   * addresses ("1.1.5") the tool key of the device for point-to-point telegrams (`sendIndividual()`).
+   * Transport control telegrams (T_Connect, T_ACK...) are never secured.
+   */
+  keys: Record<string, Buffer>;
+  /**
+   * Next sequence number of this device. Defaults to the current time in milliseconds, so it keeps
+   * growing across restarts without being persisted.
+   */
+  sequenceNumber?: number;
+  /**
+   * Last valid sequence number of each source ("1.1.5" -> number), e.g. from a keyring.
+   * Sources without an entry are accepted from their first telegram on.
+   */
+  lastSequenceNumbers?: Record<string, number>;
+  /**
+   * Encrypt the APDU (authentication + confidentiality). With false telegrams are only authenticated.
+   * Defaults to true.
+   */
+  encrypt?: boolean;
 }
 
 export interface ExternalManagerOptions {
@@ -153,6 +442,11 @@ export interface KNXnetIPOptions {
    * Pino logger configuration.
    */
   logOptions?: KNXLoggerOptions;
+  /**
+   * KNX Data Secure. Telegrams sent with `write()`/`read()`/`sendIndividual()` to an address of the key table are secured
+   * (S-A_Data) and secured telegrams received from it are decrypted before `indication` is emitted.
+   */
+  dataSecure?: KNXDataSecureOptions;
 }
 
 export interface TPUARTOptions {
@@ -176,12 +470,181 @@ export interface TPUARTOptions {
    * Pino logger configuration.
    */
   logOptions?: KNXLoggerOptions;
+  /**
+   * KNX Data Secure. Telegrams sent with `write()`/`read()`/`sendIndividual()` to an address of the key table are secured
+   * (S-A_Data) and secured telegrams received from it are decrypted before `indication` is emitted.
+   */
+  dataSecure?: KNXDataSecureOptions;
+}
+
+/**
+ * Address filter of a Router. Each entry of `addresses` is an address ("1/2/3", "1.1.5"), a wildcard
+ * ("1/2/*", "1.1.*"), a range ("1/0/0-1/7/255", "1.1.0-1.1.63") or any of them negated with "!" ("!1/2/3").
+ * Entries apply in order, so a later one overrides an earlier one; a list starting with a negation starts
+ * from every address. "accept only" lets through only the listed addresses, "discard all" drops them.
+ */
+export interface KNXRouterAddressFilter {
+  addresses: string[];
+  policy: "discard all" | "accept only";
+}
+
+/**
+ * Filters of a Router, matched against the destination address of each frame
+ */
+export interface KNXRouterFilterRules {
+  groupAddress?: KNXRouterAddressFilter;
+  individualAddress?: KNXRouterAddressFilter;
+}
+
+/**
+ * Filters of one link of a Router
+ */
+export interface KNXRouterLinkFilter {
+  /** Frames received from the link. Dropped frames are neither learned, routed nor emitted */
+  inbound?: KNXRouterFilterRules;
+  /** Frames the Router sends to the link */
+  outbound?: KNXRouterFilterRules;
+}
+
+/**
+ * Address translation between two links of a Router. Each entry maps the address used on the first link to
+ * the address used on the second one; frames going the other way are rewritten with the reverse mapping.
+ * Entries are exact addresses, wildcards ("1/*": "10/*") or ranges ("1/1/0-1/1/9": "10/1/0-10/1/9") of the
+ * same size on both sides, and the mapping must be one to one.
+ */
+export interface KNXRouterAddressTranslation {
+  /** Keys of the two links, e.g. ["KNXUSB", "IP Tunneling: 192.168.1.10:3671"] */
+  links: [string, string];
+  /** Destination group addresses */
+  groupAddresses?: Record<string, string>;
+  /** Individual addresses: the source of the frames and the destination of the answers */
+  individualAddresses?: Record<string, string>;
+}
+
+/**
+ * State of a Router link: "up" routes frames, "down" lost its connection (and is reconnected with
+ * `linkReconnect`), "standby" is a healthy standby link whose primary link is up.
+ */
+export type KNXRouterLinkState = "up" | "down" | "standby";
+
+/**
+ * Health of a Router link, as returned by `getLinkStatus()`
+ */
+export interface KNXRouterLinkStatus {
+  key: string;
+  state: KNXRouterLinkState;
+  /** Time of the last change of state */
+  since: Date;
+  /** Failed reconnect attempts since the link went down */
+  reconnectAttempts: number;
+  lastError: string | null;
+  /** Primary link of a standby link */
+  standbyFor: string | null;
+  /** Telegrams waiting in the outbound queue of the link */
+  queued: number;
+  /** Telegrams the Router has sent to the link */
+  sent: number;
+  /** Telegrams the link failed to send */
+  failed: number;
+  /** Telegrams dropped because the outbound queue was full */
+  dropped: number;
+}
+
+/**
+ * Outbound queue of a Router link. Telegrams leave it by priority (system > urgent > normal > low), and
+ * in order within the same priority.
+ */
+export interface KNXRouterLinkQueueOptions {
+  /**
+   * Telegrams per second sent to the link, e.g. 20 for a TP line at 9600 bit/s. Defaults to no limit:
+   * each telegram is still sent once the link has taken the previous one, by priority.
+   */
+  rate?: number;
+  /**
+   * Telegrams that can be sent back to back after an idle period before `rate` applies. Defaults to 1.
+   */
+  burst?: number;
+  /**
+   * Telegrams waiting in the queue. Defaults to 500.
+   */
+  maxLength?: number;
+  /**
+   * Telegram dropped when the queue is full, among those of the lowest priority (the new one included).
+   * Defaults to "drop-oldest".
+   */
+  overflowPolicy?: "drop-oldest" | "drop-newest";
+}
+
+/**
+ * Routing of one kind of telegram across a coupler: "route" forwards all of them, "block" none and "filter"
+ * uses the group filter table (group telegrams) or the address topology (individual telegrams).
+ */
+export type KNXCouplerRouting = "block" | "route" | "filter";
+
+export interface KNXCouplerDirection {
+  /** Defaults to "filter" */
+  group?: KNXCouplerRouting;
+  /** Defaults to "filter" */
+  individual?: KNXCouplerRouting;
+}
+
+/**
+ * Line or area coupler mode of a Router
+ */
+export interface KNXCouplerOptions {
+  /**
+   * Keys of the links on the main line (line coupler) or the backbone (area coupler), e.g. the KNXnet/IP
+   * server of an IP coupler. Every other link is on the subline.
+   */
+  mainLinks: string[];
+  mainToSub?: KNXCouplerDirection;
+  subToMain?: KNXCouplerDirection;
+  /**
+   * Group filter table: group addresses routed with "filter". Entries accept the wildcards, ranges and
+   * negations of KNXRouterAddressFilter. It can also be read and written by ETS (A_FilterTable_Read/Write).
+   */
+  filterTable?: string[];
 }
 
 export interface RouterConnOptions extends ExternalManagerOptions {
   routerAddress: string;
   /**
-   * Filtering IP addresses from KNXnetIP to other interfaces such as TPUART or USB
+   * Works as a KNX coupler instead of a learning bridge: `routerAddress` must be area.line.0 (a line coupler,
+   * or an area coupler for area.0.0), individual telegrams are routed by the address topology and group
+   * telegrams through the group filter table.
+   */
+  coupler?: KNXCouplerOptions;
+  /**
+   * Filters per link, by the key of the link ("TPUART", "KNXUSB", "IP Tunneling: 192.168.1.10:3671",
+   * "IP KNXnet/IP Server: 192.168.1.50:3671" or the key given to `registerLink()`).
+   * They apply on top of `toLocalFilter` and `toIpFilter`.
+   */
+  linkFilters?: Record<string, KNXRouterLinkFilter>;
+  /**
+   * Rewrites the addresses of the frames routed between pairs of links, e.g. when two installations with
+   * colliding group address schemes are bridged. Filters see the addresses as used on the destination link.
+   */
+  addressTranslation?: KNXRouterAddressTranslation[];
+  /**
+   * Reconnects the links that go down (USB unplugged, tunnel heartbeat lost...) with backoff. A link is
+   * considered up from its registration until it emits `disconnected` or fails to connect. Each attempt
+   * fails after 10 s without connecting. When `maxAttempts` run out the Router emits `link_failed` (not
+   * `error`) and the link stays down.
+   */
+  linkReconnect?: KNXReconnectOptions;
+  /**
+   * Standby link key -> primary link key, e.g. { "IP Tunneling: 192.168.1.11:3671": "KNXUSB" }.
+   * A standby link stays connected but only routes frames while its primary link is down.
+   */
+  standbyLinks?: Record<string, string>;
+  /**
+   * Transmit shaping per link key, e.g. { TPUART: { rate: 20, burst: 5 } }, so a fast IP side cannot
+   * overrun the queue of a TP interface. Frames the Router routes to the link go through its queue.
+   */
+  linkQueues?: Record<string, KNXRouterLinkQueueOptions>;
+  /**
+   * Filtering IP addresses from KNXnetIP to other interfaces such as TPUART or USB.
+   * The addresses accept the same wildcards, ranges and negations as KNXRouterAddressFilter.
    */
   toLocalFilter?: {
     individualAddress?: {
@@ -194,7 +657,8 @@ export interface RouterConnOptions extends ExternalManagerOptions {
     };
   };
   /**
-   * Filtering addresses from interfaces such as TP UART or USB to KNXnet IP
+   * Filtering addresses from interfaces such as TP UART or USB to KNXnet IP.
+   * The addresses accept the same wildcards, ranges and negations as KNXRouterAddressFilter.
    */
   toIpFilter?: {
     individualAddress?: {
@@ -217,6 +681,11 @@ export interface KNXUSBOptions {
    * Pino logger configuration.
    */
   logOptions?: KNXLoggerOptions;
+  /**
+   * KNX Data Secure. Telegrams sent with `write()`/`read()`/`sendIndividual()` to an address of the key table are secured
+   * (S-A_Data) and secured telegrams received from it are decrypted before `indication` is emitted.
+   */
+  dataSecure?: KNXDataSecureOptions;
 }
 
 export type AllConnectionOptions = TPUARTOptions | KNXUSBOptions | KNXnetIPServerOptions | KNXTunnelingOptions;
@@ -237,6 +706,117 @@ export interface KNXDiscoveredDevice {
   routingMulticastAddress: string;
   macAddress: string;
   friendlyName: string;
+  /**
+   * Service families announced in the SupportedServicesDIB (Core, Tunnelling, Routing...).
+   */
+  supportedServices: { family: number; familyName: string; version: number }[];
+  /**
+   * Tunnelling slots from the TunnellingInfoDIB. Only present in extended search responses.
+   */
+  tunnelling?: {
+    maxApduLength: number;
+    slots: { individualAddress: string; free: boolean; authorised: boolean; usable: boolean }[];
+  };
+  /**
+   * Data from the ExtendedDeviceInformationDIB. Only present in extended search responses.
+   */
+  extendedInfo?: { mediumStatus: number; maxLocalApduLength: number; deviceDescriptor: number };
+  /**
+   * Local IPv4 address of the interface the response was received on.
+   */
+  localInterface?: string;
+}
+
+/**
+ * Options for KNXnetIPDiscovery.discover().
+ */
+export interface KNXDiscoveryOptions {
+  /**
+   * Time window in milliseconds to collect responses. Defaults to 3000.
+   */
+  timeout?: number;
+  /**
+   * Discovery multicast address. Defaults to 224.0.23.12.
+   */
+  ip?: string;
+  /**
+   * Discovery port. Defaults to 3671.
+   */
+  port?: number;
+  /**
+   * Local IPv4 addresses to search from. Defaults to every non-internal IPv4 interface.
+   */
+  interfaces?: string[];
+  /**
+   * Also send SEARCH_REQUEST_EXTENDED (returns TunnellingInfoDIB and ExtendedDeviceInformationDIB). Defaults to true.
+   */
+  useExtended?: boolean;
+  /**
+   * Search Request Parameters (SRP). When set, only SEARCH_REQUEST_EXTENDED is sent and
+   * only the gateways matching every criterion answer.
+   */
+  filter?: KNXSearchFilter;
+}
+
+/**
+ * Options for KNXnetIPDiscovery.describe().
+ */
+export interface KNXDescribeOptions {
+  /**
+   * Wait time in milliseconds for the DESCRIPTION_RESPONSE. Defaults to 3000.
+   */
+  timeout?: number;
+  /**
+   * Local IPv4 address to send from. Defaults to the first non-internal interface.
+   */
+  localIp?: string;
+  /**
+   * Sends a "Route Back" HPAI (0.0.0.0:0) so the gateway answers to the source of the request (NAT).
+   */
+  useRouteBack?: boolean;
+}
+
+/**
+ * Parsed DESCRIPTION_RESPONSE. Every known DIB is exposed by type, the rest as UnknownDIB.
+ */
+export interface KNXDeviceDescription {
+  ip: string;
+  port: number;
+  deviceInfo?: DeviceInformationDIB;
+  supportedServices?: SupportedServicesDIB;
+  ipConfig?: IPConfigDIB;
+  ipCurrentConfig?: IPCurrentConfigDIB;
+  knxAddresses?: KNXAddressesDIB;
+  tunnellingInfo?: TunnellingInfoDIB;
+  extendedDeviceInfo?: ExtendedDeviceInformationDIB;
+  manufacturerData: MfrDataDIB[];
+  unknown: UnknownDIB[];
+  /**
+   * All DIBs in the order they were received.
+   */
+  dibs: DIB[];
+}
+
+/**
+ * Selection criteria sent as SRPs in SEARCH_REQUEST_EXTENDED.
+ */
+export interface KNXSearchFilter {
+  /**
+   * Only devices currently in programming mode answer.
+   */
+  programmingMode?: boolean;
+  /**
+   * Only the device with this MAC address answers (e.g. "00:24:6d:01:02:03").
+   */
+  macAddress?: string;
+  /**
+   * Only devices supporting all these service families (with at least the given version, default 1) answer.
+   */
+  services?: { family: number; version?: number }[];
+  /**
+   * DIBs to include in the response. DEVICE_INFO and SUPP_SVC_FAMILIES are always returned.
+   */
+  requestDIBs?: DescriptionType[];
 }
 
 export interface IndicationRouterLink {
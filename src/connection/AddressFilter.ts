@@ -0,0 +1,131 @@
+import { KNXRouterAddressFilter, KNXRouterFilterRules } from "../@types/interfaces/connection";
+import { KNXHelper } from "../utils/KNXHelper";
+
+export type AddressKind = "group" | "individual";
+
+/**
+ * Bits of each field of an address, from the most significant one.
+ * Two-level group addresses ("main/sub") use 5 + 11 bits.
+ */
+const FIELDS: Record<AddressKind, number[]> = {
+  group: [5, 3, 8],
+  individual: [4, 4, 8],
+};
+
+/**
+ * Address list of a Router filter compiled into a lookup table of the 65536 addresses.
+ * Entries are exact addresses, wildcards ("1/2/*", "1.1.*"), ranges ("1/0/0-1/7/255") or any of them negated
+ * with "!". They apply in order, so a later entry overrides an earlier one; a list starting with a negation
+ * starts from every address.
+ */
+export class AddressFilter {
+  private readonly matched: Uint8Array;
+  private readonly acceptOnly: boolean;
+
+  constructor(
+    addresses: string[],
+    policy: KNXRouterAddressFilter["policy"],
+    private readonly kind: AddressKind,
+  ) {
+    if (policy !== "accept only" && policy !== "discard all") throw new Error(`Unknown filter policy "${policy}"`);
+    this.acceptOnly = policy === "accept only";
+    this.matched = compileAddressList(addresses, kind);
+  }
+
+  /**
+   * True when a frame to `address` may pass
+   */
+  passes(address: string): boolean {
+    const value = KNXHelper.GetAddress(address, this.kind === "group" ? "/" : ".").readUInt16BE();
+    return (this.matched[value] === 1) === this.acceptOnly;
+  }
+}
+
+/**
+ * Group and individual address filters of one direction or link (see KNXRouterFilterRules)
+ */
+export class RouterFilter {
+  private readonly group: AddressFilter | null;
+  private readonly individual: AddressFilter | null;
+
+  constructor(rules: KNXRouterFilterRules = {}) {
+    const { groupAddress, individualAddress } = rules;
+    this.group = groupAddress ? new AddressFilter(groupAddress.addresses, groupAddress.policy, "group") : null;
+    this.individual = individualAddress
+      ? new AddressFilter(individualAddress.addresses, individualAddress.policy, "individual")
+      : null;
+  }
+
+  passes(destination: string, isGroup: boolean): boolean {
+    const filter = isGroup ? this.group : this.individual;
+    return filter ? filter.passes(destination) : true;
+  }
+}
+
+/**
+ * Compiles a list of filter entries (see AddressFilter)
+ * @returns Lookup table of the 65536 addresses, 1 for the matched ones
+ * @throws Error when an entry is not valid
+ */
+export function compileAddressList(addresses: string[], kind: AddressKind): Uint8Array {
+  const matched = new Uint8Array(0x10000);
+  if (addresses[0]?.startsWith("!")) matched.fill(1);
+  for (const entry of addresses) {
+    const negated = entry.startsWith("!");
+    const [from, to] = parseEntry(negated ? entry.slice(1) : entry, kind);
+    matched.fill(negated ? 0 : 1, from, to + 1);
+  }
+  return matched;
+}
+
+/**
+ * "1/2/3", "1/2/*", "1/*", "*", "1/0/0-1/7/255", "1/500" (two levels) or the same forms with "." for
+ * individual addresses
+ * @returns First and last address (inclusive)
+ * @throws Error when the entry is not valid
+ */
+export function parseEntry(entry: string, kind: AddressKind): [number, number] {
+  const trimmed = entry.trim();
+  const dash = trimmed.indexOf("-");
+  if (dash !== -1) {
+    const from = parseEntry(trimmed.slice(0, dash), kind);
+    const to = parseEntry(trimmed.slice(dash + 1), kind);
+    if (from[0] !== from[1] || to[0] !== to[1] || from[0] > to[0]) {
+      throw new Error(`Invalid address range in filter: ${entry}`);
+    }
+    return [from[0], to[0]];
+  }
+
+  const separator = kind === "group" ? "/" : ".";
+  const parts = trimmed.split(separator);
+  let fields = FIELDS[kind];
+  // "1/500": dirección de grupo de dos niveles
+  if (kind === "group" && parts.length === 2 && parts[1] !== "*") fields = [5, 11];
+  // Los campos que faltan tras un comodín también son comodines ("1/*" == "1/*/*")
+  if (parts.length < fields.length && parts[parts.length - 1] === "*") {
+    while (parts.length < fields.length) parts.push("*");
+  }
+  if (parts.length !== fields.length) throw new Error(`Invalid ${kind} address in filter: ${entry}`);
+
+  let from = 0;
+  let to = 0;
+  let wildcard = false;
+  parts.forEach((part, index) => {
+    const bits = fields[index];
+    const max = (1 << bits) - 1;
+    from <<= bits;
+    to <<= bits;
+    if (part === "*") {
+      wildcard = true;
+      to |= max;
+      return;
+    }
+    // Tras un comodín solo pueden venir comodines, si no el rango no sería contiguo
+    if (wildcard || !/^\d+$/.test(part) || Number(part) > max) {
+      throw new Error(`Invalid ${kind} address in filter: ${entry}`);
+    }
+    from |= Number(part);
+    to |= Number(part);
+  });
+  return [from, to];
+}
@@ -0,0 +1,69 @@
+import { KNXRouterAddressTranslation } from "../@types/interfaces/connection";
+import { KNXHelper } from "../utils/KNXHelper";
+import { AddressKind, parseEntry } from "./AddressFilter";
+
+/** Address on the first link -> address on the second link, and the reverse */
+interface AddressMapping {
+  forward: Map<number, number>;
+  reverse: Map<number, number>;
+}
+
+/**
+ * Address translation between two links of a Router (see KNXRouterAddressTranslation)
+ */
+export class AddressTranslation {
+  readonly links: [string, string];
+  private readonly group: AddressMapping;
+  private readonly individual: AddressMapping;
+
+  constructor(options: KNXRouterAddressTranslation) {
+    if (options.links?.length !== 2 || options.links[0] === options.links[1]) {
+      throw new Error("An address translation needs two different links");
+    }
+    this.links = options.links;
+    this.group = compileMapping(options.groupAddresses ?? {}, "group");
+    this.individual = compileMapping(options.individualAddresses ?? {}, "individual");
+  }
+
+  /**
+   * True when the translation applies to frames from `fromLink` to `toLink`
+   */
+  appliesTo(fromLink: string, toLink: string): boolean {
+    const [first, second] = this.links;
+    return (fromLink === first && toLink === second) || (fromLink === second && toLink === first);
+  }
+
+  /**
+   * Address used on the other link for an address of `fromLink`. Unmapped addresses are kept.
+   */
+  translate(address: string, isGroup: boolean, fromLink: string): string {
+    const mapping = isGroup ? this.group : this.individual;
+    const table = fromLink === this.links[0] ? mapping.forward : mapping.reverse;
+    if (table.size === 0) return address;
+    const separator = isGroup ? "/" : ".";
+    const translated = table.get(KNXHelper.GetAddress(address, separator).readUInt16BE());
+    return translated === undefined ? address : KNXHelper.GetAddress(translated, separator);
+  }
+}
+
+function compileMapping(entries: Record<string, string>, kind: AddressKind): AddressMapping {
+  const mapping: AddressMapping = { forward: new Map(), reverse: new Map() };
+  for (const [from, to] of Object.entries(entries)) {
+    const [fromStart, fromEnd] = parseEntry(from, kind);
+    const [toStart, toEnd] = parseEntry(to, kind);
+    if (fromEnd - fromStart !== toEnd - toStart) {
+      throw new Error(`Address translation ${from} -> ${to} does not map the same number of addresses`);
+    }
+    for (let offset = 0; offset <= fromEnd - fromStart; offset++) {
+      const source = fromStart + offset;
+      const target = toStart + offset;
+      // Debe ser biyectiva, si no la traducción inversa sería ambigua
+      if ((mapping.forward.get(source) ?? target) !== target || (mapping.reverse.get(target) ?? source) !== source) {
+        throw new Error(`Address translation ${from} -> ${to} is not one to one`);
+      }
+      mapping.forward.set(source, target);
+      mapping.reverse.set(target, source);
+    }
+  }
+  return mapping;
+}
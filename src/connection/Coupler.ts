@@ -0,0 +1,183 @@
+import { KNXCouplerOptions, KNXCouplerRouting } from "../@types/interfaces/connection";
+import { APCIEnum } from "../core/enum/APCIEnum";
+import { DeviceDescriptorType0 } from "../core/resources/DeviceDescriptorType";
+import { InvalidKnxAddressException } from "../errors/InvalidKnxAddresExeption";
+import { KNXHelper } from "../utils/KNXHelper";
+import { compileAddressList } from "./AddressFilter";
+
+/** One bit per group address, most significant bit first */
+const FILTER_TABLE_OCTETS = 0x10000 / 8;
+/** Octets of the table per A_FilterTable_Read/Write, so the APDU fits in a standard frame */
+const MAX_FILTER_TABLE_BLOCK = 11;
+const ROUTING_MODES: KNXCouplerRouting[] = ["block", "route", "filter"];
+
+/**
+ * Topology, group filter table and management of a Router in coupler mode (see KNXCouplerOptions).
+ *
+ * The filter table is served over a point-to-point connection to the coupler address:
+ * - A_FilterTable_Open: enables the other two services for the connection.
+ * - A_FilterTable_Read: start group address (2 octets, multiple of 8) and number of octets (1 octet, max 11).
+ *   Answered with A_FilterTable_Response: start address, number of octets and the octets of the table
+ *   (number 0 when the block is not valid).
+ * - A_FilterTable_Write: start address, number of octets and the octets to write.
+ */
+export class Coupler {
+  readonly address: number;
+  private readonly mainLinks: Set<string>;
+  /** First and last address of the subline (line coupler) or of the area (area coupler) */
+  private readonly subRange: [number, number];
+  private readonly routing: Record<"mainToSub" | "subToMain", Record<"group" | "individual", KNXCouplerRouting>>;
+  private readonly filterTable = new Uint8Array(FILTER_TABLE_OCTETS);
+  private connection: { peer: number; sequence: number; open: boolean; timer: NodeJS.Timeout } | null = null;
+
+  constructor(options: KNXCouplerOptions, individualAddress: string) {
+    if (!KNXHelper.isValidIndividualAddress(individualAddress)) {
+      throw new InvalidKnxAddressException(`This ${individualAddress} is not individual address`);
+    }
+    this.address = KNXHelper.GetAddress(individualAddress, ".").readUInt16BE();
+    if ((this.address & 0xff) !== 0 || this.address === 0) {
+      throw new InvalidKnxAddressException(`A coupler address must be area.line.0, got ${individualAddress}`);
+    }
+    // a.l.0 acopla la línea a.l, a.0.0 acopla el área a
+    const mask = this.address & 0x0f00 ? 0xff00 : 0xf000;
+    this.subRange = [this.address & mask, (this.address & mask) | (~mask & 0xffff)];
+    this.mainLinks = new Set(options.mainLinks);
+    this.routing = {
+      mainToSub: this.parseDirection(options.mainToSub, "mainToSub"),
+      subToMain: this.parseDirection(options.subToMain, "subToMain"),
+    };
+    this.setFilterTable(options.filterTable ?? []);
+  }
+
+  isMainLink(key: string): boolean {
+    return this.mainLinks.has(key);
+  }
+
+  /**
+   * True when a telegram to `destination` crosses the coupler, from the main side when `fromMain` is set
+   */
+  passes(destination: string, isGroup: boolean, fromMain: boolean): boolean {
+    const mode = this.routing[fromMain ? "mainToSub" : "subToMain"][isGroup ? "group" : "individual"];
+    if (mode !== "filter") return mode === "route";
+    const value = KNXHelper.GetAddress(destination, isGroup ? "/" : ".").readUInt16BE();
+    if (isGroup) {
+      // Los broadcast (0/0/0) no pasan por la tabla de filtros
+      return value === 0 || (this.filterTable[value >> 3] & (0x80 >> (value & 0x07))) !== 0;
+    }
+    const inSubline = value >= this.subRange[0] && value <= this.subRange[1];
+    return fromMain ? inSubline : !inSubline;
+  }
+
+  /**
+   * Group addresses of the filter table
+   */
+  getFilterTable(): string[] {
+    const addresses: string[] = [];
+    this.filterTable.forEach((octet, index) => {
+      if (!octet) return;
+      for (let bit = 0; bit < 8; bit++) {
+        if (octet & (0x80 >> bit)) addresses.push(KNXHelper.GetAddress((index << 3) | bit, "/"));
+      }
+    });
+    return addresses;
+  }
+
+  /**
+   * Replaces the filter table. Entries accept the wildcards, ranges and negations of KNXRouterAddressFilter.
+   * @throws Error when an entry is not valid
+   */
+  setFilterTable(addresses: string[]) {
+    const matched = compileAddressList(addresses, "group");
+    this.filterTable.fill(0);
+    matched.forEach((value, address) => {
+      if (value) this.filterTable[address >> 3] |= 0x80 >> (address & 0x07);
+    });
+  }
+
+  /**
+   * Handles a telegram to the coupler address (transport layer connection, A_DeviceDescriptor_Read,
+   * A_Restart and the filter table services).
+   * @param reply Sends a TPDU back to `source`
+   * @returns True when the filter table was written
+   */
+  handleManagement(source: number, tpdu: Buffer, reply: (tpdu: Buffer) => void): boolean {
+    if (tpdu.length === 0) return false;
+    const tpci = tpdu[0];
+    const connection = this.connection;
+    if (tpci === 0x80) {
+      // T_Connect: una sola conexión, la nueva sustituye a la anterior
+      this.close();
+      this.connection = { peer: source, sequence: 0, open: false, timer: setTimeout(() => this.close(), 6000) };
+      return false;
+    }
+    if (!connection || connection.peer !== source) {
+      if ((tpci & 0xc0) === 0x40) reply(Buffer.from([0x81])); // T_Disconnect
+      return false;
+    }
+    if (tpci === 0x81) {
+      this.close();
+      return false;
+    }
+    if ((tpci & 0xc0) !== 0x40 || tpdu.length < 2) return false; // T_ACK/T_NAK de nuestras respuestas
+    connection.timer.refresh();
+
+    // T_Data_Connected: confirmamos con T_ACK y el mismo número de secuencia
+    reply(Buffer.from([0xc2 | (((tpci >> 2) & 0x0f) << 2)]));
+    const apci = ((tpci & 0x03) << 8) | tpdu[1];
+    const respond = (apci: number, data: Buffer) => {
+      reply(Buffer.concat([Buffer.from([0x40 | (connection.sequence << 2) | (apci >> 8), apci & 0xff]), data]));
+      connection.sequence = (connection.sequence + 1) & 0x0f;
+    };
+
+    if ((apci & 0x3c0) === APCIEnum.A_DeviceDescriptor_Read_Protocol_Data_Unit && (apci & 0x3f) === 0) {
+      const descriptor = DeviceDescriptorType0.TP1_COUPLER_1_2.value;
+      respond(
+        APCIEnum.A_DeviceDescriptor_Response_Protocol_Data_Unit,
+        Buffer.from([descriptor >> 8, descriptor & 0xff]),
+      );
+    } else if ((apci & 0x3c0) === APCIEnum.A_Restart_Protocol_Data_Unit) {
+      this.close();
+    } else if (apci === APCIEnum.A_FilterTable_Open_Protocol_Data_Unit) {
+      connection.open = true;
+    } else if (apci === APCIEnum.A_FilterTable_Read_Protocol_Data_Unit && tpdu.length >= 5) {
+      const start = tpdu.readUInt16BE(2);
+      const count = connection.open && this.isValidBlock(start, tpdu[4]) ? tpdu[4] : 0;
+      const octets = this.filterTable.subarray(start >> 3, (start >> 3) + count);
+      respond(
+        APCIEnum.A_FilterTable_Response_Protocol_Data_Unit,
+        Buffer.from([start >> 8, start & 0xff, count, ...octets]),
+      );
+    } else if (apci === APCIEnum.A_FilterTable_Write_Protocol_Data_Unit && tpdu.length >= 5) {
+      const start = tpdu.readUInt16BE(2);
+      const count = tpdu[4];
+      if (!connection.open || !this.isValidBlock(start, count) || tpdu.length < 5 + count) return false;
+      this.filterTable.set(tpdu.subarray(5, 5 + count), start >> 3);
+      return true;
+    }
+    return false;
+  }
+
+  close() {
+    if (!this.connection) return;
+    clearTimeout(this.connection.timer);
+    this.connection = null;
+  }
+
+  private isValidBlock(start: number, count: number): boolean {
+    return (
+      (start & 0x07) === 0 &&
+      count > 0 &&
+      count <= MAX_FILTER_TABLE_BLOCK &&
+      (start >> 3) + count <= FILTER_TABLE_OCTETS
+    );
+  }
+
+  private parseDirection(direction: KNXCouplerOptions["mainToSub"] = {}, name: string) {
+    const group = direction.group ?? "filter";
+    const individual = direction.individual ?? "filter";
+    for (const mode of [group, individual]) {
+      if (!ROUTING_MODES.includes(mode)) throw new Error(`Unknown coupler routing "${mode}" in ${name}`);
+    }
+    return { group, individual };
+  }
+}
@@ -0,0 +1,27 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { KNXServerState, KNXServerStateStore } from "../@types/interfaces/connection";
+
+/**
+ * Saves the state of a KNXnetIPServer as a JSON file. The file is written to a temporary file
+ * first and then renamed, so a power cut never leaves half a file behind.
+ */
+export class JsonFileStateStore implements KNXServerStateStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<Partial<KNXServerState> | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (e: any) {
+      if (e.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async save(state: KNXServerState): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(state, null, 2), "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+}
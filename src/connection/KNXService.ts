@@ -13,10 +13,15 @@ import { APCI } from "../core/layers/interfaces/APCI";
 import { APCIEnum } from "../core/enum/APCIEnum";
 import { AllDpts } from "../@types/types/AllDpts";
 import { AllConnectionOptions } from "../@types/interfaces/connection";
+import { ConfirmationTimeoutError, NegativeConfirmationError } from "../errors/ConfirmationErrors";
+import { DataSecure } from "../core/security/DataSecure";
 
 import { Logger } from "pino";
 import { knxLogger, setupLogger } from "../utils/Logger";
 
+type LDataFrame = InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.req" | "L_Data.con" | "L_Data.ind"]>;
+export type LDataConfirmation = InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.con"]>;
+
 export abstract class KNXService<TOptions extends AllConnectionOptions = AllConnectionOptions> extends EventEmitter {
   protected socket: dgram.Socket | net.Socket | null = null;
   public readonly options: TOptions;
@@ -25,6 +30,10 @@ export abstract class KNXService<TOptions extends AllConnectionOptions = AllConn
   public individualAddress: string = "1.0.1";
   public isCacheDelegated: boolean = false;
   public isEventsDelegated: boolean = false;
+  /**
+   * KNX Data Secure layer, only when `dataSecure` is configured
+   */
+  public readonly dataSecure: DataSecure | null = null;
 
   constructor(options: TOptions = {} as TOptions) {
     super();
@@ -38,6 +47,7 @@ export abstract class KNXService<TOptions extends AllConnectionOptions = AllConn
       setupLogger(this.options.logOptions);
     }
     this.logger = knxLogger;
+    if (this.options.dataSecure) this.dataSecure = new DataSecure(this.options.dataSecure);
   }
 
   /**
@@ -54,6 +64,113 @@ export abstract class KNXService<TOptions extends AllConnectionOptions = AllConn
    */
   abstract send(data: Buffer | CEMIInstance): Promise<void>;
 
+  /**
+   * Send a telegram and wait for the matching L_Data.con of the data link layer.
+   * Unlike `send()`, which resolves when the interface accepted the frame, this resolves only once the
+   * frame was actually transmitted on the medium. Every interface reports the result the same way: tunnelling
+   * and USB through the L_Data.con they receive, TP-UART through its confirmation services.
+   * @param data A cEMI L_Data.req buffer or an instance of a CEMI message (interfaces speaking EMI take their
+   * raw frames, as in `send()`)
+   * @param timeout Time in milliseconds to wait for the confirmation (default 3000)
+   * @returns The positive L_Data.con
+   * @throws NegativeConfirmationError when the frame was not transmitted (negative L_Data.con, TP-UART NAK)
+   * @throws ConfirmationTimeoutError when no confirmation arrives in time
+   */
+  public async sendConfirmed(data: Buffer | CEMIInstance, timeout: number = 3000): Promise<LDataConfirmation> {
+    const request = this.toLDataFrame(data);
+
+    return new Promise<LDataConfirmation>((resolve, reject) => {
+      const onIndication = (cemi: CEMIInstance) => {
+        if (!(cemi instanceof CEMI.DataLinkLayerCEMI["L_Data.con"])) return;
+        if (!KNXService.isConfirmationOf(request, cemi)) return;
+        cleanup();
+        if (cemi.controlField1.confirm) reject(new NegativeConfirmationError(cemi));
+        else resolve(cemi);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new ConfirmationTimeoutError(request.destinationAddress, timeout));
+      }, timeout);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.removeListener("indication", onIndication);
+      };
+
+      // The listener goes first: some interfaces confirm before send() resolves
+      this.on("indication", onIndication);
+      this.send(data).catch((err) => {
+        cleanup();
+        reject(err);
+      });
+    });
+  }
+
+  /**
+   * Parses the outgoing data of `sendConfirmed()` into an L_Data frame. Interfaces speaking EMI override it.
+   */
+  protected toLDataFrame(data: Buffer | CEMIInstance): LDataFrame {
+    const cemi = Buffer.isBuffer(data) ? CEMI.fromBuffer(data) : data;
+    if (!("TPDU" in cemi) || !("destinationAddress" in cemi)) {
+      throw new Error("sendConfirmed() requires an L_Data frame");
+    }
+    return cemi as LDataFrame;
+  }
+
+  /**
+   * Builds the L_Data.con for a request when the interface reports the result by other means
+   * (TP-UART ACK services, local transmission on KNX IP).
+   * @param isError Value of the confirm flag (true = error)
+   */
+  protected buildConfirmation(request: LDataFrame, isError: boolean): LDataConfirmation {
+    const controlField1 = new ControlField(request.controlField1.buffer[0]);
+    controlField1.confirm = isError;
+    return new CEMI.DataLinkLayerCEMI["L_Data.con"](
+      null,
+      controlField1,
+      request.controlField2,
+      request.sourceAddress,
+      request.destinationAddress,
+      request.TPDU,
+    );
+  }
+
+  /**
+   * The source of the confirmation may differ from the request (0.0.0 is replaced by the interface),
+   * so destination and TPDU identify the frame.
+   */
+  protected static isConfirmationOf(request: LDataFrame, con: LDataConfirmation): boolean {
+    return con.destinationAddress === request.destinationAddress && con.TPDU.toBuffer().equals(request.TPDU.toBuffer());
+  }
+
+  /**
+   * Outgoing path of Data Secure: telegrams to an address of the key table leave as S-A_Data.
+   */
+  protected secureOutgoing(cemi: CEMIInstance): CEMIInstance {
+    if (!this.dataSecure) return cemi;
+    const plain = cemi.toBuffer();
+    const secured = this.dataSecure.secure(plain, this.individualAddress);
+    return secured === plain ? cemi : CEMI.fromBuffer(secured);
+  }
+
+  /**
+   * Incoming path of Data Secure: S-A_Data telegrams are verified and decrypted.
+   * @returns The telegram for the application, or null when it failed authentication, was replayed or
+   * reached a secured address in plain
+   */
+  protected unsecureIndication(cemi: CEMIInstance): CEMIInstance | null {
+    if (!this.dataSecure) return cemi;
+    const received = cemi.toBuffer();
+    const plain = this.dataSecure.unsecure(received);
+    if (!plain) {
+      this.logger.warn(
+        { counters: this.dataSecure.counters },
+        `Data Secure dropped a telegram to ${"destinationAddress" in cemi ? cemi.destinationAddress : "?"}`,
+      );
+      return null;
+    }
+    return plain === received ? cemi : CEMI.fromBuffer(plain);
+  }
+
   /**
    * Send a GroupValue_Write telegram to a group address.
    * @param destination The group address (e.g., "1/1/1")
@@ -100,7 +217,7 @@ export abstract class KNXService<TOptions extends AllConnectionOptions = AllConn
     const cemi = new CEMI.DataLinkLayerCEMI["L_Data.req"](null, cf1, cf2, this.individualAddress, destination, tpdu);
     this.logger.debug({ service: cemi.constructor.name }, "Sending GroupValue_Write");
 
-    return this.send(cemi) as Promise<void>;
+    return this.send(this.secureOutgoing(cemi)) as Promise<void>;
   }
 
   /**
@@ -122,6 +239,32 @@ export abstract class KNXService<TOptions extends AllConnectionOptions = AllConn
 
     const cemi = new CEMI.DataLinkLayerCEMI["L_Data.req"](null, cf1, cf2, "0.0.0", destination, tpdu);
 
-    return this.send(cemi) as Promise<void>;
+    return this.send(this.secureOutgoing(cemi)) as Promise<void>;
+  }
+
+  /**
+   * Send an application service point-to-point (T_Data_Individual) to a device, e.g. A_DeviceDescriptor_Read.
+   * With `dataSecure` and the tool key of the device it leaves as S-A_Data.
+   * @param destination The individual address (e.g., "1.1.5")
+   * @param apci The application service
+   * @param data The data of the service
+   * @param isShort The first data octet (up to 6 bits) goes inside the APCI octet, e.g. the count of A_Memory_Read
+   */
+  public async sendIndividual(
+    destination: string,
+    apci: APCIEnum,
+    data: Buffer = Buffer.alloc(0),
+    isShort: boolean = false,
+  ): Promise<void> {
+    const cf1 = new ControlField(0xb0);
+    const cf2 = new ExtendedControlField(0x60);
+    // TPCI T_Data_Individual (00h) con los 2 bits altos del APCI
+    const apciOctets = Buffer.from([(apci >> 8) & 0x03, apci & 0xff]);
+    if (isShort) apciOctets[1] |= data[0] & 0x3f;
+    const tpdu = TPDU.fromBuffer(Buffer.concat([apciOctets, isShort ? data.subarray(1) : data]));
+
+    const cemi = new CEMI.DataLinkLayerCEMI["L_Data.req"](null, cf1, cf2, this.individualAddress, destination, tpdu);
+
+    return this.send(this.secureOutgoing(cemi)) as Promise<void>;
   }
 }
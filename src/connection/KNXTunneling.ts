@@ -3,11 +3,38 @@ import net from "net";
 import { KNXService } from "./KNXService";
 import { KNXnetIPHeader } from "../core/KNXnetIPHeader";
 import { HPAI, CRI, CRD } from "../core/KNXnetIPStructures";
-import { KNXnetIPServiceType, KNXnetIPErrorCodes, HostProtocolCode, ConnectionType } from "../core/enum/KNXnetIPEnum";
+import {
+  KNXnetIPServiceType,
+  KNXnetIPErrorCodes,
+  HostProtocolCode,
+  ConnectionType,
+  KNXTimeoutConstants,
+  TunnellingFeature,
+  SecureSessionStatus,
+  TunnelLink,
+} from "../core/enum/KNXnetIPEnum";
+import { KNXnetIPFeatures, TunnellingFeatureValues } from "../core/KNXnetIPFeatures";
 import { CEMI, CEMIInstance } from "../core/CEMI";
-import { KNXTunnelingOptions } from "../@types/interfaces/connection";
+import {
+  KNXDescribeOptions,
+  KNXDeviceDescription,
+  KNXDiscoveredDevice,
+  KNXDiscoveryOptions,
+  KNXTunnelingOptions,
+} from "../@types/interfaces/connection";
 import { KNXHelper } from "../utils/KNXHelper";
 import { GroupAddressCache } from "../core/cache/GroupAddressCache";
+import { KNXnetIPDiscovery } from "./KNXnetIPDiscovery";
+import { SecureSession, SecureSessionCredentials } from "../core/security/SecureSession";
+import { KNXSecureCrypto } from "../core/security/KNXSecureCrypto";
+import { SecureSessionError, SecureWrapperError } from "../errors/SecureErrors";
+import { ManagementTimeoutError, PropertyAccessError } from "../errors/ManagementErrors";
+import { ConnectError, TunnelAddressUnavailableError, TunnelConnectionInUseError } from "../errors/ConnectErrors";
+import { InvalidKnxAddressException } from "../errors/InvalidKnxAddresExeption";
+import { getNetworkInfo } from "../utils/localIp";
+import { getReconnectDelay } from "../utils/reconnectDelay";
+import { decodeBusmonitorFrame } from "../core/BusmonitorFrame";
+import { MESSAGE_CODE_FIELD } from "../core/MessageCodeField";
 
 /**
  * Handles KNXnet/IP Tunneling connections for point-to-point communication with a KNX gateway.
@@ -33,6 +60,11 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     resolve: (val?: any) => void;
     reject: (e: Error) => void;
     responseType?: KNXnetIPServiceType;
+    /** Device management: recognises the confirmation of the request */
+    matchResponse?: (cemi: CEMIInstance) => boolean;
+    service?: string;
+    /** Already resent after a TUNNELLING_ACK with an error status: a second error rejects it */
+    resent?: boolean;
   }[] = [];
   private isSending: boolean = false;
   private pendingAck: {
@@ -42,11 +74,29 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     currentMsg: any;
   } | null = null;
   private activeRequest: any | null = null;
+  private responseTimer: NodeJS.Timeout | null = null;
 
   private readonly MAX_QUEUE_SIZE: number;
 
   // Disconnect
   private disconnectTimeout: NodeJS.Timeout | null = null;
+  private isClosing: boolean = false;
+
+  // Reconnect
+  private isReconnecting: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt: {
+    timer: NodeJS.Timeout;
+    onConnected: () => void;
+    fail: (err: Error) => void;
+  } | null = null;
+
+  // KNX IP Secure
+  private readonly secureCredentials: SecureSessionCredentials | null = null;
+  private secureSession: SecureSession | null = null;
+  private secureHandshakeTimer: NodeJS.Timeout | null = null;
+  private secureKeepaliveTimer: NodeJS.Timeout | null = null;
 
   constructor(options: KNXTunnelingOptions) {
     super(options);
@@ -57,28 +107,60 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     this.options.port = options.port || 3671;
     this.MAX_QUEUE_SIZE = options.maxQueueSize || 100;
     this.logger = this.logger.child({ module: "TunnelClient" });
-  }
 
-  async connect(): Promise<void> {
-    this.rxSequenceNumber = 0;
-    if (this._transport === "TCP") {
-      await this.connectTCP();
-    } else {
-      await this.connectUDP();
+    if (options.busmonitor && this.options.connectionType !== ConnectionType.TUNNEL_CONNECTION) {
+      throw new Error("busmonitor is only available for a TUNNEL_CONNECTION");
+    }
+    if (options.individualAddress !== undefined) {
+      if (this.options.connectionType !== ConnectionType.TUNNEL_CONNECTION) {
+        throw new Error("individualAddress can only be requested for a TUNNEL_CONNECTION");
+      }
+      if (!KNXHelper.isValidIndividualAddress(options.individualAddress)) {
+        throw new InvalidKnxAddressException(`This ${options.individualAddress} is not individual address`);
+      }
+    }
+
+    if (options.secure) {
+      // KNX IP Secure tunnelling solo existe sobre TCP
+      this._transport = "TCP";
+      const { userId, userPassword, userPasswordHash, deviceAuthenticationCode, deviceAuthenticationCodeHash } =
+        options.secure;
+      if (!userPasswordHash && userPassword === undefined) {
+        throw new SecureSessionError("Secure tunnelling requires userPassword or userPasswordHash");
+      }
+      this.secureCredentials = {
+        userId,
+        userPasswordHash: userPasswordHash ?? KNXSecureCrypto.deriveUserPassword(userPassword!),
+        deviceAuthenticationCode:
+          deviceAuthenticationCodeHash ??
+          (deviceAuthenticationCode !== undefined
+            ? KNXSecureCrypto.deriveDeviceAuthenticationCode(deviceAuthenticationCode)
+            : undefined),
+        serialNumber:
+          options.secure.serialNumber ?? Buffer.from(getNetworkInfo().mac.replace(/[:-]/g, ""), "hex").subarray(0, 6),
+      };
     }
   }
 
-  private async connectUDP(): Promise<void> {
-    this.socket = dgram.createSocket("udp4");
+  /**
+   * Searches the local networks for KNXnet/IP gateways before opening a tunnel.
+   * Shortcut to KNXnetIPDiscovery.discover().
+   */
+  static async discover(options?: KNXDiscoveryOptions): Promise<KNXDiscoveredDevice[]> {
+    return KNXnetIPDiscovery.discover(options);
+  }
 
-    // Manejo de mensajes entrantes
-    this.socket.on("message", (msg) => this.handleMessage(msg));
+  /**
+   * Reads the description (DIBs) of a known gateway without opening a tunnel.
+   * Shortcut to KNXnetIPDiscovery.describe().
+   */
+  static async describe(ip: string, port?: number, options?: KNXDescribeOptions): Promise<KNXDeviceDescription> {
+    return KNXnetIPDiscovery.describe(ip, port, options);
+  }
 
-    // ERROR GLOBAL: Si el socket muere, desconectamos
-    this.socket.on("error", (err) => {
-      this.emit("error", err);
-      this.disconnect();
-    });
+  async connect(): Promise<void> {
+    this.rxSequenceNumber = 0;
+    this.isClosing = false;
 
     return new Promise((resolve, reject) => {
       // Listener temporal para atrapar errores DURANTE la conexión inicial
@@ -96,50 +178,159 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
       this.once("error", errorListener);
       this.once("connected", successListener);
 
-      // Bind
-      (this.socket as dgram.Socket).bind(this.options.localPort, this.options.localIp, () => {
-        try {
-          this.sendConnectRequest();
-        } catch (e) {
-          reject(e);
-        }
-      });
+      try {
+        this.openSocket();
+      } catch (e) {
+        this.removeListener("error", errorListener);
+        this.removeListener("connected", successListener);
+        reject(e);
+      }
     });
   }
 
-  private async connectTCP(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.socket = new net.Socket();
+  private openSocket() {
+    if (this._transport === "TCP") {
+      this.openTCPSocket();
+    } else {
+      this.openUDPSocket();
+    }
+  }
 
-      (this.socket as net.Socket).connect(this.options.port!, this.options.ip!, () => {
+  private openUDPSocket() {
+    const socket = dgram.createSocket("udp4");
+    this.socket = socket;
+
+    // Manejo de mensajes entrantes
+    socket.on("message", (msg) => this.handleMessage(msg));
+
+    // ERROR GLOBAL: Si el socket muere, intentamos reconectar o desconectamos
+    socket.on("error", (err) => {
+      if (this.socket === socket) this.handleConnectionLost(err);
+    });
+
+    // Bind
+    socket.bind(this.options.localPort, this.options.localIp, () => {
+      try {
         this.sendConnectRequest();
-        this.once("connected", resolve);
-      });
+      } catch (e) {
+        this.handleConnectionLost(e as Error);
+      }
+    });
+  }
 
-      (this.socket as net.Socket).on("data", (data) => {
-        this.tcpBuffer = Buffer.concat([this.tcpBuffer, data]);
-        while (this.tcpBuffer.length >= 6) {
-          const totalLength = this.tcpBuffer.readUInt16BE(4);
-          if (this.tcpBuffer.length >= totalLength) {
-            const frame = this.tcpBuffer.subarray(0, totalLength);
-            this.tcpBuffer = this.tcpBuffer.subarray(totalLength);
-            this.handleMessage(frame);
-          } else {
-            break;
-          }
+  private openTCPSocket() {
+    const socket = new net.Socket();
+    this.socket = socket;
+    this.tcpBuffer = Buffer.alloc(0);
+
+    socket.connect(this.options.port!, this.options.ip!, () => {
+      if (this.secureCredentials) this.startSecureSession();
+      else this.sendConnectRequest();
+    });
+
+    socket.on("data", (data) => {
+      this.tcpBuffer = Buffer.concat([this.tcpBuffer, data]);
+      while (this.tcpBuffer.length >= 6) {
+        const totalLength = this.tcpBuffer.readUInt16BE(4);
+        if (this.tcpBuffer.length >= totalLength) {
+          const frame = this.tcpBuffer.subarray(0, totalLength);
+          this.tcpBuffer = this.tcpBuffer.subarray(totalLength);
+          this.handleMessage(frame);
+        } else {
+          break;
         }
-      });
+      }
+    });
 
-      (this.socket as net.Socket).on("error", (err) => {
-        this.emit("error", err);
-        this.disconnect();
-        reject(err);
-      });
+    socket.on("error", (err) => {
+      if (this.socket === socket) this.handleConnectionLost(err);
+    });
 
-      (this.socket as net.Socket).on("close", () => this.disconnect());
+    socket.on("close", () => {
+      // Ignoramos el cierre de sockets ya reemplazados por una reconexión
+      if (this.socket !== socket) return;
+      if (!this.tryRecover(new Error("TCP connection closed by remote"))) this.disconnect();
     });
   }
 
+  private handleConnectionLost(reason: Error) {
+    if (this.tryRecover(reason)) return;
+    this.emit("error", reason);
+    this.disconnect();
+  }
+
+  // #region KNX IP Secure
+  /**
+   * Opens the secure session on a fresh TCP socket. The CONNECT_REQUEST follows once SESSION_STATUS
+   * reports AUTHENTICATION_SUCCESS.
+   */
+  private startSecureSession() {
+    this.secureSession = new SecureSession(this.secureCredentials!);
+    // En TCP el HPAI del SESSION_REQUEST siempre es "route back"
+    this.sendRaw(this.secureSession.buildSessionRequest(new HPAI(HostProtocolCode.IPV4_TCP, "0.0.0.0", 0)));
+
+    this.secureHandshakeTimer = setTimeout(
+      () => this.failSecureSession(new SecureSessionError("Secure session handshake timeout")),
+      KNXTimeoutConstants.CONNECT_REQUEST_TIMEOUT * 1000,
+    );
+  }
+
+  private handleSessionStatus(status: number) {
+    switch (status) {
+      case SecureSessionStatus.AUTHENTICATION_SUCCESS:
+        this.clearSecureTimers();
+        this.logger.info(`Secure session ${this.secureSession?.sessionId} authenticated`);
+        // The server drops the session after 60s without traffic
+        this.secureKeepaliveTimer = setInterval(
+          () => this.sendRaw(SecureSession.buildSessionStatus(SecureSessionStatus.KEEPALIVE)),
+          30000,
+        );
+        this.sendConnectRequest();
+        break;
+      case SecureSessionStatus.AUTHENTICATION_FAILED:
+      case SecureSessionStatus.UNAUTHENTICATED:
+        this.failSecureSession(new SecureSessionError("Secure session authentication failed", status));
+        break;
+      case SecureSessionStatus.TIMEOUT:
+      case SecureSessionStatus.CLOSE:
+        this.handleConnectionLost(new SecureSessionError("Secure session closed by server", status));
+        break;
+    }
+  }
+
+  /**
+   * Wrong credentials won't get better with a new attempt, only a running reconnect attempt is retried.
+   */
+  private failSecureSession(err: Error) {
+    this.clearSecureTimers();
+    if (this.reconnectAttempt) {
+      this.reconnectAttempt.fail(err);
+      return;
+    }
+    this.emit("error", err);
+    this.disconnect();
+  }
+
+  private clearSecureTimers() {
+    if (this.secureHandshakeTimer) clearTimeout(this.secureHandshakeTimer);
+    if (this.secureKeepaliveTimer) clearInterval(this.secureKeepaliveTimer);
+    this.secureHandshakeTimer = null;
+    this.secureKeepaliveTimer = null;
+  }
+  // #endregion
+
+  private createConnectError(status: number): ConnectError {
+    const requestedAddress = this.options.individualAddress ?? null;
+    switch (status) {
+      case KNXnetIPErrorCodes.E_NO_MORE_UNIQUE_CONNECTIONS:
+        return new TunnelAddressUnavailableError(status, requestedAddress);
+      case KNXnetIPErrorCodes.E_CONNECTION_IN_USE:
+        return new TunnelConnectionInUseError(status, requestedAddress);
+      default:
+        return new ConnectError(status);
+    }
+  }
+
   private sendConnectRequest() {
     const localPort =
       this._transport === "UDP" ? (this.socket as dgram.Socket).address().port : (this.socket as net.Socket).localPort!;
@@ -150,7 +341,17 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
       useRouteBack ? "0.0.0.0" : this.options.localIp!,
       useRouteBack ? 0 : localPort,
     );
-    const cri = new CRI(this.options.connectionType!);
+    // CRI extendido (Tunnelling v2) cuando se pide una dirección individual concreta.
+    // Device management usa el CRI de 2 bytes, sin capa ni dirección individual
+    const requestedAddress = this.options.individualAddress;
+    const cri =
+      this.options.connectionType === ConnectionType.TUNNEL_CONNECTION
+        ? new CRI(
+            ConnectionType.TUNNEL_CONNECTION,
+            this.options.busmonitor ? TunnelLink.TUNNEL_BUSMONITOR : TunnelLink.TUNNEL_LINKLAYER,
+            requestedAddress ? KNXHelper.GetAddress(requestedAddress, ".").readUInt16BE() : null,
+          )
+        : new CRI(this.options.connectionType!);
 
     const header = new KNXnetIPHeader(KNXnetIPServiceType.CONNECT_REQUEST, 0);
     // CORRECCIÓN
@@ -162,6 +363,8 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
   }
 
   disconnect() {
+    this.isClosing = true;
+    this.cancelReconnect();
     if (this.isConnected && this.channelId) {
       const localPort =
         this._transport === "UDP"
@@ -188,7 +391,7 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     }
   }
 
-  private closeSocket() {
+  private closeSocket(reason: Error = new Error("Disconnected")) {
     this.stopHeartbeat();
     if (this.disconnectTimeout) {
       clearTimeout(this.disconnectTimeout);
@@ -196,18 +399,173 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     }
     this.isConnected = false;
     this.channelId = 0;
+    this.releaseSocket();
+    this.rejectQueue(reason);
+    this.emit("disconnected");
+  }
 
+  private releaseSocket() {
+    this.clearSecureTimers();
     if (this.socket) {
-      if (this._transport === "UDP") (this.socket as dgram.Socket).close();
-      else (this.socket as net.Socket).destroy();
+      try {
+        if (this._transport === "UDP") (this.socket as dgram.Socket).close();
+        else if (this.secureSession?.isEstablished) {
+          // Cierre ordenado de la sesión segura antes de liberar el socket
+          const socket = this.socket as net.Socket;
+          socket.end(this.secureSession.wrap(SecureSession.buildSessionStatus(SecureSessionStatus.CLOSE)), () =>
+            socket.destroy(),
+          );
+        } else (this.socket as net.Socket).destroy();
+      } catch {
+        /* empty */
+      }
       this.socket = null;
     }
-    this.emit("disconnected");
+    this.secureSession = null;
+    this.tcpBuffer = Buffer.alloc(0);
+  }
+
+  private rejectQueue(reason: Error) {
+    this.clearResponseTimer();
+    if (this.pendingAck) {
+      clearTimeout(this.pendingAck.timer);
+      this.pendingAck = null;
+    }
+    const pending = this.activeRequest ? [this.activeRequest, ...this.msgQueue] : this.msgQueue;
+    this.activeRequest = null;
+    this.msgQueue = [];
+    this.isSending = false;
+    for (const msg of pending) msg.reject(reason);
+  }
+
+  // #region Reconnect
+  /**
+   * Hands a connection loss over to the reconnect policy.
+   * Returns false when no policy applies, so the caller keeps the old behaviour (error + disconnect).
+   */
+  private tryRecover(reason: Error): boolean {
+    if (this.reconnectAttempt) {
+      this.reconnectAttempt.fail(reason);
+      return true;
+    }
+    if (this.reconnectTimer) return true;
+    if (!this.options.reconnect?.enabled || !this.isConnected || this.isClosing) return false;
+
+    this.suspendConnection();
+    this.scheduleReconnect(reason);
+    return true;
+  }
+
+  /**
+   * Tears down the current channel but keeps the outgoing queue.
+   * The in-flight message goes back to the head of the queue and is resent after reconnecting.
+   */
+  private suspendConnection() {
+    this.stopHeartbeat();
+    this.clearResponseTimer();
+    if (this.pendingAck) {
+      clearTimeout(this.pendingAck.timer);
+      this.pendingAck = null;
+    }
+    if (this.activeRequest) {
+      this.msgQueue.unshift(this.activeRequest);
+      this.activeRequest = null;
+    }
+    this.isSending = false;
+    this.isConnected = false;
+    this.channelId = 0;
+    this.releaseSocket();
+  }
+
+  private scheduleReconnect(reason: Error) {
+    const policy = this.options.reconnect!;
+    const maxAttempts = policy.maxAttempts ?? 10;
+
+    if (!policy.infinite && this.reconnectAttempts >= maxAttempts) {
+      const err = new Error(`Reconnect failed after ${this.reconnectAttempts} attempts: ${reason.message}`);
+      this.logger.error(err.message);
+      this.isReconnecting = false;
+      this.reconnectAttempts = 0;
+      this.closeSocket(err);
+      this.emit("error", err);
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(policy, this.reconnectAttempts);
+    this.logger.warn(
+      `Connection lost (${reason.message}). Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}${policy.infinite ? "" : `/${maxAttempts}`})`,
+    );
+    // El timer va antes del evento para que un disconnect() desde el listener lo cancele
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
+    this.emit("reconnecting", { attempt: this.reconnectAttempts, delay, reason });
+  }
+
+  private attemptReconnect() {
+    this.reconnectTimer = null;
+    this.rxSequenceNumber = 0;
+
+    const onConnected = () => {
+      clearTimeout(attempt.timer);
+      this.reconnectAttempt = null;
+      const attempts = this.reconnectAttempts;
+      this.reconnectAttempts = 0;
+      this.isReconnecting = false;
+      this.logger.info(`Reconnected on channel ${this.channelId} after ${attempts} attempt(s)`);
+      this.emit("reconnected", {
+        attempts,
+        channelId: this.channelId,
+        individualAddress: this.individualAddress,
+      });
+      // Restauramos la cola pendiente
+      this.processQueue();
+    };
+
+    const attempt = {
+      timer: setTimeout(
+        () => attempt.fail(new Error("Connect Request Timeout")),
+        KNXTimeoutConstants.CONNECT_REQUEST_TIMEOUT * 1000,
+      ),
+      onConnected,
+      fail: (err: Error) => {
+        clearTimeout(attempt.timer);
+        this.removeListener("connected", onConnected);
+        this.reconnectAttempt = null;
+        this.releaseSocket();
+        this.scheduleReconnect(err);
+      },
+    };
+
+    this.reconnectAttempt = attempt;
+    this.once("connected", onConnected);
+    try {
+      this.openSocket();
+    } catch (e) {
+      attempt.fail(e as Error);
+    }
   }
 
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.reconnectAttempt) {
+      clearTimeout(this.reconnectAttempt.timer);
+      this.removeListener("connected", this.reconnectAttempt.onConnected);
+      this.reconnectAttempt = null;
+    }
+    this.isReconnecting = false;
+    this.reconnectAttempts = 0;
+  }
+  // #endregion
+
   // #region Message Queue & Sending
   async send(cemi: CEMIInstance | Buffer): Promise<void> {
-    if (!this.isConnected) throw new Error("Not connected");
+    // Durante una reconexión los mensajes se encolan y se envían al recuperar el canal
+    if (!this.isConnected && !this.isReconnecting) throw new Error("Not connected");
+    if (this.options.busmonitor) throw new Error("Busmonitor tunnels are read only");
 
     if (this.msgQueue.length >= this.MAX_QUEUE_SIZE) {
       throw new Error("Outgoing queue full");
@@ -253,7 +611,7 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
   }
 
   private processQueue() {
-    if (this.isSending || this.msgQueue.length === 0) return;
+    if (this.isSending || !this.isConnected || this.msgQueue.length === 0) return;
 
     this.isSending = true;
     const msg = this.msgQueue.shift()!;
@@ -264,6 +622,13 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     header.totalLength = 6 + connHeader.length + msg.packet.length;
     const packet = Buffer.concat([header.toBuffer(), connHeader, msg.packet]);
 
+    // Over TCP there are no TUNNELLING_ACKs: the stream already delivers the request
+    if (this._transport === "TCP") {
+      this.sendRaw(packet);
+      this.handleRequestAcknowledged();
+      return;
+    }
+
     this.pendingAck = {
       seq: this.sequenceNumber,
       timer: setTimeout(() => this.handleAckTimeout(), 1000),
@@ -274,6 +639,39 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     this.sendRaw(packet);
   }
 
+  /**
+   * The server accepted the active request: it is done, or it waits for its response
+   * (TUNNELLING_FEATURE_RESPONSE, management confirmation).
+   */
+  private handleRequestAcknowledged() {
+    if (this.pendingAck) {
+      clearTimeout(this.pendingAck.timer);
+      this.pendingAck = null;
+    }
+
+    if (!this.activeRequest?.responseType) {
+      this.isSending = false;
+      if (this.activeRequest) this.activeRequest.resolve();
+      this.activeRequest = null;
+      this.sequenceNumber = (this.sequenceNumber + 1) & 0xff;
+      this.processQueue();
+    } else {
+      this.logger.debug(
+        `ACK received for seq ${this.sequenceNumber}, waiting for response type 0x${this.activeRequest.responseType.toString(16)}`,
+      );
+      // Sin respuesta a tiempo liberamos la cola
+      const service = this.activeRequest.service;
+      const timeout = service ? KNXTimeoutConstants.DEVICE_CONFIGURATION_REQUEST_TIMEOUT * 1000 : 3000;
+      this.responseTimer = setTimeout(
+        () =>
+          this.completeActiveRequest(
+            service ? new ManagementTimeoutError(service, timeout) : new Error("Feature Response Timeout"),
+          ),
+        timeout,
+      );
+    }
+  }
+
   private handleAckTimeout() {
     if (!this.pendingAck) return;
 
@@ -292,28 +690,72 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
       this.pendingAck.timer = setTimeout(() => this.handleAckTimeout(), 1000);
     } else {
       // Fail (Spec 2.6.1: terminate connection)
-      const reject = this.pendingAck.currentMsg.reject;
+      const err = new Error("Tunneling ACK Timeout");
       this.logger.error(`ACK timeout failed after retry for seq ${this.pendingAck.seq}. Terminating connection.`);
+      // Con política de reconexión el mensaje vuelve a la cola y se reenvía en el nuevo canal
+      if (this.tryRecover(err)) return;
+      const reject = this.pendingAck.currentMsg.reject;
       this.pendingAck = null;
       this.isSending = false;
-      reject(new Error("Tunneling ACK Timeout"));
+      this.activeRequest = null;
+      reject(err);
       this.disconnect();
     }
   }
   // #endregion
 
   // #region Tunneling Features
+  /**
+   * Reads an interface feature (TUNNELLING_FEATURE_GET) and resolves with the raw value octets.
+   * `getFeatureValue` decodes them.
+   */
   public async getFeature(featureId: number): Promise<Buffer> {
-    if (!this.isConnected) throw new Error("Not connected");
+    return this.sendFeatureRequest(KNXnetIPServiceType.TUNNELLING_FEATURE_GET, featureId, Buffer.alloc(0));
+  }
+
+  /**
+   * Writes the raw value octets of an interface feature (TUNNELLING_FEATURE_SET) and resolves with the octets
+   * confirmed by the server. `setFeatureValue` encodes and decodes them.
+   */
+  public async setFeature(featureId: number, value: Buffer): Promise<Buffer> {
+    return this.sendFeatureRequest(KNXnetIPServiceType.TUNNELLING_FEATURE_SET, featureId, value);
+  }
+
+  /**
+   * Reads an interface feature (TUNNELLING_FEATURE_GET) and resolves with its decoded value.
+   */
+  public async getFeatureValue<F extends TunnellingFeature>(feature: F): Promise<TunnellingFeatureValues[F]> {
+    const val = await this.getFeature(feature);
+    return KNXnetIPFeatures.decode(feature, val);
+  }
+
+  /**
+   * Writes an interface feature (TUNNELLING_FEATURE_SET) and resolves with the value confirmed by the server.
+   */
+  public async setFeatureValue<F extends TunnellingFeature>(
+    feature: F,
+    value: TunnellingFeatureValues[F],
+  ): Promise<TunnellingFeatureValues[F]> {
+    const val = await this.setFeature(feature, KNXnetIPFeatures.encode(feature, value));
+    // Algunos servidores responden al SET sin valor
+    return val.length > 0 ? KNXnetIPFeatures.decode(feature, val) : value;
+  }
+
+  private async sendFeatureRequest(
+    serviceType: KNXnetIPServiceType,
+    featureId: number,
+    value: Buffer,
+  ): Promise<Buffer> {
+    if (!this.isConnected && !this.isReconnecting) throw new Error("Not connected");
     if (this.msgQueue.length >= this.MAX_QUEUE_SIZE) {
       throw new Error("Outgoing queue full");
     }
 
     return new Promise((resolve, reject) => {
-      const body = Buffer.from([featureId, 0x00]); // FeatureID + Reserved
+      const body = Buffer.concat([Buffer.from([featureId, 0x00]), value]); // FeatureID + Reserved + Value
       this.msgQueue.push({
         packet: body,
-        serviceType: KNXnetIPServiceType.TUNNELLING_FEATURE_GET,
+        serviceType,
         resolve,
         reject,
         responseType: KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE,
@@ -321,15 +763,223 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
       this.processQueue();
     });
   }
+
+  /**
+   * Completes the request waiting for a response after its ACK (TUNNELLING_FEATURE_RESPONSE or the
+   * management confirmation).
+   */
+  private completeActiveRequest(err: Error | null, val?: Buffer | CEMIInstance) {
+    if (!this.activeRequest) return;
+    const { resolve, reject } = this.activeRequest;
+    this.clearResponseTimer();
+    // La confirmación puede adelantarse al ACK
+    if (this.pendingAck) {
+      clearTimeout(this.pendingAck.timer);
+      this.pendingAck = null;
+    }
+    this.isSending = false;
+    this.activeRequest = null;
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xff;
+    if (err) reject(err);
+    else resolve(val);
+    this.processQueue();
+  }
+
+  private clearResponseTimer() {
+    if (this.responseTimer) {
+      clearTimeout(this.responseTimer);
+      this.responseTimer = null;
+    }
+  }
+  // #endregion
+
+  // #region Device Management
+  /**
+   * Reads a property of an interface object of the KNXnet/IP device (M_PropRead.req/con).
+   * Requires `connectionType: ConnectionType.DEVICE_MGMT_CONNECTION`.
+   * @returns The data of `numberOfElements` elements starting at `startIndex`
+   * @throws PropertyAccessError on a negative confirmation
+   * @throws ManagementTimeoutError when the confirmation does not arrive
+   */
+  public async propertyRead(
+    interfaceObjectType: number,
+    objectInstance: number,
+    propertyId: number,
+    numberOfElements: number = 1,
+    startIndex: number = 1,
+  ): Promise<Buffer> {
+    const con = await this.sendManagementRequest(
+      new CEMI.ManagementCEMI["M_PropRead.req"](
+        interfaceObjectType,
+        objectInstance,
+        propertyId,
+        numberOfElements,
+        startIndex,
+      ),
+      "M_PropRead",
+      CEMI.ManagementCEMI["M_PropRead.con"],
+      (con) =>
+        con.interfaceObjectType === interfaceObjectType &&
+        con.objectInstance === objectInstance &&
+        con.propertyId === propertyId &&
+        con.startIndex === startIndex,
+    );
+    // Negative confirmation: NoE = 0 and the error code as data
+    if (con.numberOfElements === 0) throw new PropertyAccessError("M_PropRead", con.data[0] ?? 0);
+    return con.data;
+  }
+
+  /**
+   * Writes a property of an interface object of the KNXnet/IP device (M_PropWrite.req/con).
+   * Requires `connectionType: ConnectionType.DEVICE_MGMT_CONNECTION`.
+   * @throws PropertyAccessError on a negative confirmation
+   * @throws ManagementTimeoutError when the confirmation does not arrive
+   */
+  public async propertyWrite(
+    interfaceObjectType: number,
+    objectInstance: number,
+    propertyId: number,
+    data: Buffer,
+    numberOfElements: number = 1,
+    startIndex: number = 1,
+  ): Promise<void> {
+    const con = await this.sendManagementRequest(
+      new CEMI.ManagementCEMI["M_PropWrite.req"](
+        interfaceObjectType,
+        objectInstance,
+        propertyId,
+        numberOfElements,
+        startIndex,
+        data,
+      ),
+      "M_PropWrite",
+      CEMI.ManagementCEMI["M_PropWrite.con"],
+      (con) =>
+        con.interfaceObjectType === interfaceObjectType &&
+        con.objectInstance === objectInstance &&
+        con.propertyId === propertyId &&
+        con.startIndex === startIndex,
+    );
+    if (con.numberOfElements === 0) throw new PropertyAccessError("M_PropWrite", con.errorInfo);
+  }
+
+  /**
+   * Calls a function property of the KNXnet/IP device (M_FuncPropCommand.req/con).
+   * Requires `connectionType: ConnectionType.DEVICE_MGMT_CONNECTION`.
+   * @returns Return code and data of the confirmation
+   * @throws ManagementTimeoutError when the confirmation does not arrive
+   */
+  public async functionPropertyCommand(
+    interfaceObjectType: number,
+    objectInstance: number,
+    propertyId: number,
+    data: Buffer,
+  ): Promise<{ returnCode: number; data: Buffer }> {
+    const con = await this.sendManagementRequest(
+      new CEMI.ManagementCEMI["M_FuncPropCommand.req"](interfaceObjectType, objectInstance, propertyId, data),
+      "M_FuncPropCommand",
+      CEMI.ManagementCEMI["M_FuncPropCommand.con"],
+      (con) =>
+        con.interfaceObjectType === interfaceObjectType &&
+        con.objectInstance === objectInstance &&
+        con.propertyId === propertyId,
+    );
+    return { returnCode: con.return_code, data: con.data };
+  }
+
+  /**
+   * Queues a cEMI management request (DEVICE_CONFIGURATION_REQUEST) and resolves with its confirmation.
+   */
+  private async sendManagementRequest<T extends abstract new (...args: any) => CEMIInstance>(
+    request: CEMIInstance,
+    service: string,
+    responseClass: T,
+    match: (con: InstanceType<T>) => boolean,
+  ): Promise<InstanceType<T>> {
+    if (this.options.connectionType !== ConnectionType.DEVICE_MGMT_CONNECTION) {
+      throw new Error(`${service} requires a device management connection (DEVICE_MGMT_CONNECTION)`);
+    }
+    if (!this.isConnected && !this.isReconnecting) throw new Error("Not connected");
+    if (this.msgQueue.length >= this.MAX_QUEUE_SIZE) {
+      throw new Error("Outgoing queue full");
+    }
+
+    return new Promise((resolve, reject) => {
+      this.msgQueue.push({
+        packet: request.toBuffer(),
+        serviceType: KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST,
+        resolve,
+        reject,
+        responseType: KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST,
+        matchResponse: (cemi) => cemi instanceof responseClass && match(cemi as InstanceType<T>),
+        service,
+      });
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Management frames from the server: confirmations of the active request and M_PropInfo.ind.
+   */
+  private handleManagementMessage(cemi: CEMIInstance) {
+    if (cemi instanceof CEMI.ManagementCEMI["M_PropInfo.ind"]) {
+      this.emit("property_info", cemi);
+      return;
+    }
+    if (this.isSending && this.activeRequest?.matchResponse?.(cemi)) {
+      this.completeActiveRequest(null, cemi);
+    }
+  }
   // #endregion
 
-  private handleMessage(msg: Buffer) {
+  private handleMessage(msg: Buffer, isDecrypted: boolean = false) {
     this.emit("raw_message", msg);
     try {
       const header = KNXnetIPHeader.fromBuffer(msg);
       const body = msg.subarray(6);
 
+      // In a secure session only SECURE_WRAPPER and the handshake frames (before the session key exists) travel in plain
+      const isHandshake =
+        !this.secureSession?.isEstablished &&
+        (header.serviceType === KNXnetIPServiceType.SESSION_RESPONSE ||
+          header.serviceType === KNXnetIPServiceType.SESSION_STATUS);
+      if (
+        this.secureSession &&
+        !isDecrypted &&
+        !isHandshake &&
+        header.serviceType !== KNXnetIPServiceType.SECURE_WRAPPER
+      ) {
+        this.logger.warn(`Dropping unauthenticated frame 0x${header.serviceType.toString(16)}`);
+        return;
+      }
+
       switch (header.serviceType) {
+        case KNXnetIPServiceType.SECURE_WRAPPER: {
+          if (!this.secureSession || isDecrypted) break;
+          let frame: Buffer;
+          try {
+            frame = this.secureSession.unwrap(msg);
+          } catch (e) {
+            if (!(e instanceof SecureWrapperError)) throw e;
+            this.logger.warn(`Dropping SECURE_WRAPPER: ${e.message}`);
+            break;
+          }
+          this.handleMessage(frame, true);
+          break;
+        }
+        case KNXnetIPServiceType.SESSION_RESPONSE: {
+          if (!this.secureSession || this.secureSession.isEstablished) break;
+          try {
+            // SESSION_AUTHENTICATE ya viaja dentro de un SECURE_WRAPPER (sendRaw)
+            this.sendRaw(this.secureSession.handleSessionResponse(msg));
+          } catch (e) {
+            this.failSecureSession(e as Error);
+          }
+          break;
+        }
+        case KNXnetIPServiceType.SESSION_STATUS:
+          if (this.secureSession) this.handleSessionStatus(body[0]);
+          break;
         case KNXnetIPServiceType.CONNECT_RESPONSE: {
           const status = body[1];
           if (status === KNXnetIPErrorCodes.E_NO_ERROR) {
@@ -351,7 +1001,9 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
             }
             this.startHeartbeat();
           } else {
-            this.emit("error", new Error(`Connect Error: 0x${status.toString(16)}`));
+            const err = this.createConnectError(status);
+            if (this.reconnectAttempt) this.reconnectAttempt.fail(err);
+            else this.emit("error", err);
           }
           break;
         }
@@ -367,8 +1019,7 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
               this.logger.warn(`Heartbeat response error from server: 0x${body[1].toString(16)}`);
               // If it's a connection ID error, we should probably disconnect
               if (body[1] === KNXnetIPErrorCodes.E_CONNECTION_ID) {
-                this.emit("error", new Error("Connection ID no longer valid on server"));
-                this.disconnect();
+                this.handleConnectionLost(new Error("Connection ID no longer valid on server"));
               }
             }
           }
@@ -392,69 +1043,65 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
           if (this.pendingAck && body[2] === this.pendingAck.seq) {
             const status = body[3];
             if (status !== KNXnetIPErrorCodes.E_NO_ERROR) {
+              const err = new Error(`ACK Error: 0x${status.toString(16)}`);
               this.logger.error(`Received ACK with error status: 0x${status.toString(16)}. Terminating.`);
-              if (this.activeRequest) this.activeRequest.reject(new Error(`ACK Error: 0x${status.toString(16)}`));
+              const request = this.activeRequest;
+              // Con política de reconexión la petición se reenvía una vez en el nuevo canal
+              if (request && !request.resent) {
+                request.resent = true;
+                if (this.tryRecover(err)) return;
+              }
               clearTimeout(this.pendingAck.timer);
               this.pendingAck = null;
               this.isSending = false;
               this.activeRequest = null;
-              this.disconnect();
+              request?.reject(err);
+              if (!this.tryRecover(err)) this.disconnect();
               return;
             }
 
-            clearTimeout(this.pendingAck.timer);
-            this.pendingAck = null;
-
-            if (!this.activeRequest?.responseType) {
-              this.isSending = false;
-              if (this.activeRequest) this.activeRequest.resolve();
-              this.activeRequest = null;
-              this.sequenceNumber = (this.sequenceNumber + 1) & 0xff;
-              this.processQueue();
-            } else {
-              this.logger.debug(
-                `ACK received for seq ${this.sequenceNumber}, waiting for response type 0x${this.activeRequest.responseType.toString(16)}`,
-              );
-            }
+            this.handleRequestAcknowledged();
           }
           break;
-        case KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE:
+        case KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE: {
           // Body: ConnHeader(4) + FeatureID(1) + ReturnCode(1) + Value(n)
-          if (this.isSending && this.activeRequest?.responseType === KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE) {
-            if (body[0] === 0x04 && body[1] === this.channelId && body[2] === this.sequenceNumber) {
-              const returnCode = body[5];
-              const val = body.subarray(6);
-
-              const resolve = this.activeRequest.resolve;
-              const reject = this.activeRequest.reject;
-
-              this.isSending = false;
-              this.activeRequest = null;
-              this.sequenceNumber = (this.sequenceNumber + 1) & 0xff;
-
-              if (returnCode === KNXnetIPErrorCodes.E_NO_ERROR) {
-                resolve(val);
-              } else {
-                reject(new Error(`Feature Error: 0x${returnCode.toString(16)}`));
-              }
-              this.processQueue();
+          // El servidor la envía con su propio número de secuencia y espera TUNNELLING_ACK
+          if (body[1] !== this.channelId || !this.acceptSequence(body, KNXnetIPServiceType.TUNNELLING_ACK)) break;
+          const len = body[0];
+          if (
+            this.isSending &&
+            this.activeRequest?.responseType === KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE &&
+            this.activeRequest.packet[0] === body[len]
+          ) {
+            const returnCode = body[len + 1];
+            if (returnCode === KNXnetIPErrorCodes.E_NO_ERROR) {
+              this.completeActiveRequest(null, body.subarray(len + 2));
+            } else {
+              this.completeActiveRequest(new Error(`Feature Error: 0x${returnCode.toString(16)}`));
             }
           }
           break;
+        }
         case KNXnetIPServiceType.DISCONNECT_REQUEST:
           // Server closed connection
-          this.closeSocket();
+          if (!this.tryRecover(new Error("Connection closed by server"))) this.closeSocket();
           break;
         case KNXnetIPServiceType.DISCONNECT_RESPONSE:
           this.closeSocket();
           break;
         case KNXnetIPServiceType.TUNNELLING_FEATURE_INFO:
-          // Body: ConnHeader(4) + FeatureID(1) + Len(1) + Value...
+          // Body: ConnHeader(4) + FeatureID(1) + Reserved(1) + Value...
           if (body[0] === 0x04 && body[1] === this.channelId) {
             // Check Conn Header length & Channel ID
+            if (!this.acceptSequence(body, KNXnetIPServiceType.TUNNELLING_ACK)) break;
             const featureId = body[4];
             const val = body.subarray(6);
             this.emit("feature_info", featureId, val);
+            if (featureId === TunnellingFeature.BusConnectionStatus && val.length > 0) {
+              const isConnectedToBus = KNXnetIPFeatures.decode(TunnellingFeature.BusConnectionStatus, val);
+              this.logger.info(`KNX Bus ${isConnectedToBus ? "Connected" : "Disconnected"}`);
+              this.emit(isConnectedToBus ? "bus_connected" : "bus_disconnected");
+            }
           }
           break;
       }
@@ -463,20 +1110,42 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     }
   }
 
-  private handleRequest(body: Buffer, ackType: KNXnetIPServiceType) {
+  /**
+   * Applies the receive sequence rules (Spec 2.6.1) to a server request and ACKs it.
+   * Returns true only for the expected sequence number, i.e. when the frame must be processed.
+   */
+  private acceptSequence(body: Buffer, ackType: KNXnetIPServiceType): boolean {
     const seq = body[2];
 
-    // Check for sequence number
+    // TCP: ni ACKs ni duplicados
+    const ack = this._transport === "UDP";
     if (seq === this.rxSequenceNumber) {
       // Correct sequence
-      this.sendAck(ackType, seq, KNXnetIPErrorCodes.E_NO_ERROR);
+      if (ack) this.sendAck(ackType, seq, KNXnetIPErrorCodes.E_NO_ERROR);
       this.rxSequenceNumber = (this.rxSequenceNumber + 1) & 0xff;
+      return true;
+    } else if (seq === ((this.rxSequenceNumber - 1) & 0xff)) {
+      // Duplicate frame, send ACK again but don't process
+      if (ack) this.sendAck(ackType, seq, KNXnetIPErrorCodes.E_NO_ERROR);
+    }
+    // Out of sequence, discard (TCP handles this mostly, but for UDP/Tunneling logic)
+    // Do not ACK
+    return false;
+  }
 
+  private handleRequest(body: Buffer, ackType: KNXnetIPServiceType) {
+    if (this.acceptSequence(body, ackType)) {
       try {
         const len = body[0]; // Connection Header Length
         const data = body.subarray(len);
-        const cemi = CEMI.fromBuffer(data);
+        const cemi = this.unsecureIndication(CEMI.fromBuffer(data));
+        if (!cemi) return;
+        if (ackType === KNXnetIPServiceType.DEVICE_CONFIGURATION_ACK) this.handleManagementMessage(cemi);
         this.emit("indication", cemi);
+        if (cemi.messageCode === MESSAGE_CODE_FIELD["L_Busmon.ind"].CEMI.value) {
+          this.emit("busmonitor", decodeBusmonitorFrame(data));
+          return;
+        }
         if (!this.isCacheDelegated && "destinationAddress" in cemi && "sourceAddress" in cemi) {
           try {
             GroupAddressCache.getInstance().processCEMI(
@@ -494,12 +1163,6 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
       } catch {
         /* empty */
       }
-    } else if (seq === ((this.rxSequenceNumber - 1) & 0xff)) {
-      // Duplicate frame, send ACK again but don't process
-      this.sendAck(ackType, seq, KNXnetIPErrorCodes.E_NO_ERROR);
-    } else {
-      // Out of sequence, discard (TCP handles this mostly, but for UDP/Tunneling logic)
-      // Do not ACK
     }
   }
 
@@ -519,7 +1182,8 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
         }
       });
     } else {
-      (this.socket as net.Socket).write(buffer);
+      const frame = this.secureSession?.isEstablished ? this.secureSession.wrap(buffer) : buffer;
+      (this.socket as net.Socket).write(frame);
     }
   }
 
@@ -558,8 +1222,7 @@ export class KNXTunneling extends KNXService<KNXTunnelingOptions> {
     this.heartbeatFailures++;
     this.logger.warn(`Heartbeat timeout (${this.heartbeatFailures}/3)`);
     if (this.heartbeatFailures >= 3) {
-      this.emit("error", new Error("Heartbeat failed 3 times"));
-      this.disconnect();
+      this.handleConnectionLost(new Error("Heartbeat failed 3 times"));
     } else {
       // Immediate retry
       this.sendHeartbeatRequest();
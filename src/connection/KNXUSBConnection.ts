@@ -265,6 +265,19 @@ export class KNXUSBConnection extends KNXService<KNXUSBOptions> {
     }
   }
 
+  /**
+   * Raw buffers are EMI frames when the interface doesn't run in cEMI mode.
+   * Their confirmation (EMI L_Data.con) is translated by CEMIAdapter and consumed by `sendConfirmed()`.
+   */
+  protected toLDataFrame(data: Buffer | CEMIInstance) {
+    if (Buffer.isBuffer(data) && this.supportedEmiType !== 0x03) {
+      const cemi = CEMIAdapter.emiToCemi(data);
+      if (!cemi || !("TPDU" in cemi)) throw new Error("sendConfirmed() requires an L_Data frame");
+      return cemi;
+    }
+    return super.toLDataFrame(data);
+  }
+
   private handleData(data: Buffer) {
     if (data.length < 3 || data[0] !== 0x01) return;
 
@@ -334,7 +347,7 @@ export class KNXUSBConnection extends KNXService<KNXUSBOptions> {
         if (this.supportedEmiType === 0x03) {
           // cEMI
           try {
-            const cemiMsg = CEMI.fromBuffer(payload);
+            const cemiMsg = this.unsecureIndication(CEMI.fromBuffer(payload));
             if (cemiMsg) {
               this.emit("indication", cemiMsg);
               if (!this.isCacheDelegated && "destinationAddress" in cemiMsg && "sourceAddress" in cemiMsg) {
@@ -364,7 +377,8 @@ export class KNXUSBConnection extends KNXService<KNXUSBOptions> {
         } else {
           // EMI1 / EMI2
           try {
-            const cemiMsg = CEMIAdapter.emiToCemi(payload);
+            const parsed = CEMIAdapter.emiToCemi(payload);
+            const cemiMsg = parsed ? this.unsecureIndication(parsed) : null;
             if (cemiMsg) {
               this.emit("indication", cemiMsg);
               if (!this.isCacheDelegated && "destinationAddress" in cemiMsg && "sourceAddress" in cemiMsg) {
@@ -391,8 +405,18 @@ export class KNXUSBConnection extends KNXService<KNXUSBOptions> {
 
   private handleError(err: any) {
     this.logger.error("KNX USB Error:", err);
+    // Un error de node-hid deja el dispositivo inservible (p. ej. desenchufado): se cierra para poder reconectar
+    try {
+      this.device?.close();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (e) {
+      // Ignore close errors
+    }
+    this.device = null;
+    const wasConnected = this.isConnected;
     this.isConnected = false;
     this.busConnected = false;
     this.emit("error", err);
+    if (wasConnected) this.emit("disconnected");
   }
 }
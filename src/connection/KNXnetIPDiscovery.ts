@@ -0,0 +1,369 @@
+import dgram from "dgram";
+import os from "node:os";
+import { KNXnetIPHeader } from "../core/KNXnetIPHeader";
+import { KNXnetIPServiceType, KNXMedium, HostProtocolCode } from "../core/enum/KNXnetIPEnum";
+import {
+  HPAI,
+  DIB,
+  DeviceInformationDIB,
+  SupportedServicesDIB,
+  TunnellingInfoDIB,
+  ExtendedDeviceInformationDIB,
+  IPConfigDIB,
+  IPCurrentConfigDIB,
+  KNXAddressesDIB,
+  MfrDataDIB,
+  UnknownDIB,
+  SRP,
+} from "../core/KNXnetIPStructures";
+import { KNXHelper } from "../utils/KNXHelper";
+import { getNetworkInfo } from "../utils/localIp";
+import {
+  KNXDescribeOptions,
+  KNXDeviceDescription,
+  KNXDiscoveredDevice,
+  KNXDiscoveryOptions,
+  KNXSearchFilter,
+} from "../@types/interfaces/connection";
+
+/**
+ * Names of the service families announced in the SupportedServicesDIB (03_08_02 Core, 7.5.4.3).
+ */
+const SERVICE_FAMILY_NAMES: Record<number, string> = {
+  0x02: "Core",
+  0x03: "DeviceManagement",
+  0x04: "Tunnelling",
+  0x05: "Routing",
+  0x06: "RemoteLogging",
+  0x07: "RemoteConfigurationAndDiagnosis",
+  0x08: "ObjectServer",
+  0x09: "Security",
+};
+
+/**
+ * Client-side KNXnet/IP discovery (Core services SEARCH_REQUEST / SEARCH_REQUEST_EXTENDED).
+ * Searches are sent from every local IPv4 interface so gateways on any attached network answer,
+ * and responses received through several interfaces or request types are merged per device.
+ */
+export class KNXnetIPDiscovery {
+  /**
+   * Discovers KNXnet/IP gateways on all local networks.
+   *
+   * @param options Search window, multicast endpoint and interface selection
+   * @returns Promise resolving to the de-duplicated list of devices that answered
+   */
+  public static async discover(options: KNXDiscoveryOptions = {}): Promise<KNXDiscoveredDevice[]> {
+    const timeout = options.timeout ?? 3000;
+    const ipMulticast = options.ip ?? "224.0.23.12";
+    const port = options.port ?? 3671;
+    const useExtended = options.useExtended ?? true;
+    const srps = options.filter ? KNXnetIPDiscovery.buildSearchParameters(options.filter) : [];
+    const localIps = options.interfaces?.length ? options.interfaces : KNXnetIPDiscovery.getLocalInterfaces();
+
+    const discoveredDevices = new Map<string, KNXDiscoveredDevice>();
+    const sockets: dgram.Socket[] = [];
+
+    return new Promise<KNXDiscoveredDevice[]>((resolve, reject) => {
+      let pending = localIps.length;
+      let lastError: Error | null = null;
+
+      const finish = () => {
+        clearTimeout(timer);
+        for (const socket of sockets) {
+          try {
+            socket.close();
+          } catch {
+            /* empty */
+          }
+        }
+        // Solo fallamos si ninguna interfaz pudo enviar la búsqueda
+        if (lastError && pending === 0 && discoveredDevices.size === 0) reject(lastError);
+        else resolve(Array.from(discoveredDevices.values()));
+      };
+
+      const timer: NodeJS.Timeout = setTimeout(finish, timeout);
+
+      for (const localIp of localIps) {
+        const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+        sockets.push(socket);
+
+        // Cada interfaz cuenta una sola vez como fallida, aunque fallen el bind y los dos envíos
+        let failed = false;
+        const onSocketError = (err: Error | null) => {
+          if (!err || failed) return;
+          failed = true;
+          lastError = err;
+          if (--pending === 0) finish();
+        };
+
+        socket.on("message", (msg: Buffer) => {
+          const device = KNXnetIPDiscovery.parseSearchResponse(msg);
+          if (!device) return;
+          device.localInterface = localIp;
+          KNXnetIPDiscovery.mergeDevice(discoveredDevices, device);
+        });
+
+        socket.on("error", onSocketError);
+
+        socket.bind(0, localIp === "0.0.0.0" ? undefined : localIp, () => {
+          try {
+            socket.setBroadcast(true);
+            socket.setMulticastTTL(128);
+            if (localIp !== "0.0.0.0") socket.setMulticastInterface(localIp);
+
+            const hpai = new HPAI(HostProtocolCode.IPV4_UDP, localIp, socket.address().port).toBuffer();
+            const sendRequest = (serviceType: KNXnetIPServiceType, payload: Buffer) => {
+              const header = new KNXnetIPHeader(serviceType, KNXnetIPHeader.HEADER_SIZE_10 + payload.length);
+              socket.send(Buffer.concat([header.toBuffer(), payload]), port, ipMulticast, onSocketError);
+            };
+
+            if (srps.length > 0) {
+              // Un SEARCH_REQUEST básico no admite filtros: todos responderían
+              const payload = Buffer.concat([hpai, ...srps.map((srp) => srp.toBuffer())]);
+              sendRequest(KNXnetIPServiceType.SEARCH_REQUEST_EXTENDED, payload);
+            } else {
+              sendRequest(KNXnetIPServiceType.SEARCH_REQUEST, hpai);
+              if (useExtended) {
+                sendRequest(KNXnetIPServiceType.SEARCH_REQUEST_EXTENDED, hpai);
+              }
+            }
+          } catch (e) {
+            onSocketError(e as Error);
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Queries a known gateway with DESCRIPTION_REQUEST, without opening a tunnel.
+   *
+   * @param ip Control endpoint IP of the gateway
+   * @param port Control endpoint port, 3671 by default
+   * @returns Promise resolving to the parsed DESCRIPTION_RESPONSE
+   */
+  public static async describe(
+    ip: string,
+    port: number = 3671,
+    options: KNXDescribeOptions = {},
+  ): Promise<KNXDeviceDescription> {
+    const timeout = options.timeout ?? 3000;
+    const localIp = options.localIp ?? getNetworkInfo().address;
+
+    return new Promise<KNXDeviceDescription>((resolve, reject) => {
+      const socket = dgram.createSocket("udp4");
+
+      const finish = (err: Error | null, description?: KNXDeviceDescription) => {
+        clearTimeout(timer);
+        try {
+          socket.close();
+        } catch {
+          /* empty */
+        }
+        if (err) reject(err);
+        else resolve(description!);
+      };
+
+      const timer: NodeJS.Timeout = setTimeout(
+        () => finish(new Error(`Description Request Timeout (${ip}:${port})`)),
+        timeout,
+      );
+
+      socket.on("message", (msg: Buffer) => {
+        try {
+          const header = KNXnetIPHeader.fromBuffer(msg);
+          if (header.serviceType !== KNXnetIPServiceType.DESCRIPTION_RESPONSE) return;
+          const dibs = KNXnetIPDiscovery.parseDIBs(msg.subarray(KNXnetIPHeader.HEADER_SIZE_10, header.totalLength));
+          finish(null, KNXnetIPDiscovery.toDescription(ip, port, dibs));
+        } catch {
+          // Ignore malformed packets, keep waiting until timeout
+        }
+      });
+
+      socket.once("error", (err) => finish(err));
+
+      const bindIp = options.useRouteBack || localIp === "0.0.0.0" ? undefined : localIp;
+      socket.bind(0, bindIp, () => {
+        try {
+          const hpai = options.useRouteBack
+            ? HPAI.NULL_HPAI
+            : new HPAI(HostProtocolCode.IPV4_UDP, localIp, socket.address().port);
+          const hpaiBuf = hpai.toBuffer();
+          const header = new KNXnetIPHeader(
+            KNXnetIPServiceType.DESCRIPTION_REQUEST,
+            KNXnetIPHeader.HEADER_SIZE_10 + hpaiBuf.length,
+          );
+          socket.send(Buffer.concat([header.toBuffer(), hpaiBuf]), port, ip);
+        } catch (e) {
+          finish(e as Error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Groups the DIBs of a DESCRIPTION_RESPONSE by type.
+   */
+  public static toDescription(ip: string, port: number, dibs: DIB[]): KNXDeviceDescription {
+    const description: KNXDeviceDescription = { ip, port, manufacturerData: [], unknown: [], dibs };
+    for (const dib of dibs) {
+      if (dib instanceof DeviceInformationDIB) description.deviceInfo = dib;
+      else if (dib instanceof SupportedServicesDIB) description.supportedServices = dib;
+      else if (dib instanceof IPConfigDIB) description.ipConfig = dib;
+      else if (dib instanceof IPCurrentConfigDIB) description.ipCurrentConfig = dib;
+      else if (dib instanceof KNXAddressesDIB) description.knxAddresses = dib;
+      else if (dib instanceof TunnellingInfoDIB) description.tunnellingInfo = dib;
+      else if (dib instanceof ExtendedDeviceInformationDIB) description.extendedDeviceInfo = dib;
+      else if (dib instanceof MfrDataDIB) description.manufacturerData.push(dib);
+      else if (dib instanceof UnknownDIB) description.unknown.push(dib);
+    }
+    return description;
+  }
+
+  /**
+   * Parses a SEARCH_RESPONSE / SEARCH_RESPONSE_EXTENDED frame.
+   * Returns null for other services or responses without DeviceInformationDIB.
+   */
+  public static parseSearchResponse(msg: Buffer): KNXDiscoveredDevice | null {
+    try {
+      const header = KNXnetIPHeader.fromBuffer(msg);
+      if (
+        header.serviceType !== KNXnetIPServiceType.SEARCH_RESPONSE &&
+        header.serviceType !== KNXnetIPServiceType.SEARCH_RESPONSE_EXTENDED
+      ) {
+        return null;
+      }
+
+      const body = msg.subarray(KNXnetIPHeader.HEADER_SIZE_10);
+      if (body.length < 8) return null;
+      const hpai = HPAI.fromBuffer(body);
+      const dibs = KNXnetIPDiscovery.parseDIBs(body.subarray(8)); // 8 = Size of HPAI
+
+      const deviceInfo = dibs.find((dib) => dib instanceof DeviceInformationDIB);
+      if (!deviceInfo) return null;
+
+      const device = KNXnetIPDiscovery.fromDeviceInformation(hpai, deviceInfo);
+      for (const dib of dibs) {
+        if (dib instanceof SupportedServicesDIB) {
+          device.supportedServices = dib.services.map((svc) => ({
+            family: svc.family,
+            familyName: SERVICE_FAMILY_NAMES[svc.family] ?? `Unknown (0x${svc.family.toString(16)})`,
+            version: svc.version,
+          }));
+        } else if (dib instanceof TunnellingInfoDIB) {
+          device.tunnelling = {
+            maxApduLength: dib.apduLength,
+            slots: dib.slots.map((slot) => ({
+              individualAddress: KNXHelper.GetAddress(slot.address, "."),
+              free: slot.status.free,
+              authorised: slot.status.authorised,
+              usable: slot.status.usable,
+            })),
+          };
+        } else if (dib instanceof ExtendedDeviceInformationDIB) {
+          device.extendedInfo = {
+            mediumStatus: dib.mediumStatus,
+            maxLocalApduLength: dib.maximalLocalApduLength,
+            deviceDescriptor: dib.deviceDescriptorType0.value,
+          };
+        }
+      }
+      return device;
+    } catch {
+      // Ignore parsing errors for individual packets
+      return null;
+    }
+  }
+
+  /**
+   * Translates a search filter into the SRPs of a SEARCH_REQUEST_EXTENDED. All of them are mandatory.
+   */
+  public static buildSearchParameters(filter: KNXSearchFilter): SRP[] {
+    const srps: SRP[] = [];
+    if (filter.programmingMode) srps.push(SRP.programmingMode());
+    if (filter.macAddress) srps.push(SRP.macAddress(filter.macAddress));
+    for (const svc of filter.services ?? []) {
+      srps.push(SRP.service(svc.family, svc.version ?? 1));
+    }
+    if (filter.requestDIBs?.length) srps.push(SRP.requestDIBs(filter.requestDIBs));
+    return srps;
+  }
+
+  /**
+   * Splits a block of consecutive DIBs. Stops on malformed lengths.
+   */
+  public static parseDIBs(buffer: Buffer): DIB[] {
+    const dibs: DIB[] = [];
+    let offset = 0;
+    while (offset + 2 <= buffer.length) {
+      const dibLen = buffer.readUInt8(offset);
+      if (dibLen < 2) break;
+      if (offset + dibLen > buffer.length) break;
+      dibs.push(DIB.fromBuffer(buffer.subarray(offset, offset + dibLen)));
+      offset += dibLen;
+    }
+    return dibs;
+  }
+
+  private static fromDeviceInformation(hpai: HPAI, deviceInfo: DeviceInformationDIB): KNXDiscoveredDevice {
+    let knxMediumStr = `Unknown (${deviceInfo.knxMedium})`;
+    if (deviceInfo.knxMedium === KNXMedium.TP1) knxMediumStr = "TP1";
+    else if (deviceInfo.knxMedium === KNXMedium.PL110) knxMediumStr = "PL110";
+    else if (deviceInfo.knxMedium === KNXMedium.RF) knxMediumStr = "RF";
+    else if (deviceInfo.knxMedium === KNXMedium.KNXIP) knxMediumStr = "KNXIP";
+
+    const deviceStatusStr =
+      deviceInfo.deviceStatus === 1
+        ? "Programmed"
+        : deviceInfo.deviceStatus === 0
+          ? "Not Programmed"
+          : `Unknown (${deviceInfo.deviceStatus})`;
+
+    return {
+      ip: hpai.ipAddress,
+      port: hpai.port,
+      knxMediumRaw: deviceInfo.knxMedium,
+      knxMedium: knxMediumStr,
+      deviceStatusRaw: deviceInfo.deviceStatus,
+      deviceStatus: deviceStatusStr,
+      individualAddress: deviceInfo.individualAddress,
+      projectInstallationId: deviceInfo.projectInstallationId,
+      serialNumber: deviceInfo.serialNumber,
+      routingMulticastAddress: deviceInfo.routingMulticastAddress,
+      macAddress: deviceInfo.macAddress,
+      friendlyName: deviceInfo.friendlyName,
+      supportedServices: [],
+    };
+  }
+
+  /**
+   * De-duplicates by serial number (unique per KNX device) and falls back to the control endpoint.
+   * The basic and extended responses of the same device are merged, keeping the richest data.
+   */
+  private static mergeDevice(devices: Map<string, KNXDiscoveredDevice>, device: KNXDiscoveredDevice) {
+    const serial = device.serialNumber.toString("hex");
+    const key = /^0*$/.test(serial) ? `${device.ip}:${device.port}` : serial;
+    const existing = devices.get(key);
+    if (!existing) {
+      devices.set(key, device);
+      return;
+    }
+    if (existing.supportedServices.length === 0) existing.supportedServices = device.supportedServices;
+    existing.tunnelling ??= device.tunnelling;
+    existing.extendedInfo ??= device.extendedInfo;
+  }
+
+  private static getLocalInterfaces(): string[] {
+    const addresses: string[] = [];
+    const interfaces = os.networkInterfaces();
+    for (const name of Object.keys(interfaces)) {
+      for (const net of interfaces[name]!) {
+        if (net.family === "IPv4" && !net.internal && !addresses.includes(net.address)) {
+          addresses.push(net.address);
+        }
+      }
+    }
+    if (addresses.length === 0) addresses.push(getNetworkInfo().address);
+    return addresses;
+  }
+}
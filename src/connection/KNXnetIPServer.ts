@@ -1,5 +1,6 @@
 import dgram from "dgram";
-import { KNXService } from "./KNXService";
+import net from "net";
+import { KNXService, LDataConfirmation } from "./KNXService";
 import { KNXnetIPHeader } from "../core/KNXnetIPHeader";
 import {
   KNXnetIPServiceType,
@@ -10,6 +11,8 @@ import {
   AllowedSupportedServiceFamilies,
   KNXLayer,
   KNXTimeoutConstants,
+  DescriptionType,
+  SRPType,
 } from "../core/enum/KNXnetIPEnum";
 import { CEMI, CEMIInstance } from "../core/CEMI";
 import {
@@ -17,6 +20,7 @@ import {
   RoutingLostMessage,
   HPAI,
   DIB,
+  SRP,
   DeviceInformationDIB,
   SupportedServicesDIB,
   ExtendedDeviceInformationDIB,
@@ -29,13 +33,33 @@ import {
 } from "../core/KNXnetIPStructures";
 import { ExtendedControlField } from "../core/ControlFieldExtended";
 import { KNXHelper } from "../utils/KNXHelper";
-import { KNXDiscoveredDevice, KNXnetIPServerOptions } from "../@types/interfaces/connection";
+import {
+  KNXConnectionRejection,
+  KNXDiscoveredDevice,
+  KNXnetIPServerOptions,
+  KNXServerState,
+  KNXTunnelSession,
+} from "../@types/interfaces/connection";
 import { getNetworkInfo } from "../utils/localIp";
+import { TunnelAdmission } from "./TunnelAdmission";
 import os from "node:os";
 import { DeviceDescriptorType0 } from "../core/resources/DeviceDescriptorType";
 import { TunnelConnection } from "./TunnelConnection";
+import { KNXnetIPDiscovery } from "./KNXnetIPDiscovery";
+import { ConfirmationTimeoutError } from "../errors/ConfirmationErrors";
+import { SecureRouting, SecureRoutingCounters } from "../core/security/SecureRouting";
 import { InvalidKnxAddressException } from "../errors/InvalidKnxAddresExeption";
 import { GroupAddressCache } from "../core/cache/GroupAddressCache";
+import { InterfaceObject, InterfaceObjectTable } from "../core/InterfaceObjects";
+import {
+  DevicePropertyId,
+  InterfaceObjectType,
+  KNXnetIPPropertyId,
+  PropertyDataType,
+} from "../core/enum/InterfaceObjectEnum";
+import { ErrorCodeSet } from "../core/enum/ErrorCodeSet";
+import { APCIEnum } from "../core/enum/APCIEnum";
+import { PropertyAccessError } from "../errors/ManagementErrors";
 
 /**
  * Implements a KNXnet/IP Server (Gateway) that supports Routing and Tunneling protocols.
@@ -60,6 +84,27 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
   private serverIAInt: number;
 
   private _tunnelConnections = new Map<number, TunnelConnection>();
+  // Tunnelling v2 sobre TCP: un stream puede llevar varias conexiones
+  private tcpServer: net.Server | null = null;
+  private tcpStreams = new Set<net.Socket>();
+
+  /**
+   * Set by the Router when a bus link (TPUART, USB, Tunneling) carries the tunnel frames: the L_Data.con
+   * sent back to the tunnel client then comes from that link instead of being generated locally.
+   */
+  public isConfirmationDelegated: boolean = false;
+  /**
+   * Set by a Router in coupler mode: point-to-point management to the server address (transport connection,
+   * A_DeviceDescriptor_Read...) is answered by the coupler, which shares the address.
+   */
+  public isManagementDelegated: boolean = false;
+  private secureRouting: SecureRouting | null = null;
+  private pendingConfirmations: {
+    conn: TunnelConnection;
+    request: CEMIInstance;
+    conCemiBuffer: Buffer;
+    timer: NodeJS.Timeout;
+  }[] = [];
 
   private readonly MAX_QUEUE_SIZE = 100;
   private readonly BUSY_THRESHOLD = 15;
@@ -68,7 +113,22 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
   private MAX_PENDING_REQUESTS_PER_CLIENT = 100; // [MEJORA] Límite de ráfagas
 
   private maxTunnelConnections: number;
-  private clientAddrsStartInt: number;
+  // Direcciones de los canales de túnel (PID_ADDITIONAL_INDIVIDUAL_ADDRESSES)
+  private clientAddresses: number[];
+
+  /**
+   * Interface objects served over device management connections (M_PropRead/M_PropWrite).
+   * Holds the Device Object and the KNXnet/IP Parameter Object; more objects can be added.
+   */
+  public readonly interfaceObjects = new InterfaceObjectTable();
+  private _programmingMode: boolean = false;
+  // Conexión de transporte (T_Connect) abierta por ETS con la dirección del servidor
+  private transportConnection: { peer: number; sequence: number; timer: NodeJS.Timeout } | null = null;
+  private ipParameters: { assignmentMethod: number; ipAddress: string; subnetMask: string; defaultGateway: string };
+  private multicastTTL: number = 128;
+  // Los guardados en el stateStore se encadenan para que no se pisen
+  private stateSave: Promise<void> = Promise.resolve();
+  private readonly admission: TunnelAdmission;
 
   constructor(options: KNXnetIPServerOptions) {
     super(options);
@@ -104,6 +164,15 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     routingOptions.friendlyName = options.friendlyName || "KNX.ts";
     routingOptions.macAddress = options.macAddress || netInfo.mac;
     routingOptions.routingDelay = options.routingDelay ?? 20;
+    routingOptions.confirmationTimeout = options.confirmationTimeout ?? 3000;
+    if (routingOptions.secureRouting) {
+      this.secureRouting = new SecureRouting(
+        routingOptions.secureRouting.backboneKey,
+        routingOptions.serialNumber,
+        routingOptions.secureRouting.latencyTolerance ?? 2000,
+      );
+    }
+    this.admission = new TunnelAdmission(routingOptions.admission);
     if (routingOptions.MAX_PENDING_REQUESTS_PER_CLIENT)
       this.MAX_PENDING_REQUESTS_PER_CLIENT = routingOptions.MAX_PENDING_REQUESTS_PER_CLIENT;
 
@@ -113,25 +182,31 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     const serverIA = KNXHelper.GetAddress(routingOptions.individualAddress, ".").readUInt16BE();
     this.serverIAInt = serverIA;
 
+    let clientAddrsStartInt = serverIA + 1;
+    this.maxTunnelConnections = 15;
     if (options.clientAddrs) {
       const parts = options.clientAddrs.split(":");
       if (parts.length === 2) {
-        this.clientAddrsStartInt = KNXHelper.GetAddress(parts[0], ".").readUInt16BE();
+        clientAddrsStartInt = KNXHelper.GetAddress(parts[0], ".").readUInt16BE();
         this.maxTunnelConnections = parseInt(parts[1], 10);
-      } else {
-        this.maxTunnelConnections = 15;
-        this.clientAddrsStartInt = serverIA + 1;
       }
-    } else {
-      this.maxTunnelConnections = 15;
-      this.clientAddrsStartInt = serverIA + 1;
     }
+    this.clientAddresses = Array.from({ length: this.maxTunnelConnections }, (_, i) => clientAddrsStartInt + i);
+
+    this.ipParameters = {
+      assignmentMethod: 0x01,
+      ipAddress: this.options.localIp,
+      subnetMask: netInfo.netmask,
+      defaultGateway: "0.0.0.0",
+    };
+    this.createInterfaceObjects();
   }
 
   async connect(): Promise<void> {
     if (this.socket) {
       return;
     }
+    await this.restoreState();
 
     this.socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
 
@@ -148,49 +223,12 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       socket.bind(this.options.port, () => {
         try {
           socket.setBroadcast(true);
-          socket.setMulticastTTL(128);
+          socket.setMulticastTTL(this.multicastTTL);
           socket.setMulticastLoopback(true);
+          this.setMulticastMembership(this.options.ip!, true);
 
-          // [MEJORA] Multi-homing: Unirse al multicast en todas las interfaces válidas (si está habilitado)
-          const interfaces = os.networkInterfaces();
-          const joinedInterfaces = new Set<string>();
-          const useAllInterfaces = this.options.useAllInterfaces ?? true;
-
-          // Siempre intenta unirse primero a la localIp especificada
-          if (this.options.localIp && this.options.localIp !== "0.0.0.0" && this.options.ip) {
-            try {
-              socket.addMembership(this.options.ip, this.options.localIp);
-              joinedInterfaces.add(this.options.localIp);
-              this.logger.info(`Joined multicast on primary interface (${this.options.ip})`);
-              // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            } catch (e) {
-              this.logger.debug(`Failed to join multicast on primary interface ${this.options.localIp}`);
-            }
-          }
-
-          if (useAllInterfaces) {
-            // Itera sobre todas las demás interfaces de red del host
-            for (const name of Object.keys(interfaces)) {
-              for (const net of interfaces[name]!) {
-                if (net.family === "IPv4" && !net.internal) {
-                  if (!joinedInterfaces.has(net.address)) {
-                    try {
-                      socket.addMembership(this.options.ip as string, net.address);
-                      joinedInterfaces.add(net.address);
-                      this.logger.info(`Joined multicast on interface ${name} (${net.address})`);
-                      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                    } catch (err) {
-                      // Ignora interfaces virtuales que no soportan IGMP
-                    }
-                  }
-                }
-              }
-            }
-          } else {
-            this.logger.info("Multi-homing disabled. Only primary interface used for multicast.");
-          }
-
-          this.emit("connected");
+          // Pedimos el timer multicast actual a los demás dispositivos seguros
+          if (this.secureRouting) this.sendMulticast(this.secureRouting.buildTimerNotify());
           resolve();
         } catch (err) {
           this.emit("error", err);
@@ -200,6 +238,183 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     });
 
     await connectPromise;
+    if (this.options.tcp ?? false) {
+      try {
+        await this.listenTCP();
+      } catch (err) {
+        this.disconnect();
+        throw err;
+      }
+    }
+    this.emit("connected");
+  }
+
+  /**
+   * Accepts KNXnet/IP over TCP on the same port as UDP (tunnelling v2)
+   */
+  private listenTCP(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer((stream) => this.handleStream(stream));
+      this.tcpServer = server;
+      server.once("error", reject);
+      server.listen(this.options.port, () => {
+        server.off("error", reject);
+        server.on("error", (err) => this.emit("error", err));
+        this.logger.info(`Listening for TCP connections on port ${this.options.port}`);
+        resolve();
+      });
+    });
+  }
+
+  private handleStream(stream: net.Socket) {
+    const rinfo: dgram.RemoteInfo = {
+      address: (stream.remoteAddress ?? "").replace(/^::ffff:/, ""),
+      family: "IPv4",
+      port: stream.remotePort ?? 0,
+      size: 0,
+    };
+    this.logger.debug(`TCP connection from ${rinfo.address}:${rinfo.port}`);
+    this.tcpStreams.add(stream);
+    stream.setNoDelay(true);
+
+    // Framing: cada trama KNXnet/IP lleva su longitud total en la cabecera
+    let pending = Buffer.alloc(0);
+    stream.on("data", (data) => {
+      pending = Buffer.concat([pending, data]);
+      while (pending.length >= KNXnetIPHeader.HEADER_SIZE_10) {
+        const totalLength = pending.readUInt16BE(4);
+        if (pending[0] !== KNXnetIPHeader.HEADER_SIZE_10 || totalLength < KNXnetIPHeader.HEADER_SIZE_10) {
+          this.logger.warn(`Invalid KNXnet/IP frame from ${rinfo.address}:${rinfo.port} over TCP. Closing stream.`);
+          stream.destroy();
+          return;
+        }
+        if (pending.length < totalLength) break;
+        const frame = pending.subarray(0, totalLength);
+        pending = pending.subarray(totalLength);
+        this.handleStreamMessage(frame, rinfo, stream);
+      }
+    });
+    stream.on("error", (err) => this.logger.debug(`TCP stream ${rinfo.address}:${rinfo.port} error: ${err.message}`));
+    stream.on("close", () => {
+      this.tcpStreams.delete(stream);
+      // Sin stream no hay a quién enviar el DISCONNECT_REQUEST
+      for (const conn of [...this._tunnelConnections.values()]) {
+        if (conn.stream === stream) this.closeConnection(conn.channelId, false);
+      }
+    });
+  }
+
+  /**
+   * Services allowed over TCP: description and the connection oriented ones. Search and routing are UDP only.
+   */
+  private handleStreamMessage(msg: Buffer, rinfo: dgram.RemoteInfo, stream: net.Socket) {
+    try {
+      const header = KNXnetIPHeader.fromBuffer(msg);
+      switch (header.serviceType) {
+        case KNXnetIPServiceType.DESCRIPTION_REQUEST:
+          this.handleDescriptionRequest(msg, rinfo, stream);
+          break;
+        case KNXnetIPServiceType.CONNECT_REQUEST:
+          this.handleConnectRequest(msg, rinfo, stream);
+          break;
+        case KNXnetIPServiceType.CONNECTIONSTATE_REQUEST:
+          this.handleConnectionStateRequest(msg, rinfo, stream);
+          break;
+        case KNXnetIPServiceType.DISCONNECT_REQUEST:
+          this.handleDisconnectRequest(msg, rinfo, stream);
+          break;
+        case KNXnetIPServiceType.TUNNELLING_REQUEST:
+          this.handleTunnelingRequest(msg, rinfo, stream);
+          break;
+        case KNXnetIPServiceType.TUNNELLING_FEATURE_GET:
+          this.handleTunnelingFeatureGet(msg, stream);
+          break;
+        case KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST:
+          this.handleDeviceConfigurationRequest(msg, stream);
+          break;
+        case KNXnetIPServiceType.TUNNELLING_ACK:
+        case KNXnetIPServiceType.DEVICE_CONFIGURATION_ACK:
+        case KNXnetIPServiceType.DISCONNECT_RESPONSE:
+          // TCP no usa ACKs; la respuesta al DISCONNECT_REQUEST propio no requiere acción
+          break;
+        default:
+          this.logger.debug(
+            `Service 0x${header.serviceType.toString(16)} not supported over TCP from ${rinfo.address}`,
+          );
+      }
+    } catch (e) {
+      this.emit("error", e);
+    }
+  }
+
+  /**
+   * Sends a response to a client endpoint: over its TCP stream when it has one, otherwise to the UDP HPAI
+   */
+  private sendToClient(packet: Buffer, hpai: HPAI, stream?: net.Socket) {
+    if (stream) {
+      if (!stream.destroyed) stream.write(packet);
+    } else if (this.socket) {
+      (this.socket as dgram.Socket).send(packet, hpai.port, hpai.ipAddress);
+    }
+  }
+
+  /**
+   * Tunnel connection of `channelId` if it belongs to the transport the request came from
+   */
+  private getClientConnection(channelId: number, stream?: net.Socket): TunnelConnection | undefined {
+    const conn = this._tunnelConnections.get(channelId);
+    return conn && conn.stream === (stream ?? null) ? conn : undefined;
+  }
+
+  /**
+   * Joins (or leaves) the routing multicast group on the primary interface and, with multi-homing,
+   * on every other IPv4 interface of the host.
+   */
+  private setMulticastMembership(group: string, join: boolean) {
+    const socket = this.socket as dgram.Socket;
+    const action = join ? "Joined" : "Left";
+    // [MEJORA] Multi-homing: Unirse al multicast en todas las interfaces válidas (si está habilitado)
+    const interfaces = os.networkInterfaces();
+    const joinedInterfaces = new Set<string>();
+    const useAllInterfaces = this.options.useAllInterfaces ?? true;
+
+    // Siempre intenta unirse primero a la localIp especificada
+    if (this.options.localIp && this.options.localIp !== "0.0.0.0") {
+      try {
+        if (join) socket.addMembership(group, this.options.localIp);
+        else socket.dropMembership(group, this.options.localIp);
+        joinedInterfaces.add(this.options.localIp);
+        this.logger.info(`${action} multicast on primary interface (${group})`);
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      } catch (e) {
+        this.logger.debug(
+          `Failed to ${join ? "join" : "leave"} multicast on primary interface ${this.options.localIp}`,
+        );
+      }
+    }
+
+    if (useAllInterfaces) {
+      // Itera sobre todas las demás interfaces de red del host
+      for (const name of Object.keys(interfaces)) {
+        for (const net of interfaces[name]!) {
+          if (net.family === "IPv4" && !net.internal) {
+            if (!joinedInterfaces.has(net.address)) {
+              try {
+                if (join) socket.addMembership(group, net.address);
+                else socket.dropMembership(group, net.address);
+                joinedInterfaces.add(net.address);
+                this.logger.info(`${action} multicast on interface ${name} (${net.address})`);
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+              } catch (err) {
+                // Ignora interfaces virtuales que no soportan IGMP
+              }
+            }
+          }
+        }
+      }
+    } else if (join) {
+      this.logger.info("Multi-homing disabled. Only primary interface used for multicast.");
+    }
   }
 
   disconnect(): void {
@@ -207,13 +422,21 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       (this.socket as dgram.Socket).close();
       this.socket = null;
     }
+    if (this.tcpServer) {
+      this.tcpServer.close();
+      this.tcpServer = null;
+    }
     this.clearTimers();
+    this.tcpStreams.forEach((stream) => stream.destroy());
+    this.tcpStreams.clear();
   }
 
   /**
    * Discovers KNXnet/IP devices on the network by sending SEARCH_REQUEST and SEARCH_REQUEST_EXTENDED
    * multicasts to 224.0.23.12:3671. Returns an array of discovered devices with their properties.
+   * Kept for compatibility, see KNXnetIPDiscovery.discover().
    *
+   * @param ipLocal Local interface to search from. Empty searches on every interface
    * @param timeout Wait time in milliseconds for responses
    * @param useExtended Whether to send SEARCH_REQUEST_EXTENDED alongside SEARCH_REQUEST
    * @returns Promise resolving to an array of discovered devices
@@ -225,113 +448,12 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     timeout: number = 3000,
     useExtended: boolean = true,
   ): Promise<KNXDiscoveredDevice[]> {
-    return new Promise<KNXDiscoveredDevice[]>((resolve, reject) => {
-      const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
-      const discoveredDevices = new Map<string, KNXDiscoveredDevice>();
-
-      socket.on("message", (msg: Buffer) => {
-        try {
-          const header = KNXnetIPHeader.fromBuffer(msg);
-          if (
-            header.serviceType === KNXnetIPServiceType.SEARCH_RESPONSE ||
-            header.serviceType === KNXnetIPServiceType.SEARCH_RESPONSE_EXTENDED
-          ) {
-            const body = msg.subarray(KNXnetIPHeader.HEADER_SIZE_10);
-            if (body.length < 8) return;
-            const hpai = HPAI.fromBuffer(body);
-            let offset = 8; // Size of HPAI
-
-            let deviceInfo: DeviceInformationDIB | null = null;
-            while (offset < body.length) {
-              const dibLen = body.readUInt8(offset);
-              if (dibLen === 0) break;
-              if (offset + dibLen > body.length) break;
-              const dibBuffer = body.subarray(offset, offset + dibLen);
-              const dib = DIB.fromBuffer(dibBuffer);
-              if (dib instanceof DeviceInformationDIB) {
-                deviceInfo = dib;
-              }
-              offset += dibLen;
-            }
-
-            if (deviceInfo) {
-              const deviceKey = `${hpai.ipAddress}:${hpai.port}`; // Unique by IP/Port
-              if (!discoveredDevices.has(deviceKey)) {
-                let knxMediumStr = `Unknown (${deviceInfo.knxMedium})`;
-                if (deviceInfo.knxMedium === KNXMedium.TP1) knxMediumStr = "TP1";
-                else if (deviceInfo.knxMedium === KNXMedium.PL110) knxMediumStr = "PL110";
-                else if (deviceInfo.knxMedium === KNXMedium.RF) knxMediumStr = "RF";
-                else if (deviceInfo.knxMedium === KNXMedium.KNXIP) knxMediumStr = "KNXIP";
-
-                const deviceStatusStr =
-                  deviceInfo.deviceStatus === 1
-                    ? "Programmed"
-                    : deviceInfo.deviceStatus === 0
-                      ? "Not Programmed"
-                      : `Unknown (${deviceInfo.deviceStatus})`;
-
-                discoveredDevices.set(deviceKey, {
-                  ip: hpai.ipAddress,
-                  port: hpai.port,
-                  knxMediumRaw: deviceInfo.knxMedium,
-                  knxMedium: knxMediumStr,
-                  deviceStatusRaw: deviceInfo.deviceStatus,
-                  deviceStatus: deviceStatusStr,
-                  individualAddress: deviceInfo.individualAddress,
-                  projectInstallationId: deviceInfo.projectInstallationId,
-                  serialNumber: deviceInfo.serialNumber,
-                  routingMulticastAddress: deviceInfo.routingMulticastAddress,
-                  macAddress: deviceInfo.macAddress,
-                  friendlyName: deviceInfo.friendlyName,
-                });
-              }
-            }
-          }
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        } catch (e) {
-          // Ignore parsing errors for individual packets
-        }
-      });
-
-      const timer: NodeJS.Timeout = setTimeout(() => {
-        socket.close();
-        resolve(Array.from(discoveredDevices.values()));
-      }, timeout);
-
-      socket.on("error", (err) => {
-        clearTimeout(timer);
-        socket.close();
-        reject(err);
-      });
-
-      socket.bind(0, () => {
-        const netInfo = getNetworkInfo();
-        const serverHPAI = new HPAI(
-          HostProtocolCode.IPV4_UDP,
-          ipLocal !== "" ? ipLocal : netInfo.address,
-          socket.address().port,
-        );
-
-        const sendRequest = (serviceType: KNXnetIPServiceType) => {
-          const hpaiBuf = serverHPAI.toBuffer();
-          const header = new KNXnetIPHeader(serviceType, KNXnetIPHeader.HEADER_SIZE_10 + hpaiBuf.length);
-          const packet = Buffer.concat([header.toBuffer(), hpaiBuf]);
-          socket.send(packet, port, ipMulticast);
-        };
-
-        try {
-          socket.setBroadcast(true);
-          socket.setMulticastTTL(128);
-          sendRequest(KNXnetIPServiceType.SEARCH_REQUEST);
-          if (useExtended) {
-            sendRequest(KNXnetIPServiceType.SEARCH_REQUEST_EXTENDED);
-          }
-        } catch (e) {
-          clearTimeout(timer);
-          socket.close();
-          reject(e);
-        }
-      });
+    return KNXnetIPDiscovery.discover({
+      interfaces: ipLocal !== "" ? [ipLocal] : undefined,
+      ip: ipMulticast,
+      port,
+      timeout,
+      useExtended,
     });
   }
 
@@ -365,6 +487,9 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       conn.close();
     });
     this._tunnelConnections.clear();
+    this.pendingConfirmations.forEach((p) => clearTimeout(p.timer));
+    this.pendingConfirmations = [];
+    this.closeTransportConnection();
     this.removeAllListeners();
   }
 
@@ -423,6 +548,27 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     await this.enqueuePacket(cemiBuffer);
   }
 
+  /**
+   * On the KNX IP medium the L_Data.con is local: it is positive once the frame was handed to the
+   * routing multicast group and the open tunnels.
+   * @param data A cEMI L_Data.req buffer or an instance of a CEMI message
+   * @param timeout Time in milliseconds to wait for the routing queue (default 3000)
+   */
+  public async sendConfirmed(data: Buffer | CEMIInstance, timeout: number = 3000): Promise<LDataConfirmation> {
+    const request = this.toLDataFrame(data);
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ConfirmationTimeoutError(request.destinationAddress, timeout)), timeout);
+    });
+
+    try {
+      await Promise.race([this.send(data), expired]);
+      return this.buildConfirmation(request, false);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Send a raw CEMI buffer to the bus.
    * @param cemiBuffer The CEMI buffer to send.
@@ -489,12 +635,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       KNXnetIPHeader.HEADER_SIZE_10 + msgBody.length,
     );
     const packet = Buffer.concat([header.toBuffer(), msgBody]);
-
-    if (this.socket) {
-      (this.socket as dgram.Socket).send(packet, this.options.port!, this.options.ip!, (err) => {
-        if (err) this.emit("error", err);
-      });
-    }
+    this.sendMulticast(this.toRoutingFrame(packet));
   }
 
   private sendRoutingBusy(waitTime: number): void {
@@ -502,7 +643,10 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     const msgBody = busyMsg.toBuffer();
     const header = new KNXnetIPHeader(KNXnetIPServiceType.ROUTING_BUSY, KNXnetIPHeader.HEADER_SIZE_10 + msgBody.length);
     const packet = Buffer.concat([header.toBuffer(), msgBody]);
+    this.sendMulticast(this.toRoutingFrame(packet));
+  }
 
+  private sendMulticast(packet: Buffer): void {
     if (this.socket) {
       (this.socket as dgram.Socket).send(packet, this.options.port!, this.options.ip!, (err) => {
         if (err) this.emit("error", err);
@@ -510,6 +654,21 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     }
   }
 
+  /**
+   * Wraps a routing frame in a SECURE_WRAPPER when secure routing is enabled.
+   * Done right before sending so the multicast timer is current.
+   */
+  private toRoutingFrame(packet: Buffer): Buffer {
+    return this.secureRouting ? this.secureRouting.wrap(packet) : packet;
+  }
+
+  /**
+   * Frames dropped by secure routing, null when secure routing is disabled.
+   */
+  public get secureRoutingCounters(): SecureRoutingCounters | null {
+    return this.secureRouting ? { ...this.secureRouting.counters } : null;
+  }
+
   private processQueue() {
     if (this.isProcessingQueue || this.isRoutingBusy || this.msgQueue.length === 0) return;
 
@@ -526,7 +685,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       const packet = this.msgQueue.shift();
       if (packet) {
         const startTime = Date.now();
-        (this.socket as dgram.Socket).send(packet, this.options.port!, this.options.ip!, (err) => {
+        (this.socket as dgram.Socket).send(this.toRoutingFrame(packet), this.options.port!, this.options.ip!, (err) => {
           if (err) this.emit("error", err);
           this.lastSentTime = Date.now();
           this.isProcessingQueue = false;
@@ -548,7 +707,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     else setTimeout(executeSend, initialWait);
   }
 
-  private handleMessage(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  private handleMessage(msg: Buffer, rinfo: dgram.RemoteInfo, isDecrypted: boolean = false) {
     try {
       const header = KNXnetIPHeader.fromBuffer(msg);
       const body = msg.subarray(6);
@@ -557,7 +716,30 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       // Filtro Anti-Eco inicial por IP/Puerto
       if (rinfo.address === this.options.localIp && rinfo.port === ourAddress.port) return;
 
+      if (this.secureRouting) {
+        const isRoutingService = (header.serviceType & 0xff00) === 0x0500;
+        // Con secure routing solo se aceptan servicios de routing dentro del SECURE_WRAPPER
+        if (isRoutingService && !isDecrypted) {
+          this.secureRouting.counters.plain++;
+          return;
+        }
+        if (isDecrypted && !isRoutingService) return;
+      }
+
       switch (header.serviceType) {
+        case KNXnetIPServiceType.SECURE_WRAPPER: {
+          if (!this.secureRouting || isDecrypted) break;
+          const { frame, notify } = this.secureRouting.unwrap(msg);
+          if (notify) this.sendMulticast(notify);
+          if (frame) this.handleMessage(frame, rinfo, true);
+          break;
+        }
+        case KNXnetIPServiceType.TIMER_NOTIFY: {
+          if (!this.secureRouting) break;
+          const reply = this.secureRouting.handleTimerNotify(msg);
+          if (reply) this.sendMulticast(reply);
+          break;
+        }
         case KNXnetIPServiceType.ROUTING_INDICATION: {
           // [MEJORA] Filtro Anti-Eco Seguro leyendo la Individual Address (IA) origen del CEMI
           const addInfoLen = body[1];
@@ -571,13 +753,18 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
           try {
             const cemi = CEMI.fromBuffer(body);
             if (!("destinationAddress" in cemi) || !("sourceAddress" in cemi)) return;
-            this.emit("indication", cemi);
-            if (!this.isCacheDelegated) {
-              GroupAddressCache.getInstance().processCEMI(
-                cemi as InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.ind"]>,
-              );
+            // Data Secure is end-to-end: tunnel clients still receive the telegram as it was routed
+            const plain = this.unsecureIndication(cemi);
+            if (plain && "destinationAddress" in plain) {
+              this.emit("indication", plain);
+              if (!this.isCacheDelegated) {
+                GroupAddressCache.getInstance().processCEMI(
+                  plain as InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.ind"]>,
+                );
+              }
+              this.emit(plain.destinationAddress, plain);
             }
-            this.emit(cemi.destinationAddress, cemi);
+            if (body[0] === 0x29) this.handleLocalManagement(body);
             const srcIAStr = cemi.sourceAddress;
             let busmonBody: Buffer | null = null;
             this._tunnelConnections.forEach((conn) => {
@@ -679,7 +866,27 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       `Responding to search from ${clientHPAI.ipAddress}:${clientHPAI.port} with ${localIp}:${localPort}`,
     );
 
-    const dibs = this.getIdentificationDIBs(responseType, localIp);
+    let dibs = this.getIdentificationDIBs(responseType, localIp);
+
+    if (isExtended) {
+      // SRPs follow the client HPAI (Core 7.8.5)
+      const srps = SRP.listFromBuffer(msg.subarray(KNXnetIPHeader.HEADER_SIZE_10 + 8));
+      const requestedDibs = this.matchSearchParameters(srps, dibs);
+      if (requestedDibs === null) {
+        this.logger.debug(`Search from ${clientHPAI.ipAddress}:${clientHPAI.port} does not match SRPs, not responding`);
+        return;
+      }
+      if (requestedDibs.length > 0) {
+        // DEVICE_INFO y SUPP_SVC_FAMILIES siempre van en la respuesta, el resto solo si se solicitan
+        dibs = dibs.filter(
+          (d) =>
+            d.type === DescriptionType.DEVICE_INFO ||
+            d.type === DescriptionType.SUPP_SVC_FAMILIES ||
+            requestedDibs.includes(d.type),
+        );
+      }
+    }
+
     const body = Buffer.concat([serverHPAI.toBuffer(), ...dibs.map((d) => d.toBuffer())]);
     const responseHeader = new KNXnetIPHeader(responseType, KNXnetIPHeader.HEADER_SIZE_10 + body.length);
 
@@ -692,7 +899,53 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     }
   }
 
-  private handleDescriptionRequest(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  /**
+   * Evaluates the Search Request Parameters of a SEARCH_REQUEST_EXTENDED against our own DIBs.
+   * Returns null when the server must stay silent (a mandatory SRP is unknown or not fulfilled),
+   * otherwise the DIB types requested through REQUEST_DIBS (empty = default set).
+   */
+  private matchSearchParameters(srps: SRP[], dibs: DIB[]): DescriptionType[] | null {
+    const devInfo = dibs.find((d) => d instanceof DeviceInformationDIB);
+    const suppSvc = dibs.find((d) => d instanceof SupportedServicesDIB);
+    const requestedDibs: DescriptionType[] = [];
+
+    for (const srp of srps) {
+      let matches: boolean;
+      switch (srp.type) {
+        case SRPType.SELECT_BY_PROGRAMMING_MODE:
+          matches = !!devInfo && (devInfo.deviceStatus & 0x01) === 1;
+          break;
+        case SRPType.SELECT_BY_MAC_ADDRESS:
+          matches =
+            !!devInfo &&
+            srp.data.length >= 6 &&
+            // eslint-disable-next-line no-useless-escape
+            srp.data.subarray(0, 6).toString("hex") === devInfo.macAddress.replace(/[:\-]/g, "").toLowerCase();
+          break;
+        case SRPType.SELECT_BY_SERVICE:
+          matches =
+            !!suppSvc &&
+            srp.data.length >= 2 &&
+            suppSvc.services.some((svc) => svc.family === srp.data[0] && svc.version >= srp.data[1]);
+          break;
+        case SRPType.REQUEST_DIBS:
+          for (const type of srp.data) {
+            if (type !== 0x00 && !requestedDibs.includes(type)) requestedDibs.push(type);
+          }
+          matches = true;
+          break;
+        default:
+          // SRP desconocido: solo nos obliga si es obligatorio
+          matches = false;
+          break;
+      }
+      if (!matches && srp.isMandatory) return null;
+    }
+
+    return requestedDibs;
+  }
+
+  private handleDescriptionRequest(msg: Buffer, rinfo: dgram.RemoteInfo, stream?: net.Socket) {
     const clientHPAI = HPAI.fromBuffer(msg.subarray(6));
 
     // [MEJORA] Route Back validation
@@ -707,17 +960,10 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     );
 
     this.logger.debug(`Responding to description request from ${clientHPAI.ipAddress}:${clientHPAI.port}`);
-
-    if (this.socket) {
-      (this.socket as dgram.Socket).send(
-        Buffer.concat([responseHeader.toBuffer(), body]),
-        clientHPAI.port,
-        clientHPAI.ipAddress,
-      );
-    }
+    this.sendToClient(Buffer.concat([responseHeader.toBuffer(), body]), clientHPAI, stream);
   }
 
-  private getHPAI(rinfo?: dgram.RemoteInfo): HPAI {
+  private getHPAI(rinfo?: dgram.RemoteInfo, protocol: HostProtocolCode = HostProtocolCode.IPV4_UDP): HPAI {
     let localIp = this.options.localIp!;
     if (localIp === "0.0.0.0") {
       localIp = getNetworkInfo().address;
@@ -741,10 +987,10 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       }
     }
 
-    return new HPAI(HostProtocolCode.IPV4_UDP, localIp, (this.socket as dgram.Socket).address().port);
+    return new HPAI(protocol, localIp, (this.socket as dgram.Socket).address().port);
   }
 
-  private handleConnectRequest(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  private handleConnectRequest(msg: Buffer, rinfo: dgram.RemoteInfo, stream?: net.Socket) {
     const clientControlHPAI = HPAI.fromBuffer(msg.subarray(6));
     const clientDataHPAI = HPAI.fromBuffer(msg.subarray(14));
 
@@ -760,9 +1006,10 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
 
     const cri = CRI.fromBuffer(msg.subarray(22));
     let status = KNXnetIPErrorCodes.E_NO_ERROR;
+    let reason = "";
     let channelId = 0;
 
-    const serverDataHPAI = this.getHPAI(rinfo);
+    const serverDataHPAI = this.getHPAI(rinfo, stream ? HostProtocolCode.IPV4_TCP : HostProtocolCode.IPV4_UDP);
 
     this.logger.info(
       `Connect Request from IP: ${rinfo.address}, Type: ${cri.connectionType}, IA: ${cri.individualAddress}, Layer: ${cri.knxLayer}`,
@@ -770,19 +1017,37 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
 
     // Check if a connection from the same IP already exists with the same IA
     // If so, it might be a stale connection from a client that crashed/restarted
+    // (only over UDP: a TCP connection closes with its stream)
     let knxAddress = cri.individualAddress;
-    if (knxAddress !== null && knxAddress !== 0) {
+    let staleChannel = 0;
+    if (cri.connectionType === ConnectionType.TUNNEL_CONNECTION) {
+      knxAddress = this.admission.pinnedAddress(rinfo.address) ?? knxAddress;
       for (const [cid, conn] of this._tunnelConnections.entries()) {
-        if (conn.knxAddress === knxAddress && conn.controlHPAI.ipAddress === rinfo.address) {
-          this.logger.warn(
-            `IA ${knxAddress} already in use by stale connection from same IP ${rinfo.address}. Replacing channel ${cid}.`,
-          );
-          this.closeConnection(cid, true);
+        if (
+          knxAddress &&
+          !conn.stream &&
+          conn.knxAddress === knxAddress &&
+          conn.controlHPAI.ipAddress === rinfo.address
+        ) {
+          staleChannel = cid;
           break;
         }
       }
     }
 
+    // La conexión que se va a sustituir no cuenta para el límite por host
+    const openConnections = [...this._tunnelConnections.values()].filter(
+      (conn) => conn.controlHPAI.ipAddress === rinfo.address && conn.channelId !== staleChannel,
+    ).length;
+    const refusal = this.admission.check(rinfo.address, cri.connectionType, cri.knxLayer, openConnections);
+
+    if (!refusal && staleChannel) {
+      this.logger.warn(
+        `IA ${knxAddress} already in use by stale connection from same IP ${rinfo.address}. Replacing channel ${staleChannel}.`,
+      );
+      this.closeConnection(staleChannel, true);
+    }
+
     for (let i = 1; i <= this.maxTunnelConnections; i++) {
       if (!this._tunnelConnections.has(i)) {
         channelId = i;
@@ -790,9 +1055,11 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       }
     }
 
-    if (channelId === 0) {
-      this.logger.warn("Connect Request refused: No more channels available.");
+    if (refusal) {
+      ({ status, reason } = refusal);
+    } else if (channelId === 0) {
       status = KNXnetIPErrorCodes.E_NO_MORE_CONNECTIONS;
+      reason = "No more channels available";
     } else if (cri.connectionType === ConnectionType.DEVICE_MGMT_CONNECTION) {
       // Management connections don't usually have a dedicated IA assigned in the CRD
       this.logger.info(`Management Connection established! Channel: ${channelId}`);
@@ -805,12 +1072,13 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
           0,
           "0.0.0",
           cri.knxLayer,
-          this.socket as dgram.Socket,
+          stream ?? (this.socket as dgram.Socket),
           this.HEARTBEAT_TIMEOUT,
           this.RETRANSMIT_TIMEOUT,
           this.MAX_PENDING_REQUESTS_PER_CLIENT,
           (cid: number, sendDisconnect: boolean) => this.closeConnection(cid, sendDisconnect),
           this.logger,
+          ConnectionType.DEVICE_MGMT_CONNECTION,
         ),
       );
 
@@ -823,16 +1091,12 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
         KNXnetIPServiceType.CONNECT_RESPONSE,
         KNXnetIPHeader.HEADER_SIZE_10 + body.length,
       );
-      if (this.socket)
-        (this.socket as dgram.Socket).send(
-          Buffer.concat([responseHeader.toBuffer(), body]),
-          clientControlHPAI.port,
-          clientControlHPAI.ipAddress,
-        );
+      this.sendToClient(Buffer.concat([responseHeader.toBuffer(), body]), clientControlHPAI, stream);
+      this.emit("tunnelOpened", this._tunnelConnections.get(channelId)!.getSession());
       return;
     } else if (cri.connectionType === ConnectionType.TUNNEL_CONNECTION) {
       if (knxAddress === null || knxAddress === 0) {
-        knxAddress = this.clientAddrsStartInt + channelId - 1;
+        knxAddress = this.getFreeClientAddress(channelId, rinfo.address);
       }
 
       if (
@@ -840,21 +1104,35 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
         cri.knxLayer !== KNXLayer.BUSMONITOR_LAYER &&
         cri.knxLayer !== KNXLayer.RAW_LAYER
       ) {
-        this.logger.warn(`Connect Request refused: Invalid layer ${cri.knxLayer}`);
         status = KNXnetIPErrorCodes.E_TUNNELLING_LAYER;
+        reason = `Invalid layer ${cri.knxLayer}`;
+      } else if (knxAddress === null) {
+        status = KNXnetIPErrorCodes.E_NO_MORE_UNIQUE_CONNECTIONS;
+        reason = "No free individual address in the tunnel pool";
+      } else if (this.admission.isReservedFor(knxAddress, rinfo.address)) {
+        status = KNXnetIPErrorCodes.E_NO_MORE_UNIQUE_CONNECTIONS;
+        reason = `IA ${KNXHelper.GetAddress(knxAddress, ".")} is pinned to another host`;
+      } else if (
+        // Extended CRI: solo se puede pedir una de las direcciones de túnel del servidor
+        knxAddress === cri.individualAddress &&
+        knxAddress !== this.admission.pinnedAddress(rinfo.address) &&
+        !this.clientAddresses.includes(knxAddress)
+      ) {
+        status = KNXnetIPErrorCodes.E_NO_MORE_UNIQUE_CONNECTIONS;
+        reason = `Requested IA ${KNXHelper.GetAddress(knxAddress, ".")} is not a tunnel address of the server`;
       }
 
       if (status === KNXnetIPErrorCodes.E_NO_ERROR) {
         for (const [cid, conn] of this._tunnelConnections.entries()) {
           if (conn.knxAddress === knxAddress) {
-            this.logger.warn(`Connect Request refused: IA ${knxAddress} already in use by channel ${cid}`);
             status = KNXnetIPErrorCodes.E_NO_MORE_UNIQUE_CONNECTIONS;
+            reason = `IA ${conn.knxAddressStr} already in use by channel ${cid}`;
             break;
           }
         }
       }
 
-      if (status === KNXnetIPErrorCodes.E_NO_ERROR) {
+      if (status === KNXnetIPErrorCodes.E_NO_ERROR && knxAddress !== null) {
         const addrBuf = Buffer.alloc(2);
         addrBuf.writeUInt16BE(knxAddress);
         const knxAddressStr = KNXHelper.GetAddress(addrBuf, ".") as string;
@@ -871,7 +1149,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
             knxAddress,
             knxAddressStr,
             cri.knxLayer,
-            this.socket as dgram.Socket,
+            stream ?? (this.socket as dgram.Socket),
             this.HEARTBEAT_TIMEOUT,
             this.RETRANSMIT_TIMEOUT,
             this.MAX_PENDING_REQUESTS_PER_CLIENT,
@@ -886,25 +1164,38 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
           KNXnetIPServiceType.CONNECT_RESPONSE,
           KNXnetIPHeader.HEADER_SIZE_10 + body.length,
         );
-        if (this.socket)
-          (this.socket as dgram.Socket).send(
-            Buffer.concat([responseHeader.toBuffer(), body]),
-            clientControlHPAI.port,
-            clientControlHPAI.ipAddress,
-          );
+        this.sendToClient(Buffer.concat([responseHeader.toBuffer(), body]), clientControlHPAI, stream);
+        this.emit("tunnelOpened", this._tunnelConnections.get(channelId)!.getSession());
         return;
       }
     } else {
       status = KNXnetIPErrorCodes.E_CONNECTION_TYPE;
+      reason = `Unsupported connection type ${cri.connectionType}`;
     }
 
+    this.logger.warn(`Connect Request from ${rinfo.address} refused: ${reason}`);
+    this.emit("connection_rejected", {
+      address: rinfo.address,
+      port: rinfo.port,
+      connectionType: cri.connectionType,
+      knxLayer: cri.knxLayer,
+      status,
+      reason,
+    } satisfies KNXConnectionRejection);
     const responseHeader = new KNXnetIPHeader(KNXnetIPServiceType.CONNECT_RESPONSE, 8);
-    if (this.socket)
-      (this.socket as dgram.Socket).send(
-        Buffer.concat([responseHeader.toBuffer(), Buffer.from([0, status])]),
-        clientControlHPAI.port,
-        clientControlHPAI.ipAddress,
-      );
+    this.sendToClient(Buffer.concat([responseHeader.toBuffer(), Buffer.from([0, status])]), clientControlHPAI, stream);
+  }
+
+  /**
+   * Address of the channel in the pool, or the first free one when it is in use or pinned to another host
+   */
+  private getFreeClientAddress(channelId: number, clientIp: string): number | null {
+    const isFree = (address: number) =>
+      ![...this._tunnelConnections.values()].some((conn) => conn.knxAddress === address) &&
+      !this.admission.isReservedFor(address, clientIp);
+    const preferred = this.clientAddresses[channelId - 1];
+    if (preferred !== undefined && isFree(preferred)) return preferred;
+    return this.clientAddresses.find(isFree) ?? null;
   }
 
   private resetHeartbeat(channelId: number) {
@@ -922,24 +1213,48 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
 
       if (sendDisconnect && this.socket) {
         // Send DISCONNECT_REQUEST to client (Spec 5.4/5.5)
-        const body = Buffer.concat([Buffer.from([channelId, 0x00]), this.getHPAI().toBuffer()]);
+        const stream = conn.stream ?? undefined;
+        const hpai = stream ? new HPAI(HostProtocolCode.IPV4_TCP, "0.0.0.0", 0) : this.getHPAI();
+        const body = Buffer.concat([Buffer.from([channelId, 0x00]), hpai.toBuffer()]);
         const header = new KNXnetIPHeader(
           KNXnetIPServiceType.DISCONNECT_REQUEST,
           KNXnetIPHeader.HEADER_SIZE_10 + body.length,
         );
-        (this.socket as dgram.Socket).send(
-          Buffer.concat([header.toBuffer(), body]),
-          controlHPAI.port,
-          controlHPAI.ipAddress,
-        );
+        this.sendToClient(Buffer.concat([header.toBuffer(), body]), controlHPAI, stream);
       }
 
       this._tunnelConnections.delete(channelId);
+      this.pendingConfirmations = this.pendingConfirmations.filter((p) => {
+        if (p.conn !== conn) return true;
+        clearTimeout(p.timer);
+        return false;
+      });
+      this.emit("tunnelClosed", conn.getSession());
       this.emit("disconnected", channelId);
     }
   }
 
-  private handleConnectionStateRequest(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  /**
+   * Active tunnelling and management sessions, in channel order
+   */
+  public getTunnelSessions(): KNXTunnelSession[] {
+    return [...this._tunnelConnections.values()]
+      .sort((a, b) => a.channelId - b.channelId)
+      .map((conn) => conn.getSession());
+  }
+
+  /**
+   * Closes a session from the server side, sending DISCONNECT_REQUEST to the client.
+   * @returns false if the channel is not open
+   */
+  public disconnectTunnel(channelId: number): boolean {
+    if (!this._tunnelConnections.has(channelId)) return false;
+    this.logger.info(`Disconnecting channel ${channelId} on request`);
+    this.closeConnection(channelId, true);
+    return true;
+  }
+
+  private handleConnectionStateRequest(msg: Buffer, rinfo: dgram.RemoteInfo, stream?: net.Socket) {
     const channelId = msg.readUInt8(6);
     const clientControlHPAI = HPAI.fromBuffer(msg.subarray(8));
 
@@ -947,51 +1262,45 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     if (!this.resolveRouteBack(clientControlHPAI, rinfo)) return;
 
     let status = KNXnetIPErrorCodes.E_CONNECTION_ID;
-    if (this._tunnelConnections.has(channelId)) {
+    if (this.getClientConnection(channelId, stream)) {
       status = KNXnetIPErrorCodes.E_NO_ERROR;
       this.resetHeartbeat(channelId);
     }
 
     const body = Buffer.from([channelId, status]);
     const responseHeader = new KNXnetIPHeader(KNXnetIPServiceType.CONNECTIONSTATE_RESPONSE, 6 + body.length);
-    if (this.socket)
-      (this.socket as dgram.Socket).send(
-        Buffer.concat([responseHeader.toBuffer(), body]),
-        clientControlHPAI.port,
-        clientControlHPAI.ipAddress,
-      );
+    this.sendToClient(Buffer.concat([responseHeader.toBuffer(), body]), clientControlHPAI, stream);
   }
 
-  private handleDisconnectRequest(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  private handleDisconnectRequest(msg: Buffer, rinfo: dgram.RemoteInfo, stream?: net.Socket) {
     const channelId = msg.readUInt8(6);
     const clientControlHPAI = HPAI.fromBuffer(msg.subarray(8));
 
     // [MEJORA] Route Back validation
     if (!this.resolveRouteBack(clientControlHPAI, rinfo)) return;
 
-    this.closeConnection(channelId, false);
-    const body = Buffer.from([channelId, KNXnetIPErrorCodes.E_NO_ERROR]);
+    let status = KNXnetIPErrorCodes.E_CONNECTION_ID;
+    if (this.getClientConnection(channelId, stream)) {
+      status = KNXnetIPErrorCodes.E_NO_ERROR;
+      this.closeConnection(channelId, false);
+    }
+    const body = Buffer.from([channelId, status]);
     const responseHeader = new KNXnetIPHeader(
       KNXnetIPServiceType.DISCONNECT_RESPONSE,
       KNXnetIPHeader.HEADER_SIZE_10 + body.length,
     );
-    if (this.socket)
-      (this.socket as dgram.Socket).send(
-        Buffer.concat([responseHeader.toBuffer(), body]),
-        clientControlHPAI.port,
-        clientControlHPAI.ipAddress,
-      );
+    this.sendToClient(Buffer.concat([responseHeader.toBuffer(), body]), clientControlHPAI, stream);
   }
 
-  private handleTunnelingRequest(msg: Buffer, rinfo: dgram.RemoteInfo) {
+  private handleTunnelingRequest(msg: Buffer, rinfo: dgram.RemoteInfo, stream?: net.Socket) {
     const headerLen = msg.readUInt8(6);
     const channelId = msg.readUInt8(7);
     const seq = msg.readUInt8(8);
     const cemiBuffer = msg.subarray(6 + headerLen);
 
-    const conn = this._tunnelConnections.get(channelId);
+    const conn = this.getClientConnection(channelId, stream);
     if (!conn) {
-      this.sendTunnelACK(channelId, seq, KNXnetIPErrorCodes.E_CONNECTION_ID, rinfo);
+      if (!stream) this.sendTunnelACK(channelId, seq, KNXnetIPErrorCodes.E_CONNECTION_ID, rinfo);
       return;
     }
 
@@ -1048,14 +1357,71 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       const conCemiBuffer = Buffer.from(cemiBuffer);
       conCemiBuffer[0] = msgCode + 0x1d; // 0x11 -> 0x2E, 0x10 -> 0x2F
       conCemiBuffer[2 + addInfoLen] &= 0xfe;
-      conn.enqueue(conCemiBuffer, KNXnetIPServiceType.TUNNELLING_REQUEST);
+
+      if (msgCode === 0x11 && this.isConfirmationDelegated) {
+        this.awaitLinkConfirmation(conn, routingCemiBuffer, conCemiBuffer);
+      } else {
+        conn.enqueue(conCemiBuffer, KNXnetIPServiceType.TUNNELLING_REQUEST);
+      }
+    }
+    if (msgCode === 0x11) this.handleLocalManagement(routingCemiBuffer);
+  }
+
+  /**
+   * Hands a tunnel L_Data.req to the Router and holds its L_Data.con until a bus link confirms it.
+   * Without an answer within `confirmationTimeout` a negative confirmation is sent to the client.
+   */
+  private awaitLinkConfirmation(conn: TunnelConnection, routingCemiBuffer: Buffer, conCemiBuffer: Buffer) {
+    let request: CEMIInstance;
+    try {
+      request = CEMI.fromBuffer(routingCemiBuffer);
+    } catch (e: any) {
+      this.logger.debug("Error parsing tunnel CEMI buffer" + e.message);
+      return;
     }
+    if (!("destinationAddress" in request)) return;
+
+    const pending = {
+      conn,
+      request,
+      conCemiBuffer,
+      timer: setTimeout(() => {
+        this.pendingConfirmations = this.pendingConfirmations.filter((p) => p !== pending);
+        this.logger.warn(`No link confirmed the frame to ${request.destinationAddress}, sending negative L_Data.con`);
+        conCemiBuffer[2 + conCemiBuffer[1]] |= 0x01;
+        conn.enqueue(conCemiBuffer, KNXnetIPServiceType.TUNNELLING_REQUEST);
+      }, this.options.confirmationTimeout),
+    };
+    this.pendingConfirmations.push(pending);
+    this.emit("indication", request);
+  }
+
+  /**
+   * Delivers the L_Data.con of a bus link to the tunnel client that is waiting for it.
+   * Called by the Router, the confirm flag (positive or negative) is passed through unchanged.
+   * @returns false if no tunnel request matches the confirmation
+   */
+  public handleLinkConfirmation(con: LDataConfirmation): boolean {
+    const pending = this.pendingConfirmations.find(
+      (p) => "TPDU" in p.request && KNXService.isConfirmationOf(p.request, con),
+    );
+    if (!pending) return false;
+    clearTimeout(pending.timer);
+    this.pendingConfirmations = this.pendingConfirmations.filter((p) => p !== pending);
+
+    const cf1Offset = 2 + pending.conCemiBuffer[1];
+    if (con.controlField1.confirm) pending.conCemiBuffer[cf1Offset] |= 0x01;
+    else pending.conCemiBuffer[cf1Offset] &= 0xfe;
+    pending.conn.enqueue(pending.conCemiBuffer, KNXnetIPServiceType.TUNNELLING_REQUEST);
+    return true;
   }
 
   private sendTunnelACK(channelId: number, seq: number, status: number, rinfo?: dgram.RemoteInfo) {
     const body = Buffer.from([0x04, channelId, seq, status]);
     const header = new KNXnetIPHeader(KNXnetIPServiceType.TUNNELLING_ACK, KNXnetIPHeader.HEADER_SIZE_10 + body.length);
     const conn = this._tunnelConnections.get(channelId);
+    // Over TCP there are no TUNNELLING_ACKs
+    if (conn?.stream) return;
     if (this.socket) {
       const port = conn ? conn.dataHPAI.port : rinfo ? rinfo.port : 0;
       const addr = conn ? conn.dataHPAI.ipAddress : rinfo ? rinfo.address : "";
@@ -1065,11 +1431,11 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     }
   }
 
-  private handleTunnelingFeatureGet(msg: Buffer) {
+  private handleTunnelingFeatureGet(msg: Buffer, stream?: net.Socket) {
     const channelId = msg.readUInt8(7);
     const seq = msg.readUInt8(8);
     const featId = msg.readUInt8(10);
-    const conn = this._tunnelConnections.get(channelId);
+    const conn = this.getClientConnection(channelId, stream);
     if (!conn) {
       this.sendTunnelACK(channelId, seq, KNXnetIPErrorCodes.E_CONNECTION_ID);
       return;
@@ -1104,13 +1470,13 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     conn.enqueue(featBody, KNXnetIPServiceType.TUNNELLING_FEATURE_RESPONSE);
   }
 
-  private handleDeviceConfigurationRequest(msg: Buffer) {
+  private handleDeviceConfigurationRequest(msg: Buffer, stream?: net.Socket) {
     const headerLen = msg.readUInt8(6);
     const channelId = msg.readUInt8(7);
     const seq = msg.readUInt8(8);
     const cemiBuffer = msg.subarray(6 + headerLen);
 
-    const conn = this._tunnelConnections.get(channelId);
+    const conn = this.getClientConnection(channelId, stream);
     if (!conn) {
       this.sendDeviceConfigACK(channelId, seq, KNXnetIPErrorCodes.E_CONNECTION_ID);
       return;
@@ -1133,30 +1499,564 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
         this.logger.debug(
           `Management PropRead: Obj=${req.interfaceObjectType}, Prop=${req.propertyId} on channel ${channelId}`,
         );
+        conn.enqueue(this.handlePropertyRead(req).toBuffer(), KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST);
+      } else if (msgCode === 0xf6) {
+        // M_PropWrite.req
+        const req = CEMI.ManagementCEMI["M_PropWrite.req"].fromBuffer(cemiBuffer);
+        this.logger.debug(
+          `Management PropWrite: Obj=${req.interfaceObjectType}, Prop=${req.propertyId} on channel ${channelId}`,
+        );
+        conn.enqueue(this.handlePropertyWrite(req).toBuffer(), KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST);
+      }
+    } catch (e: any) {
+      this.logger.error(`Error processing management config request on channel ${channelId}: ${e.message}`);
+    }
+  }
+
+  /**
+   * Answers M_PropRead.req from the interface objects. PID 0 reads the description of the property at
+   * index `startIndex`: PID(1) + W|PDT(1) + MaxNoE(2) + AccessLevel(1).
+   */
+  private handlePropertyRead(req: InstanceType<(typeof CEMI.ManagementCEMI)["M_PropRead.req"]>) {
+    const { interfaceObjectType, objectInstance, propertyId, startIndex } = req;
+    let numberOfElements = req.numberOfElements;
+    let data: Buffer;
+    try {
+      if (propertyId === 0) {
+        const description = this.interfaceObjects.describe(interfaceObjectType, objectInstance, startIndex);
+        data = Buffer.from([
+          description.propertyId,
+          (description.writable ? 0x80 : 0x00) | description.type,
+          (description.maxElements >> 8) & 0x0f,
+          description.maxElements & 0xff,
+          description.accessLevel,
+        ]);
+      } else {
+        data = this.interfaceObjects.read(
+          interfaceObjectType,
+          objectInstance,
+          propertyId,
+          numberOfElements,
+          startIndex,
+        );
+      }
+    } catch (e) {
+      if (!(e instanceof PropertyAccessError)) throw e;
+      // Confirmación negativa: NoE = 0 y el código de error como dato
+      numberOfElements = 0;
+      data = Buffer.from([e.errorCode]);
+    }
+    return new CEMI.ManagementCEMI["M_PropRead.con"](
+      interfaceObjectType,
+      objectInstance,
+      propertyId,
+      numberOfElements,
+      startIndex,
+      data,
+    );
+  }
 
-        let data = Buffer.alloc(0);
-        const routingOptions = this.options;
+  /**
+   * Applies M_PropWrite.req to the interface objects and emits `property_changed` on success.
+   */
+  private handlePropertyWrite(req: InstanceType<(typeof CEMI.ManagementCEMI)["M_PropWrite.req"]>) {
+    const { interfaceObjectType, objectInstance, propertyId, numberOfElements, startIndex } = req;
+    try {
+      const value = this.interfaceObjects.write(
+        interfaceObjectType,
+        objectInstance,
+        propertyId,
+        numberOfElements,
+        startIndex,
+        req.data,
+      );
+      this.emit("property_changed", { interfaceObjectType, objectInstance, propertyId, value });
+      this.persistState();
+      return new CEMI.ManagementCEMI["M_PropWrite.con"](
+        interfaceObjectType,
+        objectInstance,
+        propertyId,
+        numberOfElements,
+        startIndex,
+        ErrorCodeSet.Unspecified_Error,
+      );
+    } catch (e) {
+      if (!(e instanceof PropertyAccessError)) throw e;
+      this.logger.warn(`Management PropWrite Obj=${interfaceObjectType}, Prop=${propertyId} rejected: ${e.message}`);
+      return new CEMI.ManagementCEMI["M_PropWrite.con"](
+        interfaceObjectType,
+        objectInstance,
+        propertyId,
+        0,
+        startIndex,
+        e.errorCode,
+      );
+    }
+  }
 
-        // Respond to Individual Address (Prop 1) of Device Object (Obj 0)
-        if (req.interfaceObjectType === 0 && req.propertyId === 1) {
-          data = Buffer.alloc(2);
-          data.writeUInt16BE(KNXHelper.GetAddress(routingOptions.individualAddress!, ".").readUInt16BE());
-        }
+  /**
+   * Device Object and KNXnet/IP Parameter Object of the server. Values are read live from the
+   * options, written values are applied at once.
+   */
+  private createInterfaceObjects() {
+    const options = this.options;
+    const uint16 = (value: number) => Buffer.from([(value >> 8) & 0xff, value & 0xff]);
+    const ia = () => KNXHelper.GetAddress(options.individualAddress!, ".").readUInt16BE();
+    const ipProperty = (propertyId: number, get: () => string, set?: (ip: string) => void) => ({
+      propertyId,
+      type: PropertyDataType.PDT_UNSIGNED_LONG,
+      elementSize: 4,
+      get: () => ipToBuffer(get()),
+      set: set && ((value: Buffer) => set(bufferToIp(value))),
+    });
 
-        const resCemi = new CEMI.ManagementCEMI["M_PropRead.con"](
-          req.interfaceObjectType,
-          req.objectInstance,
-          req.propertyId,
-          req.numberOfElements,
-          req.startIndex,
-          data,
-        );
+    const device = new InterfaceObject(InterfaceObjectType.DEVICE);
+    device
+      .define({
+        propertyId: DevicePropertyId.PID_SERIAL_NUMBER,
+        type: PropertyDataType.PDT_GENERIC_06,
+        elementSize: 6,
+        get: () => options.serialNumber!,
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_MANUFACTURER_ID,
+        type: PropertyDataType.PDT_UNSIGNED_INT,
+        elementSize: 2,
+        get: () => uint16(options.manufacturerId ?? 0x0000),
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_ORDER_INFO,
+        type: PropertyDataType.PDT_GENERIC_10,
+        elementSize: 10,
+        get: () => {
+          const orderInfo = Buffer.alloc(10);
+          options.orderInfo?.copy(orderInfo, 0, 0, 10);
+          return orderInfo;
+        },
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_PROGMODE,
+        type: PropertyDataType.PDT_BITSET8,
+        elementSize: 1,
+        get: () => Buffer.from([this._programmingMode ? 0x01 : 0x00]),
+        set: (value) => this.setProgrammingMode((value[0] & 0x01) === 0x01),
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_MAX_APDU_LENGTH,
+        type: PropertyDataType.PDT_UNSIGNED_INT,
+        elementSize: 2,
+        get: () => uint16(254),
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_SUBNET_ADDR,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        get: () => Buffer.from([ia() >> 8]),
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_DEVICE_ADDR,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        get: () => Buffer.from([ia() & 0xff]),
+      })
+      .define({
+        propertyId: DevicePropertyId.PID_DEVICE_DESCRIPTOR,
+        type: PropertyDataType.PDT_GENERIC_02,
+        elementSize: 2,
+        get: () => uint16(DeviceDescriptorType0.KNXNET_IP_ROUTER.value),
+      });
+    this.interfaceObjects.add(device);
+
+    const knxnetIp = new InterfaceObject(InterfaceObjectType.KNXNET_IP_PARAMETER);
+    knxnetIp
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_KNX_INDIVIDUAL_ADDRESS,
+        type: PropertyDataType.PDT_UNSIGNED_INT,
+        elementSize: 2,
+        get: () => uint16(ia()),
+        set: (value) => this.applyIndividualAddress(value.readUInt16BE(0)),
+      })
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_ADDITIONAL_INDIVIDUAL_ADDRESSES,
+        type: PropertyDataType.PDT_UNSIGNED_INT,
+        elementSize: 2,
+        maxElements: 255,
+        get: () => Buffer.concat(this.clientAddresses.map(uint16)),
+        set: (value) => this.applyClientAddresses(value),
+      })
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_CURRENT_IP_ASSIGNMENT_METHOD,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        get: () => Buffer.from([0x01]), // Manual: la IP la fija el host
+      })
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_IP_ASSIGNMENT_METHOD,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        get: () => Buffer.from([this.ipParameters.assignmentMethod]),
+        set: (value) => this.applyIpAssignmentMethod(value[0]),
+      })
+      .define(ipProperty(KNXnetIPPropertyId.PID_CURRENT_IP_ADDRESS, () => this.options.localIp!))
+      .define(ipProperty(KNXnetIPPropertyId.PID_CURRENT_SUBNET_MASK, () => getNetworkInfo().netmask))
+      .define(ipProperty(KNXnetIPPropertyId.PID_CURRENT_DEFAULT_GATEWAY, () => "0.0.0.0"))
+      // La configuración IP del host no se cambia desde aquí: se guarda y se notifica con `property_changed`
+      .define(
+        ipProperty(
+          KNXnetIPPropertyId.PID_IP_ADDRESS,
+          () => this.ipParameters.ipAddress,
+          (ip) => (this.ipParameters.ipAddress = ip),
+        ),
+      )
+      .define(
+        ipProperty(
+          KNXnetIPPropertyId.PID_SUBNET_MASK,
+          () => this.ipParameters.subnetMask,
+          (ip) => (this.ipParameters.subnetMask = ip),
+        ),
+      )
+      .define(
+        ipProperty(
+          KNXnetIPPropertyId.PID_DEFAULT_GATEWAY,
+          () => this.ipParameters.defaultGateway,
+          (ip) => (this.ipParameters.defaultGateway = ip),
+        ),
+      )
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_MAC_ADDRESS,
+        type: PropertyDataType.PDT_GENERIC_06,
+        elementSize: 6,
+        // eslint-disable-next-line no-useless-escape
+        get: () => Buffer.from(options.macAddress!.replace(/[:\-]/g, ""), "hex"),
+      })
+      .define(ipProperty(KNXnetIPPropertyId.PID_SYSTEM_SETUP_MULTICAST_ADDRESS, () => "224.0.23.12"))
+      .define(
+        ipProperty(
+          KNXnetIPPropertyId.PID_ROUTING_MULTICAST_ADDRESS,
+          () => this.options.ip!,
+          (ip) => this.applyRoutingMulticastAddress(ip),
+        ),
+      )
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_TTL,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        get: () => Buffer.from([this.multicastTTL]),
+        set: (value) => {
+          this.multicastTTL = value[0];
+          if (this.socket) (this.socket as dgram.Socket).setMulticastTTL(this.multicastTTL);
+        },
+      })
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_KNXNETIP_DEVICE_CAPABILITIES,
+        type: PropertyDataType.PDT_BITSET16,
+        elementSize: 2,
+        get: () => uint16(0x0007), // Device Management, Tunnelling y Routing
+      })
+      .define({
+        propertyId: KNXnetIPPropertyId.PID_FRIENDLY_NAME,
+        type: PropertyDataType.PDT_UNSIGNED_CHAR,
+        elementSize: 1,
+        maxElements: 30,
+        get: () => {
+          const name = Buffer.alloc(30);
+          name.write(options.friendlyName!, "latin1");
+          return name;
+        },
+        set: (value) => {
+          const end = value.indexOf(0x00);
+          options.friendlyName = value.subarray(0, end === -1 ? value.length : end).toString("latin1");
+        },
+      });
+    this.interfaceObjects.add(knxnetIp);
+  }
+
+  /**
+   * Changes the individual address of the server (PID_KNX_INDIVIDUAL_ADDRESS).
+   * The tunnel pool follows the server and never contains its address. Open tunnels keep their address until
+   * they reconnect, except a tunnel with the new address of the server, which is disconnected.
+   */
+  private applyIndividualAddress(address: number) {
+    if (!isAssignableAddress(address)) {
+      throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_Range);
+    }
+    const line = address & 0xff00;
+    // El pool de túneles se mueve con el servidor: misma distancia a su dirección si cabe en la línea,
+    // si no conserva el número de dispositivo en la línea nueva
+    const shifted = this.clientAddresses.map((client) => client - this.serverIAInt + address);
+    const pool = shifted.every(
+      (client) => (client & 0xff00) === line && (client & 0xff) !== 0 && isAssignableAddress(client),
+    )
+      ? shifted
+      : this.clientAddresses.map((client) => line | (client & 0x00ff));
+    // La dirección del servidor que quede en el pool se cambia por el primer dispositivo libre de la línea
+    for (let i = 0; i < pool.length; i++) {
+      if (pool[i] !== address) continue;
+      let free = line | 1;
+      while ((free === address || pool.includes(free)) && (free & 0xff) < 0xff) free++;
+      if (!isAssignableAddress(free)) throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_Range);
+      pool[i] = free;
+    }
 
-        conn.enqueue(resCemi.toBuffer(), KNXnetIPServiceType.DEVICE_CONFIGURATION_REQUEST);
+    const previousAddress = this.individualAddress;
+    const individualAddress = KNXHelper.GetAddress(address, ".");
+    this.options.individualAddress = individualAddress;
+    this.individualAddress = individualAddress;
+    this.clientAddresses = pool;
+    this.serverIAInt = address;
+    for (const [channelId, conn] of this._tunnelConnections) {
+      if (conn.connectionType === ConnectionType.TUNNEL_CONNECTION && conn.knxAddress === address) {
+        this.logger.info(`Channel ${channelId} had the new address of the server, disconnecting it`);
+        this.closeConnection(channelId, true);
       }
+    }
+    this.logger.info(`Individual address changed to ${individualAddress}`);
+    this.emit("individualAddressChanged", { individualAddress, previousAddress });
+  }
+
+  /**
+   * Programming mode of the server, like the programming button of a device. While it is on the server
+   * reports it in the DeviceInformationDIB and answers A_IndividualAddress_Read, and
+   * A_IndividualAddress_Write changes its individual address ("Program physical address" in ETS).
+   */
+  public setProgrammingMode(on: boolean): void {
+    if (this._programmingMode === on) return;
+    this._programmingMode = on;
+    this.logger.info(`Programming mode ${on ? "on" : "off"}`);
+  }
+
+  public get programmingMode(): boolean {
+    return this._programmingMode;
+  }
+
+  /**
+   * Management telegrams for the server itself (L_Data.ind from a tunnel client or from routing):
+   * individual address broadcasts and the point-to-point connection ETS opens afterwards to check
+   * the device (T_Connect, A_DeviceDescriptor_Read, A_Restart, T_Disconnect).
+   */
+  private handleLocalManagement(cemiBuffer: Buffer) {
+    const offset = 2 + cemiBuffer[1];
+    if (cemiBuffer.length < offset + 8) return;
+    const isGroup = (cemiBuffer[offset + 1] & 0x80) !== 0;
+    const source = cemiBuffer.readUInt16BE(offset + 2);
+    const destination = cemiBuffer.readUInt16BE(offset + 4);
+    const tpdu = cemiBuffer.subarray(offset + 7, offset + 8 + cemiBuffer[offset + 6]);
+    const apci = tpdu.length >= 2 ? ((tpdu[0] & 0x03) << 8) | (tpdu[1] & 0xc0) : -1;
+
+    if (isGroup) {
+      // Broadcast (0/0/0) con T_Data_Broadcast
+      if (destination !== 0 || (tpdu[0] & 0xfc) !== 0x00 || !this._programmingMode) return;
+      if (apci === APCIEnum.A_IndividualAddress_Read_Protocol_Data_Unit) {
+        this.sendLocalTelegram(0x0000, true, Buffer.from([0x01, 0x40])); // A_IndividualAddress_Response
+      } else if (apci === APCIEnum.A_IndividualAddress_Write_Protocol_Data_Unit && tpdu.length >= 4) {
+        try {
+          this.applyIndividualAddress(tpdu.readUInt16BE(2));
+          this.persistState();
+        } catch (e: any) {
+          this.logger.warn(`A_IndividualAddress_Write rejected: ${e.message}`);
+        }
+      }
+      return;
+    }
+
+    if (destination !== this.serverIAInt || this.isManagementDelegated) return;
+    const tpci = tpdu[0];
+    const connection = this.transportConnection;
+    if (tpci === 0x80) {
+      // T_Connect: una sola conexión, la nueva sustituye a la anterior
+      this.closeTransportConnection();
+      this.transportConnection = {
+        peer: source,
+        sequence: 0,
+        timer: setTimeout(() => this.closeTransportConnection(), 6000),
+      };
+      return;
+    }
+    if (!connection || connection.peer !== source) {
+      if ((tpci & 0xc0) === 0x40) this.sendLocalTelegram(source, false, Buffer.from([0x81])); // T_Disconnect
+      return;
+    }
+    if (tpci === 0x81) {
+      this.closeTransportConnection();
+      return;
+    }
+    if ((tpci & 0xc0) !== 0x40) return; // T_ACK/T_NAK de nuestras respuestas
+    connection.timer.refresh();
+
+    // T_Data_Connected: confirmamos con T_ACK y el mismo número de secuencia
+    const sequence = (tpci >> 2) & 0x0f;
+    this.sendLocalTelegram(source, false, Buffer.from([0xc2 | (sequence << 2)]));
+    if (apci === APCIEnum.A_DeviceDescriptor_Read_Protocol_Data_Unit && (tpdu[1] & 0x3f) === 0) {
+      const descriptor = DeviceDescriptorType0.KNXNET_IP_ROUTER.value;
+      this.sendLocalTelegram(
+        source,
+        false,
+        Buffer.from([0x43 | (connection.sequence << 2), 0x40, descriptor >> 8, descriptor & 0xff]),
+      );
+      connection.sequence = (connection.sequence + 1) & 0x0f;
+    } else if (apci === APCIEnum.A_Restart_Protocol_Data_Unit) {
+      // Igual que un dispositivo real, el reinicio sale del modo programación y cierra la conexión
+      this.setProgrammingMode(false);
+      this.closeTransportConnection();
+    }
+  }
+
+  private closeTransportConnection() {
+    if (!this.transportConnection) return;
+    clearTimeout(this.transportConnection.timer);
+    this.transportConnection = null;
+  }
+
+  /**
+   * Sends a telegram of the server (system priority) to the tunnel clients and the routing group
+   */
+  private sendLocalTelegram(destination: number, isGroup: boolean, tpdu: Buffer) {
+    const cemi = Buffer.alloc(9 + tpdu.length);
+    cemi[0] = 0x29; // L_Data.ind
+    cemi[2] = 0xb0; // Trama estándar, sin repetición, prioridad de sistema
+    cemi[3] = isGroup ? 0xe0 : 0x60;
+    cemi.writeUInt16BE(this.serverIAInt, 4);
+    cemi.writeUInt16BE(destination, 6);
+    cemi[8] = tpdu.length - 1;
+    tpdu.copy(cemi, 9);
+    this.sendRaw(cemi).catch((e) => {
+      this.logger.debug(`Error sending management response: ${e.message}`);
+    });
+  }
+
+  /**
+   * Replaces the addresses of the tunnelling channels (PID_ADDITIONAL_INDIVIDUAL_ADDRESSES).
+   * Open tunnels keep their address until they reconnect.
+   */
+  private applyClientAddresses(value: Buffer) {
+    const addresses: number[] = [];
+    for (let i = 0; i + 1 < value.length; i += 2) addresses.push(value.readUInt16BE(i));
+    if (addresses.length === 0) throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_MinRange);
+    if (addresses.some((address) => address === 0)) {
+      throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_Range);
+    }
+    this.clientAddresses = addresses;
+    this.maxTunnelConnections = addresses.length;
+  }
+
+  /**
+   * Changes how the IP address is meant to be assigned (PID_IP_ASSIGNMENT_METHOD)
+   */
+  private applyIpAssignmentMethod(method: number) {
+    // Bits: 0 manual, 1 BootP, 2 DHCP, 3 AutoIP
+    if (!Number.isInteger(method) || (method & 0x0f) === 0 || method > 0x0f) {
+      throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_Range);
+    }
+    this.ipParameters.assignmentMethod = method;
+  }
+
+  private getState(): KNXServerState {
+    return {
+      individualAddress: this.individualAddress,
+      clientAddresses: this.clientAddresses.map((address) => KNXHelper.GetAddress(address, ".")),
+      friendlyName: this.options.friendlyName!,
+      routingMulticastAddress: this.options.ip!,
+      multicastTTL: this.multicastTTL,
+      ipAssignmentMethod: this.ipParameters.assignmentMethod,
+      ipAddress: this.ipParameters.ipAddress,
+      subnetMask: this.ipParameters.subnetMask,
+      defaultGateway: this.ipParameters.defaultGateway,
+    };
+  }
+
+  /**
+   * Saves the commissioned parameters in `stateStore`
+   */
+  private persistState() {
+    const store = this.options.stateStore;
+    if (!store) return;
+    const state = this.getState();
+    this.stateSave = this.stateSave
+      .then(() => store.save(state))
+      .catch((e: any) => this.logger.error(`Server state could not be saved: ${e.message}`));
+  }
+
+  /**
+   * Restores the parameters saved in `stateStore` over the options. Invalid values are ignored.
+   */
+  private async restoreState() {
+    const store = this.options.stateStore;
+    if (!store) return;
+    let state: Partial<KNXServerState> | null;
+    try {
+      state = await store.load();
     } catch (e: any) {
-      this.logger.error(`Error processing management config request on channel ${channelId}: ${e.message}`);
+      this.logger.warn(`Saved server state could not be loaded, using the options: ${e.message}`);
+      return;
+    }
+    if (!state) return;
+
+    // Las mismas comprobaciones que al escribir las propiedades desde ETS; lo que no las pasa se ignora
+    const restore = (name: keyof KNXServerState, apply: (value: any) => void) => {
+      const value = state![name];
+      if (value === undefined || value === null) return;
+      try {
+        apply(value);
+      } catch {
+        this.logger.warn(`Ignoring invalid saved ${name}: ${JSON.stringify(value)}`);
+      }
+    };
+    const ip = (value: unknown) => {
+      if (typeof value !== "string" || !net.isIPv4(value)) throw new TypeError("Not an IPv4 address");
+      return value;
+    };
+    const individualAddress = (value: unknown) => {
+      if (typeof value !== "string" || !KNXHelper.isValidIndividualAddress(value)) {
+        throw new TypeError("Not an individual address");
+      }
+      return KNXHelper.GetAddress(value, ".").readUInt16BE();
+    };
+
+    restore("individualAddress", (value) => {
+      const address = individualAddress(value);
+      if (!isAssignableAddress(address)) throw new RangeError("Not an assignable address");
+      this.options.individualAddress = value;
+      this.individualAddress = value;
+      this.serverIAInt = address;
+    });
+    restore("clientAddresses", (value) => {
+      if (!Array.isArray(value)) throw new TypeError("Not a list of addresses");
+      const addresses = value.flatMap((address) => {
+        try {
+          return [individualAddress(address)];
+        } catch {
+          return [];
+        }
+      });
+      this.applyClientAddresses(Buffer.concat(addresses.map((address) => Buffer.from([address >> 8, address & 0xff]))));
+    });
+    restore("friendlyName", (value) => {
+      if (typeof value !== "string") throw new TypeError("Not a string");
+      this.options.friendlyName = value.slice(0, 30);
+    });
+    restore("routingMulticastAddress", (value) => this.applyRoutingMulticastAddress(ip(value)));
+    restore("multicastTTL", (value) => {
+      if (!Number.isInteger(value) || value < 0 || value > 0xff) throw new RangeError("Not a TTL");
+      this.multicastTTL = value;
+    });
+    restore("ipAssignmentMethod", (value) => this.applyIpAssignmentMethod(value));
+    restore("ipAddress", (value) => (this.ipParameters.ipAddress = ip(value)));
+    restore("subnetMask", (value) => (this.ipParameters.subnetMask = ip(value)));
+    restore("defaultGateway", (value) => (this.ipParameters.defaultGateway = ip(value)));
+    this.logger.info(`Restored server state: ${this.individualAddress}, "${this.options.friendlyName}"`);
+  }
+
+  /**
+   * Moves routing to another multicast group (PID_ROUTING_MULTICAST_ADDRESS)
+   */
+  private applyRoutingMulticastAddress(ip: string) {
+    const first = Number(ip.split(".")[0]);
+    if (first < 224 || first > 239) throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_Range);
+    if (this.socket) {
+      this.setMulticastMembership(this.options.ip!, false);
+      this.setMulticastMembership(ip, true);
     }
+    this.options.ip = ip;
   }
 
   private handleDeviceConfigAck(msg: Buffer) {
@@ -1177,7 +2077,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       KNXnetIPHeader.HEADER_SIZE_10 + body.length,
     );
     const conn = this._tunnelConnections.get(channelId);
-    if (conn && this.socket) {
+    if (conn && !conn.stream && this.socket) {
       (this.socket as dgram.Socket).send(
         Buffer.concat([header.toBuffer(), body]),
         conn.dataHPAI.port,
@@ -1206,7 +2106,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     // Spec says use TP1 (0x02) for gateway reporting
     const devInfo = new DeviceInformationDIB(
       KNXMedium.KNXIP,
-      0,
+      this._programmingMode ? 0x01 : 0x00,
       KNXHelper.GetAddress(routingOptions.individualAddress as string, ".").readUint16BE(),
       0,
       routingOptions.serialNumber!,
@@ -1218,8 +2118,10 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     const suppSvc = new SupportedServicesDIB([
       { family: AllowedSupportedServiceFamilies.Core, version: 1 },
       { family: AllowedSupportedServiceFamilies.DeviceManagement, version: 1 },
-      { family: AllowedSupportedServiceFamilies.Tunnelling, version: 1 },
+      // Tunnelling v2 anuncia el transporte TCP
+      { family: AllowedSupportedServiceFamilies.Tunnelling, version: (this.options.tcp ?? false) ? 2 : 1 },
       { family: AllowedSupportedServiceFamilies.Routing, version: 1 },
+      ...(this.secureRouting ? [{ family: AllowedSupportedServiceFamilies.Security, version: 1 }] : []),
     ]);
 
     if (serviceType === KNXnetIPServiceType.SEARCH_RESPONSE) {
@@ -1237,7 +2139,7 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       status.usable = !!conn;
       status.free = !conn;
       slots.push({
-        address: conn ? conn.knxAddress : this.clientAddrsStartInt + i - 1,
+        address: conn ? conn.knxAddress : this.clientAddresses[i - 1],
         status: status,
       });
     }
@@ -1299,7 +2201,8 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
       Buffer.from([cf1]),
       src,
       dst,
-      Buffer.from([(cf2 & 0xf0) | (dataLen + 1)]),
+      // LG del TP1 coincide con la longitud del cEMI (octetos del APDU tras el TPCI)
+      Buffer.from([(cf2 & 0xf0) | (dataLen & 0x0f)]),
       tpdu,
       Buffer.alloc(1),
     ]);
@@ -1309,3 +2212,16 @@ export class KNXnetIPServer extends KNXService<KNXnetIPServerOptions> {
     return new (CEMI.DataLinkLayerCEMI["L_Busmon.ind"] as any)(null, lpdu).toBuffer();
   }
 }
+
+/** Individual address that a device can take: not 0.0.0 nor device 255 of a line */
+function isAssignableAddress(address: number): boolean {
+  return address !== 0 && (address & 0xff) !== 0xff;
+}
+
+function ipToBuffer(ip: string): Buffer {
+  return Buffer.from(ip.split(".").map(Number));
+}
+
+function bufferToIp(buffer: Buffer): string {
+  return [...buffer.subarray(0, 4)].join(".");
+}
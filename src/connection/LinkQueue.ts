@@ -0,0 +1,139 @@
+import { KNXRouterLinkQueueOptions } from "../@types/interfaces/connection";
+import { Priority } from "../core/enum/EnumControlField";
+
+interface QueuedTelegram {
+  send: () => Promise<void>;
+  drop: () => void;
+}
+
+/** Order in which the priorities leave the queue: system > urgent > normal > low */
+const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.SYSTEM]: 0,
+  [Priority.URGENT]: 1,
+  [Priority.NORMAL]: 2,
+  [Priority.LOW]: 3,
+};
+
+/**
+ * Outbound queue of a Router link (see KNXRouterLinkQueueOptions): a token bucket of `rate` telegrams per
+ * second and `burst` tokens, served by priority and FIFO within the same priority. Telegrams are sent one
+ * at a time: the next one leaves when the link has taken the previous one, with or without a rate.
+ *
+ * When the queue is full the telegram to drop is taken from the lowest priority present, counting the new
+ * one, so a telegram never makes room by dropping one of higher priority.
+ */
+export class LinkQueue {
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly maxLength: number;
+  private readonly dropOldest: boolean;
+  private readonly queues: QueuedTelegram[][] = [[], [], [], []];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: NodeJS.Timeout | null = null;
+  private sending = false;
+  private sent = 0;
+  private failed = 0;
+  private dropped = 0;
+
+  /**
+   * @throws Error when an option is not valid
+   */
+  constructor(options: KNXRouterLinkQueueOptions = {}) {
+    const { rate = Infinity, burst = 1, maxLength = 500, overflowPolicy = "drop-oldest" } = options;
+    if (!(rate > 0)) throw new Error(`Link queue rate must be greater than 0, got ${rate}`);
+    if (!Number.isInteger(burst) || burst < 1) throw new Error(`Link queue burst must be 1 or more, got ${burst}`);
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+      throw new Error(`Link queue maxLength must be 1 or more, got ${maxLength}`);
+    }
+    if (overflowPolicy !== "drop-oldest" && overflowPolicy !== "drop-newest") {
+      throw new Error(`Unknown link queue overflow policy "${overflowPolicy}"`);
+    }
+    this.rate = rate;
+    this.burst = burst;
+    this.maxLength = maxLength;
+    this.dropOldest = overflowPolicy === "drop-oldest";
+    this.tokens = burst;
+  }
+
+  get length(): number {
+    return this.queues.reduce((total, queue) => total + queue.length, 0);
+  }
+
+  /**
+   * Counters of the queue: telegrams waiting, sent, whose send failed and dropped
+   */
+  stats(): { queued: number; sent: number; failed: number; dropped: number } {
+    return { queued: this.length, sent: this.sent, failed: this.failed, dropped: this.dropped };
+  }
+
+  /**
+   * Queues a telegram. `send` runs when it leaves the queue and `drop` when it is dropped instead.
+   * A rejected `send` counts as failed.
+   */
+  push(priority: Priority, send: () => Promise<void>, drop: () => void) {
+    const rank = PRIORITY_RANK[priority] ?? PRIORITY_RANK[Priority.LOW];
+    const telegram = { send, drop };
+    if (this.length >= this.maxLength) {
+      const lowest = Math.max(rank, ...this.queues.flatMap((queue, index) => (queue.length ? [index] : [])));
+      if (lowest === rank && (!this.dropOldest || this.queues[rank].length === 0)) {
+        this.discard(telegram);
+        return;
+      }
+      this.discard(this.dropOldest ? this.queues[lowest].shift()! : this.queues[lowest].pop()!);
+    }
+    this.queues[rank].push(telegram);
+    this.pump();
+  }
+
+  /**
+   * Drops every queued telegram
+   */
+  clear() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    for (const queue of this.queues) {
+      for (const telegram of queue.splice(0)) this.discard(telegram);
+    }
+  }
+
+  private discard(telegram: QueuedTelegram) {
+    this.dropped++;
+    telegram.drop();
+  }
+
+  private pump() {
+    if (this.sending || this.timer) return;
+    if (Number.isFinite(this.rate)) {
+      const now = Date.now();
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) * this.rate) / 1000);
+      this.lastRefill = now;
+      if (this.tokens < 1) {
+        if (this.length === 0) return;
+        // Hasta que haya un token entero
+        this.timer = setTimeout(
+          () => {
+            this.timer = null;
+            this.pump();
+          },
+          Math.ceil(((1 - this.tokens) * 1000) / this.rate),
+        );
+        return;
+      }
+    }
+    const telegram = this.queues.find((queue) => queue.length)?.shift();
+    if (!telegram) return;
+    if (Number.isFinite(this.rate)) this.tokens--;
+    this.sending = true;
+    Promise.resolve()
+      .then(() => telegram.send())
+      .then(
+        () => this.sent++,
+        () => this.failed++,
+      )
+      .finally(() => {
+        this.sending = false;
+        this.pump();
+      });
+  }
+}
@@ -1,9 +1,18 @@
 import { EventEmitter } from "events";
-import { KNXService } from "./KNXService";
+import { KNXService, LDataConfirmation } from "./KNXService";
 import { TPUARTConnection } from "./TPUART";
 import { KNXTunneling } from "./KNXTunneling";
 import { KNXUSBConnection } from "./KNXUSBConnection";
-import { KNXUSBOptions, RouterConnOptions, TPUARTOptions } from "../@types/interfaces/connection";
+import {
+  KNXReconnectOptions,
+  KNXRouterLinkFilter,
+  KNXRouterLinkQueueOptions,
+  KNXRouterLinkState,
+  KNXRouterLinkStatus,
+  KNXUSBOptions,
+  RouterConnOptions,
+  TPUARTOptions,
+} from "../@types/interfaces/connection";
 import { Logger } from "pino";
 import { knxLogger } from "../utils/Logger";
 import { CEMI, CEMIInstance } from "../core/CEMI";
@@ -18,6 +27,36 @@ import { TPCI, TPCIType } from "../core/layers/interfaces/TPCI";
 import { APDU } from "../core/layers/data/APDU";
 import { APCI } from "../core/layers/interfaces/APCI";
 import { APCIEnum } from "../core/enum/APCIEnum";
+import { KNXHelper } from "../utils/KNXHelper";
+import { RouterFilter } from "./AddressFilter";
+import { Coupler } from "./Coupler";
+import { AddressTranslation } from "./AddressTranslation";
+import { getReconnectDelay } from "../utils/reconnectDelay";
+import { LinkQueue } from "./LinkQueue";
+
+/** Time limit of a link reconnect attempt, like the CONNECT_REQUEST_TIMEOUT of KNXnet/IP */
+const LINK_CONNECT_TIMEOUT = 10000;
+
+type LDataFrame = Extract<CEMIInstance, { destinationAddress: string; controlField2: ExtendedControlField }>;
+
+interface LinkHealth {
+  state: KNXRouterLinkState;
+  since: Date;
+  reconnectAttempts: number;
+  lastError: string | null;
+  timer: NodeJS.Timeout | null;
+}
+
+/** L_Data.con of the bus links a tunnel frame is routed to, combined into the one its client gets */
+interface LinkConfirmations {
+  /** Counts one more link and returns the callback that reports its result */
+  expect(): (positive: boolean) => void;
+  /**
+   * No more links: confirms once every expected link has reported. When the frame was handed to no bus link
+   * `delivered` decides: positive if it reached its destination anyway, negative if it was dropped.
+   */
+  close(delivered: boolean): void;
+}
 
 /**
  * Router: A robust, high-performance learning bridge.
@@ -43,6 +82,22 @@ export class Router extends EventEmitter {
 
   public readonly toIPFilter: RouterConnOptions["toIpFilter"] = {};
   public readonly toLocalFilter: RouterConnOptions["toLocalFilter"] = {};
+  // Filtros compilados (tabla de 65536 direcciones), se construyen una sola vez
+  private readonly compiledToIPFilter: RouterFilter;
+  private readonly compiledToLocalFilter: RouterFilter;
+  private readonly linkFilters = new Map<string, { inbound: RouterFilter; outbound: RouterFilter }>();
+  // Modo acoplador (line/area coupler): sin aprendizaje, topología + tabla de filtros de grupo
+  private readonly coupler: Coupler | null = null;
+  private readonly translations: AddressTranslation[];
+  // Estado de cada enlace: los caídos se reconectan y los de reserva solo enrutan sin su primario
+  private readonly linkHealth = new Map<string, LinkHealth>();
+  private readonly linkReconnect: KNXReconnectOptions | null;
+  private readonly standbyLinks: Map<string, string>;
+  private closing = false;
+  // Colas de salida por enlace (limitación de telegramas/s y prioridad)
+  private readonly linkQueues = new Map<string, LinkQueue>();
+  private readonly linkQueueOptions: Record<string, KNXRouterLinkQueueOptions>;
+
   constructor(options: RouterConnOptions) {
     super();
     this.logger = knxLogger.child({ module: "Router" });
@@ -54,6 +109,32 @@ export class Router extends EventEmitter {
     if (options.toLocalFilter) {
       this.toLocalFilter = options.toLocalFilter;
     }
+    // Los nombres de política antiguos se mantienen por compatibilidad
+    const { individualAddress: ipIndividual, groupAddress: ipGroup } = this.toIPFilter ?? {};
+    this.compiledToIPFilter = new RouterFilter({
+      individualAddress: ipIndividual && {
+        addresses: ipIndividual.addresses,
+        policy: ipIndividual.individualAddressToIpFilterPolicie,
+      },
+      groupAddress: ipGroup && { addresses: ipGroup.addresses, policy: ipGroup.groupAddressToIpFilterPolicie },
+    });
+    const { individualAddress: localIndividual, groupAddress: localGroup } = this.toLocalFilter ?? {};
+    this.compiledToLocalFilter = new RouterFilter({
+      individualAddress: localIndividual && {
+        addresses: localIndividual.addresses,
+        policy: localIndividual.individualAddressToLocalFilterPolicie,
+      },
+      groupAddress: localGroup && {
+        addresses: localGroup.addresses,
+        policy: localGroup.groupAddressToLocalFilterPolicie,
+      },
+    });
+    for (const [key, filter] of Object.entries(options.linkFilters ?? {})) this.setLinkFilter(key, filter);
+    if (options.coupler) this.coupler = new Coupler(options.coupler, this.routerAddress);
+    this.translations = (options.addressTranslation ?? []).map((translation) => new AddressTranslation(translation));
+    this.linkReconnect = options.linkReconnect ?? null;
+    this.standbyLinks = new Map(Object.entries(options.standbyLinks ?? {}));
+    this.linkQueueOptions = options.linkQueues ?? {};
     if (options.knxNetIpServer) {
       options.knxNetIpServer.individualAddress = this.routerAddress;
       const ipServer = new KNXnetIPServer(options.knxNetIpServer);
@@ -84,9 +165,15 @@ export class Router extends EventEmitter {
 
   public registerLink(key: string, link: KNXService) {
     if (this.links.has(key)) return;
+    const queue = new LinkQueue(this.linkQueueOptions[key]);
     link.isCacheDelegated = true;
     link.isEventsDelegated = true;
+    if (link instanceof KNXnetIPServer) link.isManagementDelegated = !!this.coupler;
     this.links.set(key, link);
+    this.linkQueues.set(key, queue);
+    this.linkHealth.set(key, { state: "up", since: new Date(), reconnectAttempts: 0, lastError: null, timer: null });
+    this.refreshStandbyLinks();
+    this.updateConfirmationDelegation();
     this.logger.info(`Link registered: ${key}`);
 
     link.on("indication", (cemi: CEMIInstance) => {
@@ -98,11 +185,59 @@ export class Router extends EventEmitter {
       this.emit("error", { link, error: err });
     });
 
-    // knxd pattern: cleanup when link goes down
+    // The link stays registered while it is down and is reconnected with `linkReconnect`.
+    // A KNXnet/IP server emits `disconnected` for each tunnel client that leaves, not for itself.
     link.on("disconnected", () => {
-      this.logger.info(`Link disconnected: ${key}`);
-      this.unregisterLink(key);
+      if (link instanceof KNXnetIPServer) return;
+      this.handleLinkDown(key, new Error("Link disconnected"));
     });
+    link.on("connected", () => this.handleLinkUp(key));
+  }
+
+  /**
+   * Health of every registered link
+   */
+  public getLinkStatus(): KNXRouterLinkStatus[] {
+    return Array.from(this.linkHealth, ([key, { state, since, reconnectAttempts, lastError }]) => ({
+      key,
+      state,
+      since,
+      reconnectAttempts,
+      lastError,
+      standbyFor: this.standbyLinks.get(key) ?? null,
+      ...this.linkQueues.get(key)!.stats(),
+    }));
+  }
+
+  /**
+   * Sets or removes (null) the filters of a link. The link does not need to be registered yet.
+   * @throws Error when a rule is not valid
+   */
+  public setLinkFilter(key: string, filter: KNXRouterLinkFilter | null) {
+    if (!filter) {
+      this.linkFilters.delete(key);
+      return;
+    }
+    this.linkFilters.set(key, {
+      inbound: new RouterFilter(filter.inbound),
+      outbound: new RouterFilter(filter.outbound),
+    });
+  }
+
+  /**
+   * Group addresses of the filter table (coupler mode)
+   */
+  public getFilterTable(): string[] {
+    if (!this.coupler) throw new Error("The Router is not in coupler mode");
+    return this.coupler.getFilterTable();
+  }
+
+  /**
+   * Replaces the group filter table (coupler mode). Entries accept wildcards, ranges and negations.
+   */
+  public setFilterTable(addresses: string[]) {
+    if (!this.coupler) throw new Error("The Router is not in coupler mode");
+    this.coupler.setFilterTable(addresses);
   }
 
   public unregisterLink(key: string | "TPUART" | "KNXUSB") {
@@ -114,7 +249,119 @@ export class Router extends EventEmitter {
         this.addressTable.delete(addr);
       }
     }
+    const health = this.linkHealth.get(key);
+    if (health?.timer) clearTimeout(health.timer);
+    this.linkHealth.delete(key);
+    this.linkQueues.get(key)?.clear();
+    this.linkQueues.delete(key);
     this.links.delete(key);
+    this.refreshStandbyLinks();
+    this.updateConfirmationDelegation();
+  }
+
+  private isRouting(key: string): boolean {
+    return this.linkHealth.get(key)?.state === "up";
+  }
+
+  private handleLinkDown(key: string, error: Error) {
+    const health = this.linkHealth.get(key);
+    if (!health || this.closing || health.state === "down") return;
+    this.logger.warn({ link: key, err: error.message }, "Link down");
+    Object.assign(health, { state: "down", since: new Date(), reconnectAttempts: 0, lastError: error.message });
+    // knxd pattern: olvidar lo aprendido en el enlace, así se inunda (y llega al de reserva)
+    for (const [addr, l] of this.addressTable.entries()) {
+      if (l.key === key) this.addressTable.delete(addr);
+    }
+    this.emit("link_down", { key, error });
+    this.refreshStandbyLinks();
+    this.scheduleReconnect(key);
+  }
+
+  private handleLinkUp(key: string) {
+    const health = this.linkHealth.get(key);
+    if (!health || this.closing || health.state !== "down") return;
+    if (health.timer) clearTimeout(health.timer);
+    Object.assign(health, { state: "up", since: new Date(), reconnectAttempts: 0, timer: null });
+    this.logger.info(`Link up: ${key}`);
+    this.emit("link_up", { key });
+    this.refreshStandbyLinks();
+  }
+
+  /**
+   * Healthy standby links route only while their primary link is not up
+   */
+  private refreshStandbyLinks() {
+    for (const [standby, primary] of this.standbyLinks) {
+      const health = this.linkHealth.get(standby);
+      if (!health || health.state === "down") continue;
+      const state = this.isRouting(primary) ? "standby" : "up";
+      if (health.state === state) continue;
+      Object.assign(health, { state, since: new Date() });
+      this.logger.info(`Standby link ${standby} ${state === "up" ? "active" : "idle"} (primary ${primary})`);
+      this.emit("failover", { primary, standby, active: state === "up" });
+    }
+  }
+
+  private scheduleReconnect(key: string) {
+    const health = this.linkHealth.get(key);
+    const policy = this.linkReconnect;
+    if (!health || !policy?.enabled || this.closing) return;
+    const maxAttempts = policy.maxAttempts ?? 10;
+    if (!policy.infinite && health.reconnectAttempts >= maxAttempts) {
+      const error = new Error(`Reconnect of ${key} failed after ${health.reconnectAttempts} attempts`);
+      this.logger.error(error.message);
+      this.emit("link_failed", { key, error, attempts: health.reconnectAttempts });
+      return;
+    }
+    const delay = getReconnectDelay(policy, health.reconnectAttempts + 1);
+    this.logger.info(`Reconnecting ${key} in ${delay}ms (attempt ${health.reconnectAttempts + 1})`);
+    health.timer = setTimeout(() => this.reconnectLink(key), delay);
+  }
+
+  private async reconnectLink(key: string) {
+    const link = this.links.get(key);
+    const health = this.linkHealth.get(key);
+    if (!link || !health || health.state !== "down") return;
+    health.timer = null;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      // Un connect() que no termina nunca (UDP sin respuesta) dejaría el enlace caído para siempre
+      await Promise.race([
+        link.connect(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Connect timeout (${LINK_CONNECT_TIMEOUT}ms)`)),
+            LINK_CONNECT_TIMEOUT,
+          );
+        }),
+      ]);
+      this.handleLinkUp(key);
+    } catch (err: any) {
+      if (this.closing || health.state !== "down") return;
+      health.reconnectAttempts++;
+      health.lastError = err.message;
+      // Se aborta el intento antes del siguiente
+      try {
+        link.disconnect();
+      } catch {
+        // El enlace ya estaba cerrado
+      }
+      this.scheduleReconnect(key);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * KNXnet/IP servers only confirm tunnel frames locally while no bus link is registered.
+   * With a TPUART, USB or Tunneling link the confirmation of that link is forwarded instead.
+   */
+  private updateConfirmationDelegation() {
+    const links = Array.from(this.links.values());
+    const hasBusLink = links.some((l) => !(l instanceof KNXnetIPServer));
+    for (const link of links) {
+      if (link instanceof KNXnetIPServer) link.isConfirmationDelegated = hasBusLink;
+    }
   }
 
   /**
@@ -123,6 +370,16 @@ export class Router extends EventEmitter {
    */
   private processIncoming(cemi: CEMIInstance, source: KNXService, keySource: string | "TPUART" | "KNXUSB") {
     if (!("sourceAddress" in cemi)) return;
+    // Los enlaces de reserva siguen conectados, pero sus tramas no se enrutan
+    // Las tramas descartadas aquí no llegan a ningún enlace: un cliente de túnel recibe un L_Data.con negativo
+    if (!this.isRouting(keySource)) return this.confirmLocally(cemi, source, false);
+    const inbound = this.linkFilters.get(keySource)?.inbound;
+    if (inbound && "controlField2" in cemi) {
+      if (!inbound.passes(cemi.destinationAddress, cemi.controlField2.addressType === 1)) {
+        this.logger.debug({ link: keySource, dst: cemi.destinationAddress }, "Packet dropped by inbound link filter");
+        return this.confirmLocally(cemi, source, false);
+      }
+    }
     GroupAddressCache.getInstance().processCEMI(cemi);
 
     const src = cemi.sourceAddress;
@@ -132,16 +389,16 @@ export class Router extends EventEmitter {
     if (src && src !== "0.0.0") {
       if (src === this.routerAddress) {
         // We shouldn't receive a packet claiming to be us from the outside.
-        return;
+        return this.confirmLocally(cemi, source, false);
       }
       const existingLink = this.addressTable.get(src);
       if (existingLink && existingLink.key !== keySource) {
-        return; // Ignore packet from "wrong" interface
+        return this.confirmLocally(cemi, source, false); // Ignore packet from "wrong" interface
       }
     }
 
-    // 2. IA Learning
-    this.learnAddress(src, source, keySource);
+    // 2. IA Learning (a coupler routes by topology instead)
+    if (!this.coupler) this.learnAddress(src, source, keySource);
 
     // 3. Loop Prevention (knxd strict pattern)
 
@@ -152,18 +409,22 @@ export class Router extends EventEmitter {
     if (isRepeated) {
       if (this.recentDestinationAddress.has(destinationAddress)) {
         this.logger.debug({ signature: destinationAddress, src }, "Loop prevented: duplicated repeated frame dropped");
-        return; // Drop repeated packet we've recently seen on the bus
+        return this.confirmLocally(cemi, source, false); // Drop repeated packet we've recently seen on the bus
       }
     }
 
     // Always record the signature. If a loop occurs, the echoed packet will have
     // the repeat flag set to 0 (since it failed to ACK or was physically echoed),
     // and we will drop it next time.
-    if (this.recentDestinationAddress.size >= this.MAX_SIGNATURES_SIZE) {
-      const firstKey = this.recentDestinationAddress.keys().next().value;
-      if (firstKey !== undefined) this.recentDestinationAddress.delete(firstKey);
+    // With address translation the echo comes back with the address used on the other link, so every name of
+    // the destination is recorded
+    for (const signature of this.destinationSignatures(cemi, keySource)) {
+      if (this.recentDestinationAddress.size >= this.MAX_SIGNATURES_SIZE) {
+        const firstKey = this.recentDestinationAddress.keys().next().value;
+        if (firstKey !== undefined) this.recentDestinationAddress.delete(firstKey);
+      }
+      this.recentDestinationAddress.set(signature, Date.now());
     }
-    this.recentDestinationAddress.set(destinationAddress, Date.now());
 
     // 5. Route
     this.route(cemi, source, keySource);
@@ -189,29 +450,45 @@ export class Router extends EventEmitter {
           { src: data.sourceAddress, dst: data.destinationAddress },
           "Packet dropped: hop count reached 0",
         );
-        return; // Drop packet
+        return this.confirmLocally(data, source, false); // Drop packet
       }
       if (hops < 7) data.controlField2.hopCount = hops - 1;
     }
 
     const isGroup = data.controlField2?.addressType === 1;
     const dest = data.destinationAddress;
+    const isSourceIP = keySource.includes("IP");
 
     // If packet is destined for the router itself, consume it and don't route
     if (!isGroup && dest === this.routerAddress) {
       this.logger.debug({ src: data.sourceAddress }, "Packet consumed by router local address");
+      this.confirmLocally(data, source);
+      if (this.coupler && "TPDU" in data) this.handleCouplerManagement(data, source);
       this.emit("indication_link", { src: keySource, msg: data });
       return;
     }
 
+    if (this.coupler) {
+      this.routeCoupler(data, source, keySource, isGroup);
+      return;
+    }
+
     // Selective Routing (IA)
     if (!isGroup && dest && dest !== "0.0.0" && dest !== "15.15.255") {
       const target = this.addressTable.get(dest);
       if (target) {
-        if (target.key !== keySource) {
-          target.link.send(data).catch((err: any) => {
-            this.logger.debug({ target: target.key, err: err.message }, "Selective routing failed");
-          });
+        const frame = this.translateFrame(data, keySource, target.key);
+        const confirmations = this.collectConfirmations(data, source);
+        if (target.key === keySource) {
+          // The destination is on the link the frame came from, which already has it
+          confirmations.close(true);
+        } else if (
+          this.isRouting(target.key) &&
+          this.evaluateFilter(frame.destinationAddress, isGroup, isSourceIP, target.key)
+        ) {
+          confirmations.close(this.sendToLink(target.key, frame, source, data, confirmations));
+        } else {
+          confirmations.close(false);
         }
         // Send to upper layers (KNXnet/IP server core)
         this.emit("indication_link", { src: keySource, msg: data });
@@ -219,77 +496,239 @@ export class Router extends EventEmitter {
       }
       // If target is unknown, knxd broadcasts it to all interfaces
     }
-    const isSourceIP = keySource.includes("IP");
     // Flood to all links except source, respecting filters (knxd pattern)
-    for (const [key, link] of this.links) {
-      if (key === keySource) continue;
-
-      // Avoid looping back to the physical source address if known via another route
-      if (this.addressTable.get(data.sourceAddress)?.key === keySource) continue;
-
-      // Check if the link should filter this message
-      const shouldSend = this.evaluateFilter(dest, isGroup, isSourceIP);
+    const confirmations = this.collectConfirmations(data, source);
+    let delivered = false;
+    for (const key of this.links.keys()) {
+      if (key === keySource || !this.isRouting(key)) continue;
+
+      // Do not send a frame back to the link where its source address was learned. Comparing with the source
+      // link instead, as before, skipped every link: the source has just been learned on the source link.
+      if (this.addressTable.get(data.sourceAddress)?.key === key) continue;
+
+      // Check if the link should filter this message (with the addresses used on that link)
+      const frame = this.translateFrame(data, keySource, key);
+      const shouldSend = this.evaluateFilter(frame.destinationAddress, isGroup, isSourceIP, key);
       if (!shouldSend) continue;
 
       // Send to link
-      this.sendToLink(link, data);
+      delivered = this.sendToLink(key, frame, source, data, confirmations) || delivered;
     }
+    confirmations.close(delivered);
 
     // Notify upper layers
     this.emit("indication_link", { src: keySource, msg: data });
   }
 
   /**
-   * Evaluates if a message should be sent to a link based on configured filters.
-   * Logic: Skip if the policy is "discard all" and the address matches.
-   * Otherwise, send if the address is in the filter list or no filter exists.
+   * Coupler mode: links on the same side share the line and get every frame, frames to the other side
+   * follow the block/route/filter setting of the direction.
    */
-  private evaluateFilter(dest: string, isGroup: boolean, isSourceIP: boolean): boolean {
-    if (isSourceIP) {
-      return this.evaluateLocalFilter(dest, isGroup);
-    } else {
-      return this.evaluateIpFilter(dest, isGroup);
+  private routeCoupler(data: CEMIInstance, source: KNXService, keySource: string, isGroup: boolean) {
+    if (!("destinationAddress" in data)) return;
+    const dest = data.destinationAddress;
+    const fromMain = this.coupler!.isMainLink(keySource);
+    const crosses = this.coupler!.passes(dest, isGroup, fromMain);
+    const isSourceIP = keySource.includes("IP");
+    const confirmations = this.collectConfirmations(data, source);
+    let delivered = false;
+    for (const key of this.links.keys()) {
+      if (key === keySource || !this.isRouting(key)) continue;
+      if (this.coupler!.isMainLink(key) !== fromMain && !crosses) continue;
+      const frame = this.translateFrame(data, keySource, key);
+      if (!this.evaluateFilter(frame.destinationAddress, isGroup, isSourceIP, key)) continue;
+      delivered = this.sendToLink(key, frame, source, data, confirmations) || delivered;
     }
+    confirmations.close(delivered);
+    this.emit("indication_link", { src: keySource, msg: data });
   }
 
-  private evaluateLocalFilter(dest: string, isGroup: boolean): boolean {
-    if (isGroup) {
-      const filter = this.toLocalFilter?.groupAddress;
-      if (!filter?.addresses?.includes(dest)) return true;
-      return filter.groupAddressToLocalFilterPolicie !== "discard all";
-    } else {
-      const filter = this.toLocalFilter?.individualAddress;
-      if (!filter?.addresses?.includes(dest)) return true;
-      return filter.individualAddressToLocalFilterPolicie !== "discard all";
+  /**
+   * Management telegrams to the coupler address. Answers go back through the link they came from.
+   */
+  private handleCouplerManagement(data: CEMIInstance, source: KNXService) {
+    if (!("TPDU" in data)) return;
+    const peer = KNXHelper.GetAddress(data.sourceAddress, ".").readUInt16BE();
+    const changed = this.coupler!.handleManagement(peer, data.TPDU.toBuffer(), (tpdu) => {
+      // Los clientes del servidor KNXnet/IP reciben L_Data.ind, el resto de enlaces L_Data.req
+      const cemi = Buffer.alloc(9 + tpdu.length);
+      cemi[0] = source instanceof KNXnetIPServer ? 0x29 : 0x11;
+      cemi[2] = 0xb0; // Trama estándar, sin repetición, prioridad de sistema
+      cemi[3] = 0x60;
+      cemi.writeUInt16BE(this.coupler!.address, 4);
+      cemi.writeUInt16BE(peer, 6);
+      cemi[8] = tpdu.length - 1;
+      tpdu.copy(cemi, 9);
+      source.send(cemi).catch((err: any) => {
+        this.logger.debug({ link: source.constructor.name, err: err.message }, "Coupler management response failed");
+      });
+    });
+    if (changed) this.emit("filter_table_changed", { filterTable: this.coupler!.getFilterTable() });
+  }
+
+  /**
+   * A KNXnet/IP server waiting for a bus link to confirm a frame addressed to the router itself gets a
+   * positive L_Data.con, since no link will send it. Frames dropped by the Router (filters, loop prevention,
+   * links down) or by a link queue get a negative one.
+   */
+  private confirmLocally(data: CEMIInstance, source: KNXService, positive = true) {
+    if (!(source instanceof KNXnetIPServer) || !source.isConfirmationDelegated) return;
+    const buffer = data.toBuffer();
+    buffer[0] = 0x2e; // L_Data.con
+    if (positive) buffer[2 + buffer[1]] &= 0xfe;
+    else buffer[2 + buffer[1]] |= 0x01;
+    source.handleLinkConfirmation(CEMI.fromBuffer(buffer) as LDataConfirmation);
+  }
+
+  /**
+   * Combines the confirmations of the bus links a tunnel frame is routed to. The client gets one L_Data.con:
+   * positive when every link confirmed the frame, negative when any of them did not (or dropped it). When no
+   * bus link got the frame, `close()` confirms at once with the result it is given. The KNXnet/IP server only
+   * falls back to a negative confirmation after `confirmationTimeout` if nothing answers at all.
+   */
+  private collectConfirmations(original: CEMIInstance, source: KNXService): LinkConfirmations {
+    let expected = 0;
+    let reported = 0;
+    let positive = true;
+    let closed = false;
+    const settle = () => {
+      if (closed && reported === expected) this.confirmLocally(original, source, positive);
+    };
+    return {
+      expect: () => {
+        expected++;
+        let done = false;
+        return (ok: boolean) => {
+          if (done) return;
+          done = true;
+          reported++;
+          positive &&= ok;
+          settle();
+        };
+      },
+      close: (delivered: boolean) => {
+        closed = true;
+        if (expected === 0) positive = delivered;
+        settle();
+      },
+    };
+  }
+
+  /**
+   * Frame as seen on `keyTarget`: a copy with the addresses rewritten when a translation of the pair of links
+   * applies, otherwise the same frame.
+   */
+  private translateFrame(data: LDataFrame, keySource: string, keyTarget: string): LDataFrame {
+    const translation = this.translations.find((t) => t.appliesTo(keySource, keyTarget));
+    if (!translation) return data;
+    const destinationAddress = translation.translate(
+      data.destinationAddress,
+      data.controlField2.addressType === 1,
+      keySource,
+    );
+    const sourceAddress = translation.translate(data.sourceAddress, false, keySource);
+    if (destinationAddress === data.destinationAddress && sourceAddress === data.sourceAddress) return data;
+    return Object.assign(Object.create(Object.getPrototypeOf(data)), data, { destinationAddress, sourceAddress });
+  }
+
+  /**
+   * Destination of a frame and its translations on the links paired with `keySource`
+   */
+  private destinationSignatures(data: LDataFrame, keySource: string): Set<string> {
+    const signatures = new Set([data.destinationAddress]);
+    for (const translation of this.translations) {
+      if (!translation.links.includes(keySource)) continue;
+      signatures.add(translation.translate(data.destinationAddress, data.controlField2.addressType === 1, keySource));
     }
+    return signatures;
+  }
+
+  /**
+   * Evaluates if a message should be sent to a link based on configured filters.
+   * Logic: the direction filter (to local or to IP) and the outbound filter of the link must both let it pass.
+   * "accept only" sends only the listed addresses, "discard all" skips them.
+   */
+  private evaluateFilter(dest: string, isGroup: boolean, isSourceIP: boolean, linkKey: string): boolean {
+    const passes = isSourceIP ? this.evaluateLocalFilter(dest, isGroup) : this.evaluateIpFilter(dest, isGroup);
+    return passes && (this.linkFilters.get(linkKey)?.outbound.passes(dest, isGroup) ?? true);
+  }
+
+  private evaluateLocalFilter(dest: string, isGroup: boolean): boolean {
+    return this.compiledToLocalFilter.passes(dest, isGroup);
   }
 
   private evaluateIpFilter(dest: string, isGroup: boolean): boolean {
-    if (isGroup) {
-      const filter = this.toIPFilter?.groupAddress;
-      if (!filter?.addresses?.includes(dest)) return true;
-      return filter.groupAddressToIpFilterPolicie !== "discard all";
-    } else {
-      const filter = this.toIPFilter?.individualAddress;
-      if (!filter?.addresses?.includes(dest)) return true;
-      return filter.individualAddressToIpFilterPolicie !== "discard all";
-    }
+    return this.compiledToIPFilter.passes(dest, isGroup);
   }
 
   /**
-   * Sends data to a link with error handling.
+   * Sends data to a link through its outbound queue, with error handling.
+   * Frames of a tunnel client are sent as L_Data.req with `sendConfirmed()` and their result is reported to
+   * `confirmations`, so the KNXnet/IP server can pass the real confirmation (positive or negative) back to
+   * the client.
+   * @param original Frame as received, when `data` is its translation for this link
+   * @returns false when the link is not registered and nothing was queued
    */
-  private sendToLink(link: KNXService, data: CEMIInstance): void {
-    link.send(data).catch((err: any) => {
-      this.logger.debug({ link: link.constructor.name, err: err.message }, "Flooding routing failed for link");
-    });
+  private sendToLink(
+    key: string,
+    data: CEMIInstance,
+    source: KNXService,
+    original: CEMIInstance,
+    confirmations: LinkConfirmations,
+  ): boolean {
+    const link = this.links.get(key);
+    const queue = this.linkQueues.get(key);
+    if (!link || !queue || !("controlField1" in data)) return false;
+    const logDrop = () =>
+      this.logger.debug(
+        { link: key, dst: "destinationAddress" in data ? data.destinationAddress : undefined },
+        "Frame dropped by link queue",
+      );
+    if (
+      source instanceof KNXnetIPServer &&
+      source.isConfirmationDelegated &&
+      !(link instanceof KNXnetIPServer) &&
+      "TPDU" in data
+    ) {
+      const request = new CEMI.DataLinkLayerCEMI["L_Data.req"](
+        null,
+        data.controlField1,
+        data.controlField2,
+        data.sourceAddress,
+        data.destinationAddress,
+        data.TPDU,
+      );
+      const report = confirmations.expect();
+      const send = () =>
+        link
+          .sendConfirmed(request)
+          .then((con) => report(!con.controlField1.confirm))
+          .catch((err: any) => {
+            report(false);
+            this.logger.debug({ link: link.constructor.name, err: err.message }, "Confirmed routing failed for link");
+            throw err;
+          });
+      queue.push(data.controlField1.priority, send, () => {
+        logDrop();
+        report(false);
+      });
+      return true;
+    }
+    const send = () =>
+      link.send(data).catch((err: any) => {
+        this.logger.debug({ link: link.constructor.name, err: err.message }, "Flooding routing failed for link");
+        throw err;
+      });
+    queue.push(data.controlField1.priority, send, logDrop);
+    return true;
   }
 
   /**
-   * Broadcasts a CEMI message to all registered links.
+   * Broadcasts a CEMI message to all links that are up.
    */
   public async send(cemi: CEMIInstance): Promise<void> {
-    const promises = Array.from(this.links.entries()).map(async ([key, link]) => {
+    const routing = Array.from(this.links.entries()).filter(([key]) => this.isRouting(key));
+    const promises = routing.map(async ([key, link]) => {
       try {
         await link.send(cemi);
       } catch (err: any) {
@@ -380,12 +819,36 @@ export class Router extends EventEmitter {
     }
   }
 
+  /**
+   * Connects every link. With `linkReconnect` the links that fail are retried in the background,
+   * otherwise the first error is thrown.
+   */
   async connect(): Promise<void> {
-    await Promise.all(Array.from(this.links.values()).map((link) => link.connect()));
+    this.closing = false;
+    const results = await Promise.allSettled(
+      Array.from(this.links, async ([key, link]) => {
+        try {
+          await link.connect();
+          this.handleLinkUp(key);
+        } catch (err: any) {
+          this.handleLinkDown(key, err);
+          throw err;
+        }
+      }),
+    );
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed && !this.linkReconnect?.enabled) throw failed.reason;
   }
 
   disconnect(): void {
+    this.closing = true;
+    for (const health of this.linkHealth.values()) {
+      if (health.timer) clearTimeout(health.timer);
+      health.timer = null;
+    }
+    this.linkQueues.forEach((queue) => queue.clear());
     clearInterval(this.gcInterval);
+    this.coupler?.close();
     this.links.forEach((l) => l.disconnect());
   }
 }
@@ -1,10 +1,11 @@
 import { SerialPort } from "serialport";
-import { KNXService } from "./KNXService";
+import { KNXService, LDataConfirmation } from "./KNXService";
 import { TPUARTOptions } from "../@types/interfaces/connection";
 import { CEMIAdapter } from "../utils/CEMIAdapter";
 import { KNXHelper } from "../utils/KNXHelper";
 import { CEMI, CEMIInstance } from "../core/CEMI";
 import { GroupAddressCache } from "../core/cache/GroupAddressCache";
+import { ConfirmationTimeoutError, NegativeConfirmationError, TransmitError } from "../errors/ConfirmationErrors";
 
 const UART_SERVICES = {
   RESET_REQ: 0x01,
@@ -65,10 +66,6 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
     });
 
     this.receiver = new Receiver(this);
-    this.serialPort.on("data", (data) => this.receiver.handleData(data));
-    this.serialPort.on("error", (err) => {
-      this.handleFatalError(err);
-    });
 
     this.on("raw_frame", (frame: Buffer) => {
       // 1. Echo Cancellation (knxd pattern: ignore repeat bit 0x20)
@@ -110,7 +107,8 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
           this.emit("busmonitor", cemi);
         } else {
           const emiBuffer = Buffer.concat([Buffer.from([0x29]), frame]);
-          const cemi = CEMIAdapter.emiToCemi(emiBuffer);
+          const parsed = CEMIAdapter.emiToCemi(emiBuffer);
+          const cemi = parsed ? this.unsecureIndication(parsed) : null;
           if (cemi) {
             this.emit("indication", cemi);
             if (!this.isCacheDelegated && "destinationAddress" in cemi && "sourceAddress" in cemi) {
@@ -135,6 +133,40 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
     });
   }
 
+  private readonly onSerialData = (data: Buffer) => this.receiver.handleData(data);
+  private readonly onSerialError = (err: Error) => this.handleFatalError(err);
+  // Cierre inesperado del puerto (adaptador desenchufado); disconnect() ya deja el estado en DISCONNECTED
+  private readonly onSerialClose = () => {
+    if (this.connectionState === TPUARTState.DISCONNECTED) return;
+    this.connectionState = TPUARTState.DISCONNECTED;
+    this.isOpening = false;
+    // Primero el aviso, con los listeners (el Router) todavía conectados
+    this.emit("disconnected");
+    this.stopTimers();
+    while (this.msgQueue.length > 0) {
+      this.msgQueue.shift()?.reject(new Error("Serial port closed"));
+    }
+    this.isProcessing = false;
+    this.detachSerialPort();
+  };
+
+  /**
+   * Listens to the serial port. Attached on every connect() and detached when the port closes,
+   * so the listeners of this connection (the Router's included) survive a reconnect.
+   */
+  private attachSerialPort() {
+    this.detachSerialPort();
+    this.serialPort.on("data", this.onSerialData);
+    this.serialPort.on("error", this.onSerialError);
+    this.serialPort.on("close", this.onSerialClose);
+  }
+
+  private detachSerialPort() {
+    this.serialPort.off("data", this.onSerialData);
+    this.serialPort.off("error", this.onSerialError);
+    this.serialPort.off("close", this.onSerialClose);
+  }
+
   private handleFatalError(err: any) {
     this.stopTimers();
     this.connectionState = TPUARTState.ERROR;
@@ -154,7 +186,6 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
     this.keepaliveTimer = null;
     this.confirmationTimer = null;
     this.initTimer = null;
-    this.removeAllListeners();
   }
 
   private resetKeepalive() {
@@ -182,10 +213,12 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
           reject(e);
         },
       };
+      this.attachSerialPort();
       this.serialPort.open(async (err) => {
         if (err) {
           this.initPromise = null;
           this.isOpening = false;
+          this.detachSerialPort();
           reject(err);
           return;
         }
@@ -229,10 +262,12 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
     return new Promise((resolve) => {
       if (this.serialPort.isOpen) {
         this.serialPort.close(() => {
+          this.detachSerialPort();
           this.emit("disconnected");
           resolve();
         });
       } else {
+        this.detachSerialPort();
         resolve();
       }
     });
@@ -255,6 +290,13 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
   }
 
   async send(data: Buffer | CEMIInstance): Promise<void> {
+    return this.enqueueFrame(this.toFrame(data));
+  }
+
+  /**
+   * EMI frame of the data to send. Updates the cache and emits the events of a sent telegram.
+   */
+  private toFrame(data: Buffer | CEMIInstance): Buffer {
     if (this.connectionState < TPUARTState.ONLINE) throw new Error("TPUART offline");
 
     let cemiObj: CEMIInstance | undefined = undefined;
@@ -286,7 +328,54 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
     const frame = Buffer.isBuffer(data) ? data : CEMIAdapter.cemiToEmi(data)?.toBuffer();
     if (!frame) throw new Error("Invalid data");
     this.emit("send", data);
-    return this.enqueueFrame(frame);
+    return frame;
+  }
+
+  /**
+   * Raw buffers are sent as EMI frames, so they are parsed the same way for `sendConfirmed()`.
+   */
+  protected toLDataFrame(data: Buffer | CEMIInstance) {
+    if (Buffer.isBuffer(data)) {
+      const cemi = CEMIAdapter.emiToCemi(data);
+      if (!cemi || !("TPDU" in cemi)) throw new Error("sendConfirmed() requires an L_Data frame");
+      return cemi;
+    }
+    return super.toLDataFrame(data);
+  }
+
+  /**
+   * Send a telegram and resolve with the L_Data.con derived from the TP-UART confirmation service
+   * (LDATA_CON_POS / LDATA_CON_NEG). A NAK or a busy bus after the retries rejects with
+   * NegativeConfirmationError, as a negative L_Data.con does on the other interfaces. A frame still waiting
+   * in the queue when `timeout` expires is removed from it; one already on the bus is left to finish, so its
+   * confirmation is not taken for the next frame.
+   * @param data An EMI L_Data.req buffer (the format of `send()` on TP-UART) or an instance of a CEMI message
+   * @param timeout Time in milliseconds to wait for the confirmation (default 3000)
+   */
+  public async sendConfirmed(data: Buffer | CEMIInstance, timeout: number = 3000): Promise<LDataConfirmation> {
+    const request = this.toLDataFrame(data);
+    const frame = this.toFrame(data);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const item = { frame, resolve, reject, attempts: 0 };
+        timer = setTimeout(() => {
+          const index = this.msgQueue.indexOf(item);
+          if (index > 0 || (index === 0 && !this.isProcessing)) this.msgQueue.splice(index, 1);
+          reject(new ConfirmationTimeoutError(request.destinationAddress, timeout));
+        }, timeout);
+        this.msgQueue.push(item);
+        this.processQueue();
+      });
+      return this.buildConfirmation(request, false);
+    } catch (err) {
+      if (!(err instanceof TransmitError)) throw err;
+      if (err.failure === "TIMEOUT") throw new ConfirmationTimeoutError(request.destinationAddress, timeout);
+      throw new NegativeConfirmationError(this.buildConfirmation(request, true));
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private async enqueueFrame(frame: Buffer): Promise<void> {
@@ -320,7 +409,7 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
         this.processQueue();
       } else {
         this.msgQueue.shift();
-        item.reject(new Error("TPUART confirmation timeout"));
+        item.reject(new TransmitError("TPUART confirmation timeout", "TIMEOUT"));
         this.processQueue();
       }
     }, 2000);
@@ -409,7 +498,7 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
         this.msgQueue.shift();
         this.isProcessing = false;
         this.lastSentFrame = null;
-        item.reject(new Error("Bus Busy"));
+        item.reject(new TransmitError("Bus Busy", "BUSY"));
         this.processQueue();
       }
       return;
@@ -421,7 +510,7 @@ export class TPUARTConnection extends KNXService<TPUARTOptions> {
       if (item && byte === UART_SERVICES.LDATA_CON_POS) {
         item.resolve();
       } else if (item) {
-        item.reject(new Error("NAK"));
+        item.reject(new TransmitError("NAK", "NAK"));
       }
       this.processQueue();
       return;
@@ -0,0 +1,129 @@
+import { ConnectionType, KNXLayer, KNXnetIPErrorCodes } from "../core/enum/KNXnetIPEnum";
+import { KNXHelper } from "../utils/KNXHelper";
+import { InvalidKnxAddressException } from "../errors/InvalidKnxAddresExeption";
+import { KNXTunnelAdmissionOptions, KNXTunnelLayerName } from "../@types/interfaces/connection";
+
+interface HostRange {
+  network: number;
+  prefix: number;
+}
+
+const LAYER_NAMES: Record<KNXTunnelLayerName, KNXLayer> = {
+  link: KNXLayer.LINK_LAYER,
+  busmonitor: KNXLayer.BUSMONITOR_LAYER,
+  raw: KNXLayer.RAW_LAYER,
+};
+
+/**
+ * Admission rules of the tunnelling and management connections of a KNXnetIPServer
+ * (see KNXTunnelAdmissionOptions). Invalid rules throw when the server is created.
+ */
+export class TunnelAdmission {
+  private readonly allow: HostRange[] | null;
+  private readonly deny: HostRange[];
+  private readonly maxConnectionsPerIp: number;
+  private readonly pinned = new Map<string, number>();
+  private readonly layers: { range: HostRange; layers: KNXLayer[] }[] = [];
+
+  constructor(options: KNXTunnelAdmissionOptions = {}) {
+    this.allow = options.allow ? options.allow.map(parseHostRange) : null;
+    this.deny = (options.deny ?? []).map(parseHostRange);
+    this.maxConnectionsPerIp = options.maxConnectionsPerIp ?? Infinity;
+    for (const [host, address] of Object.entries(options.pinnedAddresses ?? {})) {
+      if (parseHostRange(host).prefix !== 32) throw new Error(`Pinned address host must be a single IP: ${host}`);
+      if (!KNXHelper.isValidIndividualAddress(address)) {
+        throw new InvalidKnxAddressException(`This ${address} is not individual address`);
+      }
+      this.pinned.set(host, KNXHelper.GetAddress(address, ".").readUInt16BE());
+    }
+    for (const [host, names] of Object.entries(options.layers ?? {})) {
+      this.layers.push({
+        range: parseHostRange(host),
+        layers: names.map((name) => {
+          if (!(name in LAYER_NAMES)) throw new Error(`Unknown tunnelling layer "${name}" for ${host}`);
+          return LAYER_NAMES[name];
+        }),
+      });
+    }
+    // La regla más específica gana
+    this.layers.sort((a, b) => b.range.prefix - a.range.prefix);
+  }
+
+  /**
+   * Checks a CONNECT_REQUEST against the rules.
+   * @param openConnections Connections already open from the same IP
+   * @returns null when it is admitted, otherwise the error code of the CONNECT_RESPONSE and the reason
+   */
+  check(
+    ip: string,
+    connectionType: ConnectionType,
+    knxLayer: KNXLayer,
+    openConnections: number,
+  ): { status: KNXnetIPErrorCodes; reason: string } | null {
+    const address = ipToNumber(ip);
+    if (address === null) return { status: KNXnetIPErrorCodes.E_HOST_PROTOCOL_TYPE, reason: "Not an IPv4 client" };
+    if (this.deny.some((range) => inRange(address, range))) {
+      return { status: KNXnetIPErrorCodes.E_NO_MORE_CONNECTIONS, reason: "Host denied" };
+    }
+    if (this.allow && !this.allow.some((range) => inRange(address, range))) {
+      return { status: KNXnetIPErrorCodes.E_NO_MORE_CONNECTIONS, reason: "Host not allowed" };
+    }
+    if (openConnections >= this.maxConnectionsPerIp) {
+      return {
+        status: KNXnetIPErrorCodes.E_NO_MORE_CONNECTIONS,
+        reason: `Limit of ${this.maxConnectionsPerIp} connections per host reached`,
+      };
+    }
+    if (connectionType === ConnectionType.TUNNEL_CONNECTION) {
+      const rule = this.layers.find(({ range }) => inRange(address, range));
+      if (rule && !rule.layers.includes(knxLayer)) {
+        return {
+          status: KNXnetIPErrorCodes.E_TUNNELLING_LAYER,
+          reason: `Layer 0x${knxLayer.toString(16)} not allowed`,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Individual address pinned to a client IP, if any
+   */
+  pinnedAddress(ip: string): number | undefined {
+    return this.pinned.get(ip);
+  }
+
+  /**
+   * True when `address` is pinned to a host other than `ip`, so it must not be handed out to `ip`
+   */
+  isReservedFor(address: number, ip: string): boolean {
+    for (const [host, pinned] of this.pinned) {
+      if (pinned === address && host !== ip) return true;
+    }
+    return false;
+  }
+}
+
+function ipToNumber(ip: string): number | null {
+  const octets = ip.split(".");
+  if (octets.length !== 4 || octets.some((octet) => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) return null;
+  return octets.reduce((acc, octet) => ((acc << 8) | Number(octet)) >>> 0, 0);
+}
+
+/**
+ * "192.168.1.20" or "192.168.1.0/24"
+ */
+function parseHostRange(host: string): HostRange {
+  const [ip, prefixText, ...rest] = host.split("/");
+  const network = ipToNumber(ip);
+  const prefix = prefixText === undefined ? 32 : Number(prefixText);
+  if (network === null || rest.length || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new Error(`Invalid IP or CIDR range: ${host}`);
+  }
+  return { network, prefix };
+}
+
+function inRange(address: number, { network, prefix }: HostRange): boolean {
+  const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  return (address & mask) >>> 0 === (network & mask) >>> 0;
+}
@@ -1,7 +1,9 @@
 import dgram from "dgram";
+import net from "net";
 import { HPAI } from "../core/KNXnetIPStructures";
 import { KNXnetIPHeader } from "../core/KNXnetIPHeader";
-import { KNXnetIPServiceType, KNXnetIPErrorCodes, KNXLayer } from "../core/enum/KNXnetIPEnum";
+import { KNXnetIPServiceType, KNXnetIPErrorCodes, KNXLayer, ConnectionType } from "../core/enum/KNXnetIPEnum";
+import { KNXTunnelSession } from "../@types/interfaces/connection";
 
 import { Logger } from "pino";
 
@@ -9,6 +11,7 @@ import { Logger } from "pino";
  * Encapsulates a single KNXnet/IP Tunnelling or Management connection state.
  * Handles sequence numbers, heartbeats, reliable delivery (stop-and-wait),
  * and retransmissions according to KNX Spec Vol 3/8/4.
+ * Over TCP the stream is already reliable: requests are written without TUNNELLING_ACK or retransmissions.
  *
  * ***Don't use this for connect a KNX device. Use KNXTunneling instead.***
  */
@@ -32,6 +35,12 @@ export class TunnelConnection {
   public lastRxTime: number = Date.now();
   private logger: Logger;
 
+  // Estadísticas de la sesión
+  public readonly connectedAt = new Date();
+  private rxFrames: number = 0;
+  private txFrames: number = 0;
+  private retransmissions: number = 0;
+
   constructor(
     public readonly channelId: number,
     public readonly controlHPAI: HPAI,
@@ -39,17 +48,25 @@ export class TunnelConnection {
     public readonly knxAddress: number,
     public readonly knxAddressStr: string,
     public readonly knxLayer: KNXLayer,
-    private readonly socket: dgram.Socket,
+    private readonly socket: dgram.Socket | net.Socket,
     private readonly heartbeatTimeoutMs: number,
     private readonly retransmitTimeoutMs: number,
     private readonly maxQueueSize: number,
     private readonly onDisconnect: (channelId: number, sendDisconnect: boolean) => void,
     parentLogger: Logger,
+    public readonly connectionType: ConnectionType = ConnectionType.TUNNEL_CONNECTION,
   ) {
     this.logger = parentLogger.child({ channelId, IA: knxAddressStr });
     this.resetHeartbeat();
   }
 
+  /**
+   * TCP stream that carries the connection, null for UDP
+   */
+  public get stream(): net.Socket | null {
+    return this.socket instanceof net.Socket ? this.socket : null;
+  }
+
   /**
    * Resets the heartbeat timer. Should be called on any valid activity.
    */
@@ -96,8 +113,23 @@ export class TunnelConnection {
   private sendWithRetry(packet: Buffer, seq: number, isRetransmission: boolean): void {
     if (!this.socket) return;
 
+    if (this.socket instanceof net.Socket) {
+      // TCP: sin TUNNELLING_ACK, la siguiente petición sale en cuanto el stream la acepta
+      if (this.socket.destroyed) return;
+      const next = () => {
+        this.isSending = false;
+        this.processQueue();
+      };
+      this.txFrames++;
+      if (this.socket.write(packet)) next();
+      else this.socket.once("drain", next);
+      return;
+    }
+
     try {
       this.socket.send(packet, this.dataHPAI.port, this.dataHPAI.ipAddress);
+      if (isRetransmission) this.retransmissions++;
+      else this.txFrames++;
     } catch (err: any) {
       this.logger.error(`Failed to send packet to ${this.dataHPAI.ipAddress}: ${err.message}`);
       this.onDisconnect(this.channelId, false);
@@ -152,9 +184,17 @@ export class TunnelConnection {
   public validateRequest(seq: number): { action: "process" | "discard" | "retransmit_ack"; status: number } {
     this.resetHeartbeat();
 
+    if (this.stream) {
+      // TCP entrega en orden y sin duplicados: el contador solo se sigue
+      this.rno = (seq + 1) % 256;
+      this.rxFrames++;
+      return { action: "process", status: KNXnetIPErrorCodes.E_NO_ERROR };
+    }
+
     if (seq === this.rno) {
       // Expected sequence number
       this.rno = (this.rno + 1) % 256;
+      this.rxFrames++;
       return { action: "process", status: KNXnetIPErrorCodes.E_NO_ERROR };
     } else if (seq === (this.rno - 1 + 256) % 256) {
       // Previous sequence number (retransmit ACK)
@@ -166,6 +206,25 @@ export class TunnelConnection {
     }
   }
 
+  /**
+   * Snapshot of the session for the administration API of the server.
+   */
+  public getSession(): KNXTunnelSession {
+    return {
+      channelId: this.channelId,
+      connectionType: this.connectionType,
+      controlEndpoint: { ipAddress: this.controlHPAI.ipAddress, port: this.controlHPAI.port },
+      dataEndpoint: { ipAddress: this.dataHPAI.ipAddress, port: this.dataHPAI.port },
+      individualAddress: this.knxAddressStr,
+      knxLayer: this.knxLayer,
+      connectedAt: this.connectedAt,
+      rxFrames: this.rxFrames,
+      txFrames: this.txFrames,
+      retransmissions: this.retransmissions,
+      queueDepth: this.queue.length,
+    };
+  }
+
   /**
    * Closes the connection and cleans up resources.
    */
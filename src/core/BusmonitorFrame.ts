@@ -0,0 +1,87 @@
+import { KNXBusmonitorFrame } from "../@types/interfaces/connection";
+import { StatusValues } from "../@types/interfaces/SystemStatus";
+import { CEMI } from "./CEMI";
+import { BusmonitorStatusInfo, ExtendedRelativeTimestamp, TimestampRelative } from "./KNXAddInfoTypes";
+import { ShortAckCode } from "./enum/EnumShortACKFrame";
+import { Priority } from "./enum/EnumControlField";
+import { KNXHelper } from "../utils/KNXHelper";
+
+const ACKNOWLEDGEMENTS: Record<number, KNXBusmonitorFrame["acknowledgement"]> = {
+  [ShortAckCode.ACK]: "ACK",
+  [ShortAckCode.NAK]: "NAK",
+  [ShortAckCode.BUSY]: "BUSY",
+  [ShortAckCode.NAK_BUSY]: "NAK_BUSY",
+};
+
+/**
+ * Decodes an L_Busmon.ind cEMI frame: additional info (status and timestamp) and the TP1 frame it carries.
+ * @throws Error when the buffer is not an L_Busmon.ind
+ */
+export function decodeBusmonitorFrame(cemiBuffer: Buffer): KNXBusmonitorFrame {
+  const busmon = CEMI.DataLinkLayerCEMI["L_Busmon.ind"].fromBuffer(cemiBuffer);
+  let status: StatusValues | null = null;
+  let timestamp: number | null = null;
+  for (const item of busmon.additionalInfo.items) {
+    if (item instanceof BusmonitorStatusInfo) {
+      const { frameError, bitError, parityError, overflow, lost, sequenceNumber } = item.status;
+      status = {
+        frameError,
+        bitError,
+        parityError,
+        overflow,
+        lost,
+        sequenceNumber: sequenceNumber as StatusValues["sequenceNumber"],
+      };
+    } else if (item instanceof TimestampRelative || item instanceof ExtendedRelativeTimestamp) {
+      timestamp = item.timestamp;
+    }
+  }
+  return { ...decodeTP1Frame(Buffer.from(busmon.data)), status, timestamp };
+}
+
+/**
+ * Decodes a TP1 frame (check octet included) as seen by a busmonitor
+ */
+export function decodeTP1Frame(raw: Buffer): Omit<KNXBusmonitorFrame, "status" | "timestamp"> {
+  // Los acuse cortos son un solo octeto sin octeto de control
+  if (raw.length === 1) {
+    const acknowledgement = ACKNOWLEDGEMENTS[raw[0]];
+    return acknowledgement
+      ? { raw, checksumValid: true, frameFormat: "acknowledgement", acknowledgement }
+      : { raw, checksumValid: true, frameFormat: "unknown" };
+  }
+
+  let parity = 0;
+  for (const octet of raw) parity ^= octet;
+  const checksumValid = raw.length > 0 && parity === 0xff;
+
+  const control = raw[0];
+  // Standard: 10r1pp00, extended: 00r1pp00
+  const frameFormat = (control & 0xd3) === 0x90 ? "standard" : (control & 0xd3) === 0x10 ? "extended" : "unknown";
+  const headerLength = frameFormat === "standard" ? 6 : 7;
+  if (frameFormat === "unknown" || raw.length < headerLength + 2) {
+    return { raw, checksumValid, frameFormat: "unknown" };
+  }
+
+  // En la trama extendida AT, hop count y EFF van en el octeto de control extendido
+  const routing = frameFormat === "standard" ? raw[5] : raw[1];
+  const addressOffset = frameFormat === "standard" ? 1 : 2;
+  const length = frameFormat === "standard" ? raw[5] & 0x0f : raw[6];
+  const addressType = routing & 0x80 ? "group" : "individual";
+  return {
+    raw,
+    checksumValid,
+    frameFormat,
+    repeated: (control & 0x20) === 0,
+    priority: ((control >> 2) & 0x03) as Priority,
+    sourceAddress: KNXHelper.GetAddress(raw.subarray(addressOffset, addressOffset + 2), "."),
+    destinationAddress: KNXHelper.GetAddress(
+      raw.subarray(addressOffset + 2, addressOffset + 4),
+      addressType === "group" ? "/" : ".",
+    ),
+    addressType,
+    hopCount: (routing >> 4) & 0x07,
+    // LG cuenta los octetos del APDU, el TPCI va aparte
+    tpdu: Buffer.from(raw.subarray(headerLength, Math.min(headerLength + length + 1, raw.length - 1))),
+  };
+}
@@ -104,10 +104,8 @@ export class AdditionalInformationField implements DescribeEstructure {
       }
 
       // 3. Extraer el bloque completo (Type + Len + Data) para pasarlo a las clases específicas
-      // NOTA: Tus clases en KNXAddInfoTypes deben saber parsearse a sí mismas, idealmente con un método estático fromBuffer
-      // o un constructor que acepte el payload. Asumo aquí que pasamos la data pura.
-
-      const dataSubset = buffer.subarray(offset + 2, offset + 2 + len);
+      // [MEJORA] Los constructores de KNXAddInfoTypes validan Type y Len, así que necesitan el bloque entero
+      const dataSubset = buffer.subarray(offset, offset + totalBlockSize);
 
       let item: AddInfoBase | null = null;
 
@@ -931,7 +929,8 @@ export class CEMI {
           addInfo = AdditionalInformationField.fromBuffer(buffer.subarray(2, baseOffset));
         }
         const data = buffer.subarray(baseOffset);
-        const addInfoData = addInfo?.items ?? null;
+        // Sin AddInfo no se rellenan el status y el timestamp por defecto del constructor
+        const addInfoData = addInfo?.items ?? [];
         return new L_Busmon_ind(addInfoData, data);
       }
     },
@@ -1098,7 +1097,7 @@ export class CEMI {
         const propertyId = buffer.readUInt8(4);
         const byte5 = buffer.readUInt16BE(5);
         const startIndex = byte5 & 0x0fff;
-        const numberOfElements = byte5 & 0xf000;
+        const numberOfElements = (byte5 & 0xf000) >> 12;
 
         return new M_PropRead_req(interfaceObjectType, objectInstance, propertyId, numberOfElements, startIndex);
       }
@@ -1161,8 +1160,8 @@ export class CEMI {
         const propertyId = buffer.readUInt8(4);
         const byte5 = buffer.readUInt16BE(5);
         const startIndex = byte5 & 0x0fff;
-        const numberOfElements = byte5 & 0xf000;
-        const data = buffer.subarray(7, buffer.length - 1);
+        const numberOfElements = (byte5 & 0xf000) >> 12;
+        const data = buffer.subarray(7);
 
         return new M_PropRead_con(interfaceObjectType, objectInstance, propertyId, numberOfElements, startIndex, data);
       }
@@ -1229,8 +1228,8 @@ export class CEMI {
         const propertyId = buffer.readUInt8(4);
         const byte5 = buffer.readUInt16BE(5);
         const startIndex = byte5 & 0x0fff;
-        const numberOfElements = byte5 & 0xf000;
-        const data = buffer.subarray(7, buffer.length - 1);
+        const numberOfElements = (byte5 & 0xf000) >> 12;
+        const data = buffer.subarray(7);
 
         return new M_PropWrite_req(interfaceObjectType, objectInstance, propertyId, numberOfElements, startIndex, data);
       }
@@ -1262,13 +1261,14 @@ export class CEMI {
       errorInfo: number;
 
       toBuffer(): Buffer {
-        const buffer = Buffer.alloc(8);
+        // La confirmación positiva no lleva datos, la negativa (NoE = 0) lleva el código de error
+        const buffer = Buffer.alloc(this.numberOfElements === 0 ? 8 : 7);
         buffer.writeUInt8(this.messageCode, 0);
         buffer.writeUInt16BE(this.interfaceObjectType, 1);
         buffer.writeUInt8(this.objectInstance, 3);
         buffer.writeUInt8(this.propertyId, 4);
         buffer.writeUInt16BE((this.startIndex & 0x0fff) | ((this.numberOfElements & 0x0f) << 12), 5);
-        buffer.writeUint8(this.errorInfo, 7);
+        if (this.numberOfElements === 0) buffer.writeUint8(this.errorInfo, 7);
         return buffer;
       }
 
@@ -1294,8 +1294,9 @@ export class CEMI {
         const propertyId = buffer.readUInt8(4);
         const byte5 = buffer.readUInt16BE(5);
         const startIndex = byte5 & 0x0fff;
-        const numberOfElements = byte5 & 0xf000;
-        const errorInfo = buffer.subarray(7).readUint8();
+        const numberOfElements = (byte5 & 0xf000) >> 12;
+        // Solo la confirmación negativa (NoE = 0) lleva el código de error
+        const errorInfo = buffer.length > 7 ? buffer.readUint8(7) : 0;
 
         return new M_PropWrite_con(
           interfaceObjectType,
@@ -1372,7 +1373,7 @@ export class CEMI {
         const propertyId = buffer.readUInt8(4);
         const byte5 = buffer.readUInt16BE(5);
         const startIndex = byte5 & 0x0fff;
-        const numberOfElements = byte5 & 0xf000;
+        const numberOfElements = (byte5 & 0xf000) >> 12;
         const data = buffer.subarray(7);
 
         return new M_PropInfo_ind(interfaceObjectType, objectInstance, propertyId, numberOfElements, startIndex, data);
@@ -0,0 +1,166 @@
+import { ErrorCodeSet } from "./enum/ErrorCodeSet";
+import { DevicePropertyId, PropertyDataType } from "./enum/InterfaceObjectEnum";
+import { PropertyAccessError } from "../errors/ManagementErrors";
+
+/**
+ * Property of an interface object. The value is read through `get` on every access, so it can
+ * reflect the live state of the device.
+ */
+export interface PropertyDefinition {
+  propertyId: number;
+  type: PropertyDataType;
+  /** Octets of one element */
+  elementSize: number;
+  /** Maximum number of elements (array properties). Defaults to 1 */
+  maxElements?: number;
+  /** Read level (bits 7..4) and write level (bits 3..0) of the description. Defaults to 0x00 (free access) */
+  accessLevel?: number;
+  /** Current value, all elements in a row */
+  get: () => Buffer;
+  /**
+   * Applies a new value (all elements in a row). Without it the property is read only.
+   * Throw a PropertyAccessError to reject the value with its error code.
+   */
+  set?: (value: Buffer) => void;
+}
+
+/**
+ * Description of a property, as returned by M_PropRead with PID 0.
+ */
+export interface PropertyDescription {
+  propertyId: number;
+  type: PropertyDataType;
+  writable: boolean;
+  maxElements: number;
+  accessLevel: number;
+}
+
+export class InterfaceObject {
+  readonly properties = new Map<number, PropertyDefinition>();
+
+  constructor(
+    readonly objectType: number,
+    readonly instance: number = 1,
+  ) {
+    // PID_OBJECT_TYPE existe en todos los objetos
+    this.define({
+      propertyId: DevicePropertyId.PID_OBJECT_TYPE,
+      type: PropertyDataType.PDT_UNSIGNED_INT,
+      elementSize: 2,
+      get: () => Buffer.from([objectType >> 8, objectType & 0xff]),
+    });
+  }
+
+  define(property: PropertyDefinition): this {
+    this.properties.set(property.propertyId, property);
+    return this;
+  }
+}
+
+/**
+ * Interface objects of a device and the property access rules of the management services
+ * (M_PropRead/M_PropWrite): start index 0 holds the current number of elements, elements start at 1.
+ */
+export class InterfaceObjectTable {
+  private readonly objects: InterfaceObject[] = [];
+
+  add(object: InterfaceObject): InterfaceObject {
+    this.objects.push(object);
+    return object;
+  }
+
+  get(objectType: number, instance: number = 1): InterfaceObject | undefined {
+    return this.objects.find((object) => object.objectType === objectType && object.instance === instance);
+  }
+
+  /**
+   * @throws PropertyAccessError with the error code of the negative confirmation
+   */
+  read(objectType: number, instance: number, propertyId: number, numberOfElements: number, startIndex: number) {
+    const property = this.getProperty(objectType, instance, propertyId, "M_PropRead");
+    const value = property.get();
+    const count = Math.floor(value.length / property.elementSize);
+    if (startIndex === 0) {
+      if (numberOfElements !== 1) throw new PropertyAccessError("M_PropRead", ErrorCodeSet.Prop_Index_Range_Error);
+      return Buffer.from([count >> 8, count & 0xff]);
+    }
+    if (numberOfElements === 0 || startIndex + numberOfElements - 1 > count) {
+      throw new PropertyAccessError("M_PropRead", ErrorCodeSet.Prop_Index_Range_Error);
+    }
+    return Buffer.from(
+      value.subarray(
+        (startIndex - 1) * property.elementSize,
+        (startIndex - 1 + numberOfElements) * property.elementSize,
+      ),
+    );
+  }
+
+  /**
+   * Writes `numberOfElements` elements from `startIndex`. Start index 0 sets the number of elements.
+   * @returns The whole new value of the property
+   * @throws PropertyAccessError with the error code of the negative confirmation
+   */
+  write(
+    objectType: number,
+    instance: number,
+    propertyId: number,
+    numberOfElements: number,
+    startIndex: number,
+    data: Buffer,
+  ): Buffer {
+    const property = this.getProperty(objectType, instance, propertyId, "M_PropWrite");
+    if (!property.set) throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Read_Only);
+    const maxElements = property.maxElements ?? 1;
+    const current = property.get();
+
+    let value: Buffer;
+    if (startIndex === 0) {
+      if (numberOfElements !== 1 || data.length !== 2) {
+        throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Type_Conflict);
+      }
+      const count = data.readUInt16BE(0);
+      if (count > maxElements) throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Out_of_MaxRange);
+      value = Buffer.alloc(count * property.elementSize);
+      current.copy(value, 0, 0, Math.min(current.length, value.length));
+    } else {
+      if (data.length !== numberOfElements * property.elementSize) {
+        throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Type_Conflict);
+      }
+      const last = startIndex + numberOfElements - 1;
+      const count = Math.floor(current.length / property.elementSize);
+      // Solo se puede ampliar un array escribiendo a continuación del último elemento
+      if (numberOfElements === 0 || last > maxElements || startIndex > count + 1) {
+        throw new PropertyAccessError("M_PropWrite", ErrorCodeSet.Prop_Index_Range_Error);
+      }
+      value = Buffer.alloc(Math.max(count, last) * property.elementSize);
+      current.copy(value);
+      data.copy(value, (startIndex - 1) * property.elementSize);
+    }
+
+    property.set(value);
+    return property.get();
+  }
+
+  /**
+   * Description of the property at `propertyIndex` (0-based, in definition order)
+   * @throws PropertyAccessError when the object or the index does not exist
+   */
+  describe(objectType: number, instance: number, propertyIndex: number): PropertyDescription {
+    const object = this.get(objectType, instance);
+    const property = object ? [...object.properties.values()][propertyIndex] : undefined;
+    if (!property) throw new PropertyAccessError("M_PropRead", ErrorCodeSet.Void_DP);
+    return {
+      propertyId: property.propertyId,
+      type: property.type,
+      writable: !!property.set,
+      maxElements: property.maxElements ?? 1,
+      accessLevel: property.accessLevel ?? 0x00,
+    };
+  }
+
+  private getProperty(objectType: number, instance: number, propertyId: number, service: string) {
+    const property = this.get(objectType, instance)?.properties.get(propertyId);
+    if (!property) throw new PropertyAccessError(service, ErrorCodeSet.Void_DP);
+    return property;
+  }
+}
@@ -100,7 +100,7 @@ export class PLMediumInfo extends AddInfoBase {
 
     if (buffer) {
       const data = AddInfoBase.parseDataBuffer(buffer, PLMediumInfo.TYPE_ID, PLMediumInfo.DATA_LENGTH);
-      data.copy(this._domainAddress, 0, 2);
+      data.copy(this._domainAddress);
     }
   }
 
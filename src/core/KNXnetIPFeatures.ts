@@ -0,0 +1,95 @@
+import { TunnellingFeature } from "./enum/KNXnetIPEnum";
+import { DeviceDescriptorType0 } from "./resources/DeviceDescriptorType";
+import { KNXHelper } from "../utils/KNXHelper";
+
+/**
+ * Decoded value of each interface feature.
+ */
+export interface TunnellingFeatureValues {
+  [TunnellingFeature.SupportedEmiTypes]: { emi1: boolean; emi2: boolean; cEmi: boolean };
+  [TunnellingFeature.DeviceDescriptorType0]: DeviceDescriptorType0;
+  /**
+   * true = the interface is connected to the KNX bus
+   */
+  [TunnellingFeature.BusConnectionStatus]: boolean;
+  [TunnellingFeature.ManufacturerCode]: number;
+  /**
+   * 0x01 = EMI1, 0x02 = EMI2, 0x03 = cEMI
+   */
+  [TunnellingFeature.ActiveEmiType]: number;
+  /**
+   * Individual address in "area.line.device" format
+   */
+  [TunnellingFeature.IndividualAddress]: string;
+  [TunnellingFeature.MaxApduLength]: number;
+  [TunnellingFeature.InfoServiceEnable]: boolean;
+}
+
+/**
+ * Encoding of the interface feature values carried in TUNNELLING_FEATURE_* frames.
+ * Sizes follow the Interface Feature table: 2 octets for the bitsets, descriptors, codes,
+ * addresses and lengths, 1 octet for the status and enable flags and the EMI type.
+ */
+export class KNXnetIPFeatures {
+  static decode<F extends TunnellingFeature>(feature: F, value: Buffer): TunnellingFeatureValues[F] {
+    let decoded: TunnellingFeatureValues[TunnellingFeature];
+    switch (feature) {
+      case TunnellingFeature.SupportedEmiTypes: {
+        const bits = value.readUInt16BE(0);
+        decoded = { emi1: (bits & 0x01) !== 0, emi2: (bits & 0x02) !== 0, cEmi: (bits & 0x04) !== 0 };
+        break;
+      }
+      case TunnellingFeature.DeviceDescriptorType0:
+        decoded = new DeviceDescriptorType0(value.readUInt16BE(0));
+        break;
+      case TunnellingFeature.BusConnectionStatus:
+      case TunnellingFeature.InfoServiceEnable:
+        decoded = (value.readUInt8(0) & 0x01) === 1;
+        break;
+      case TunnellingFeature.ActiveEmiType:
+        decoded = value.readUInt8(0);
+        break;
+      case TunnellingFeature.IndividualAddress:
+        decoded = KNXHelper.GetAddress(value.readUInt16BE(0), ".");
+        break;
+      case TunnellingFeature.ManufacturerCode:
+      case TunnellingFeature.MaxApduLength:
+        decoded = value.readUInt16BE(0);
+        break;
+      default:
+        throw new Error(`Unknown tunnelling feature: 0x${Number(feature).toString(16)}`);
+    }
+    return decoded as TunnellingFeatureValues[F];
+  }
+
+  static encode<F extends TunnellingFeature>(feature: F, value: TunnellingFeatureValues[F]): Buffer {
+    switch (feature) {
+      case TunnellingFeature.SupportedEmiTypes: {
+        const types = value as TunnellingFeatureValues[TunnellingFeature.SupportedEmiTypes];
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16BE((types.emi1 ? 0x01 : 0) | (types.emi2 ? 0x02 : 0) | (types.cEmi ? 0x04 : 0));
+        return buffer;
+      }
+      case TunnellingFeature.DeviceDescriptorType0: {
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16BE((value as DeviceDescriptorType0).value);
+        return buffer;
+      }
+      case TunnellingFeature.BusConnectionStatus:
+      case TunnellingFeature.InfoServiceEnable:
+        return Buffer.from([value ? 0x01 : 0x00]);
+      case TunnellingFeature.ActiveEmiType:
+        return Buffer.from([(value as number) & 0xff]);
+      case TunnellingFeature.IndividualAddress:
+        return KNXHelper.GetAddress(value as string, ".");
+      case TunnellingFeature.ManufacturerCode:
+      case TunnellingFeature.MaxApduLength: {
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16BE(value as number);
+        return buffer;
+      }
+      default:
+        throw new Error(`Unknown tunnelling feature: 0x${Number(feature).toString(16)}`);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { HostProtocolCode, ConnectionType, TunnelLink } from "./enum/KNXnetIPEnum";
-import { DescriptionType, KNXMedium } from "./enum/KNXnetIPEnum";
+import { DescriptionType, KNXMedium, SRPType } from "./enum/KNXnetIPEnum";
 import { DeviceDescriptorType0 } from "./resources/DeviceDescriptorType";
 
 export class HPAI {
@@ -82,6 +82,8 @@ export class CRI {
   ) {}
 
   toBuffer(): Buffer {
+    // Only the tunnelling CRI carries data (KNX layer and, in the extended CRI, the individual address)
+    if (this.connectionType !== ConnectionType.TUNNEL_CONNECTION) return Buffer.from([2, this.connectionType]);
     const len = this.individualAddress !== null ? 6 : 4;
     const buffer = Buffer.alloc(len);
     buffer.writeUInt8(len, 0); // Length
@@ -207,6 +209,8 @@ export abstract class DIB {
         return IPConfigDIB.fromBuffer(data);
       case DescriptionType.IP_CUR_CONFIG:
         return IPCurrentConfigDIB.fromBuffer(data);
+      case DescriptionType.KNX_ADDRESSES:
+        return KNXAddressesDIB.fromBuffer(data);
       case DescriptionType.TUNNELLING_INFO:
         return TunnellingInfoDIB.fromBuffer(data);
       case DescriptionType.DEVICE_INFO_EXTENDED:
@@ -643,4 +647,50 @@ export class SRP {
     const data = buffer.subarray(2, len);
     return new SRP(type & 0x7f, data, (type & 0x80) !== 0);
   }
+
+  /**
+   * Parses the SRP block that follows the HPAI in a SEARCH_REQUEST_EXTENDED.
+   * Stops on malformed lengths.
+   */
+  static listFromBuffer(buffer: Buffer): SRP[] {
+    const srps: SRP[] = [];
+    let offset = 0;
+    while (offset + 2 <= buffer.length) {
+      const len = buffer.readUInt8(offset);
+      if (len < 2 || offset + len > buffer.length) break;
+      srps.push(SRP.fromBuffer(buffer.subarray(offset, offset + len)));
+      offset += len;
+    }
+    return srps;
+  }
+
+  /**
+   * Only devices currently in programming mode shall respond.
+   */
+  static programmingMode(isMandatory: boolean = true): SRP {
+    return new SRP(SRPType.SELECT_BY_PROGRAMMING_MODE, Buffer.alloc(0), isMandatory);
+  }
+
+  /**
+   * Only the device with this MAC address shall respond.
+   */
+  static macAddress(mac: string, isMandatory: boolean = true): SRP {
+    // eslint-disable-next-line no-useless-escape
+    return new SRP(SRPType.SELECT_BY_MAC_ADDRESS, Buffer.from(mac.replace(/[:\-]/g, ""), "hex"), isMandatory);
+  }
+
+  /**
+   * Only devices supporting this service family with at least this version shall respond.
+   */
+  static service(family: number, version: number = 1, isMandatory: boolean = true): SRP {
+    return new SRP(SRPType.SELECT_BY_SERVICE, Buffer.from([family, version]), isMandatory);
+  }
+
+  /**
+   * Asks for these DIBs in the response. Padded with 0x00 to an even structure length.
+   */
+  static requestDIBs(types: DescriptionType[], isMandatory: boolean = true): SRP {
+    const data = Buffer.from(types.length % 2 === 0 ? types : [...types, 0x00]);
+    return new SRP(SRPType.REQUEST_DIBS, data, isMandatory);
+  }
 }
@@ -584,4 +584,11 @@ export enum APCIEnum {
    * Este comando permite enviar información sobre un flujo de datos de archivo, facilitando la gestión y transferencia de archivos en la red KNX desde la capa de aplicación.
    */
   A_FileStream_InfoReport_Protocol_Data_Unit = 0x3F0,
+  /**
+   * A_SecureService_Protocol_Data_Unit es el servicio de KNX Data Secure que transporta el APDU
+   * protegido (S-A_Data) o la sincronización de números de secuencia (S-A_Sync_Req / S-A_Sync_Res).
+   *
+   * El octeto siguiente al APCI es el Security Control Field (SCF).
+   */
+  A_SecureService_Protocol_Data_Unit = 0x3F1,
 }
\ No newline at end of file
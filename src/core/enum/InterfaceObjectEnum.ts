@@ -0,0 +1,105 @@
+/**
+ * Interface object types (KNX 3.7.3 §4)
+ */
+export enum InterfaceObjectType {
+  DEVICE = 0,
+  ADDRESS_TABLE = 1,
+  ASSOCIATION_TABLE = 2,
+  APPLICATION_PROGRAM = 3,
+  INTERFACE_PROGRAM = 4,
+  ROUTER = 6,
+  CEMI_SERVER = 8,
+  GROUP_OBJECT_TABLE = 9,
+  KNXNET_IP_PARAMETER = 11,
+  SECURITY = 17,
+}
+
+/**
+ * Property datatypes (PDT) of the property descriptions
+ */
+export enum PropertyDataType {
+  PDT_CONTROL = 0x00,
+  PDT_CHAR = 0x01,
+  PDT_UNSIGNED_CHAR = 0x02,
+  PDT_INT = 0x03,
+  PDT_UNSIGNED_INT = 0x04,
+  PDT_KNX_FLOAT = 0x05,
+  PDT_DATE = 0x06,
+  PDT_TIME = 0x07,
+  PDT_LONG = 0x08,
+  PDT_UNSIGNED_LONG = 0x09,
+  PDT_FLOAT = 0x0a,
+  PDT_DOUBLE = 0x0b,
+  PDT_CHAR_BLOCK = 0x0c,
+  PDT_POLL_GROUP_SETTINGS = 0x0d,
+  PDT_SHORT_CHAR_BLOCK = 0x0e,
+  PDT_DATE_TIME = 0x0f,
+  PDT_VARIABLE_LENGTH = 0x10,
+  PDT_GENERIC_01 = 0x11,
+  PDT_GENERIC_02 = 0x12,
+  PDT_GENERIC_03 = 0x13,
+  PDT_GENERIC_04 = 0x14,
+  PDT_GENERIC_05 = 0x15,
+  PDT_GENERIC_06 = 0x16,
+  PDT_GENERIC_07 = 0x17,
+  PDT_GENERIC_08 = 0x18,
+  PDT_GENERIC_09 = 0x19,
+  PDT_GENERIC_10 = 0x1a,
+  PDT_UTF8 = 0x2f,
+  PDT_BITSET8 = 0x30,
+  PDT_BITSET16 = 0x31,
+  PDT_ENUM8 = 0x35,
+  PDT_FUNCTION = 0x3e,
+}
+
+/**
+ * Properties of the Device Object (object type 0). PID 1 (PID_OBJECT_TYPE) exists in every object.
+ */
+export enum DevicePropertyId {
+  PID_OBJECT_TYPE = 1,
+  PID_OBJECT_NAME = 2,
+  PID_FIRMWARE_REVISION = 9,
+  PID_SERIAL_NUMBER = 11,
+  PID_MANUFACTURER_ID = 12,
+  PID_DEVICE_CONTROL = 14,
+  PID_ORDER_INFO = 15,
+  PID_PROGMODE = 54,
+  PID_MAX_APDU_LENGTH = 56,
+  PID_SUBNET_ADDR = 57,
+  PID_DEVICE_ADDR = 58,
+  PID_HARDWARE_TYPE = 78,
+  PID_DEVICE_DESCRIPTOR = 83,
+}
+
+/**
+ * Properties of the KNXnet/IP Parameter Object (object type 11, KNX 3.8.3 §2.5)
+ */
+export enum KNXnetIPPropertyId {
+  PID_PROJECT_INSTALLATION_ID = 51,
+  PID_KNX_INDIVIDUAL_ADDRESS = 52,
+  PID_ADDITIONAL_INDIVIDUAL_ADDRESSES = 53,
+  PID_CURRENT_IP_ASSIGNMENT_METHOD = 54,
+  PID_IP_ASSIGNMENT_METHOD = 55,
+  PID_IP_CAPABILITIES = 56,
+  PID_CURRENT_IP_ADDRESS = 57,
+  PID_CURRENT_SUBNET_MASK = 58,
+  PID_CURRENT_DEFAULT_GATEWAY = 59,
+  PID_IP_ADDRESS = 60,
+  PID_SUBNET_MASK = 61,
+  PID_DEFAULT_GATEWAY = 62,
+  PID_DHCP_BOOTP_SERVER = 63,
+  PID_MAC_ADDRESS = 64,
+  PID_SYSTEM_SETUP_MULTICAST_ADDRESS = 65,
+  PID_ROUTING_MULTICAST_ADDRESS = 66,
+  PID_TTL = 67,
+  PID_KNXNETIP_DEVICE_CAPABILITIES = 68,
+  PID_KNXNETIP_DEVICE_STATE = 69,
+  PID_KNXNETIP_ROUTING_CAPABILITIES = 70,
+  PID_PRIORITY_FIFO_ENABLED = 71,
+  PID_QUEUE_OVERFLOW_TO_IP = 72,
+  PID_QUEUE_OVERFLOW_TO_KNX = 73,
+  PID_MSG_TRANSMIT_TO_IP = 74,
+  PID_MSG_TRANSMIT_TO_KNX = 75,
+  PID_FRIENDLY_NAME = 76,
+  PID_ROUTING_BUSY_WAIT_TIME = 78,
+}
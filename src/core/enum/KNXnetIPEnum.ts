@@ -23,6 +23,24 @@ export enum KNXnetIPServiceType {
   ROUTING_LOST_MESSAGE = 0x0531,
   ROUTING_BUSY = 0x0532,
   ROUTING_SYSTEM_BROADCAST = 0x0533,
+  SECURE_WRAPPER = 0x0950,
+  SESSION_REQUEST = 0x0951,
+  SESSION_RESPONSE = 0x0952,
+  SESSION_AUTHENTICATE = 0x0953,
+  SESSION_STATUS = 0x0954,
+  TIMER_NOTIFY = 0x0955,
+}
+
+/**
+ * Status codes of SESSION_STATUS (KNX IP Secure, AN159)
+ */
+export enum SecureSessionStatus {
+  AUTHENTICATION_SUCCESS = 0x00,
+  AUTHENTICATION_FAILED = 0x01,
+  UNAUTHENTICATED = 0x02,
+  TIMEOUT = 0x03,
+  KEEPALIVE = 0x04,
+  CLOSE = 0x05,
 }
 
 export enum KNXnetIPErrorCodes {
@@ -65,6 +83,30 @@ export enum DescriptionType {
   MFR_DATA = 0xfe,
 }
 
+/**
+ * Search Request Parameter types for SEARCH_REQUEST_EXTENDED (03_08_02 Core 7.8.5)
+ */
+export enum SRPType {
+  SELECT_BY_PROGRAMMING_MODE = 0x01,
+  SELECT_BY_MAC_ADDRESS = 0x02,
+  SELECT_BY_SERVICE = 0x03,
+  REQUEST_DIBS = 0x04,
+}
+
+/**
+ * Interface Feature Identifiers for TUNNELLING_FEATURE_GET/SET/RESPONSE/INFO (03_08_04 Tunnelling v2, 03_06_03 USB)
+ */
+export enum TunnellingFeature {
+  SupportedEmiTypes = 0x01,
+  DeviceDescriptorType0 = 0x02,
+  BusConnectionStatus = 0x03,
+  ManufacturerCode = 0x04,
+  ActiveEmiType = 0x05,
+  IndividualAddress = 0x06,
+  MaxApduLength = 0x07,
+  InfoServiceEnable = 0x08,
+}
+
 export enum KNXLayer {
   LINK_LAYER = 0x02,
   RAW_LAYER = 0x04,
@@ -101,4 +143,4 @@ export const enum TunnelLink {
   TUNNEL_LINKLAYER = 0x02,
   TUNNEL_RAW = 0x04,
   TUNNEL_BUSMONITOR = 0x80,
-}
\ No newline at end of file
+}
@@ -35,8 +35,13 @@ export class APDU implements ServiceMessage {
       buffer.writeUint8(this.tpci.getValue(), 0);
       return buffer;
     }
-    const buffer = Buffer.alloc(1 + this.length);
     const packNumber = this.apci.packNumber();
+    if (this.apci.isTenBit) {
+      // El APCI ocupa todo el segundo octeto, los datos van siempre aparte
+      this.tpci.first2bitsOfAPCI = packNumber[0];
+      return Buffer.concat([Buffer.from([this.tpci.getValue(), packNumber[1]]), this.data]);
+    }
+    const buffer = Buffer.alloc(1 + this.length);
     this.tpci.first2bitsOfAPCI = packNumber[0];
     // TPCI/APCI
     buffer.writeUInt8(this.tpci.getValue(), 0);
@@ -92,7 +97,9 @@ export class APDU implements ServiceMessage {
 
     // Reconstruimos el valor completo del APCI Enum
     // (A9 A8) << 8 | (A7 A6 A5 A4 0 0 0 0)
-    const apciValue = (apciHigh << 8) | apciLow;
+    // Los APCI de 10 bits (A_SecureService, A_FilterTable_*, A_PropertyValue_*...) ocupan todo el byte 1,
+    // el resto del TPDU son datos (en A_SecureService, el S-A_Data: SCF + ...)
+    const apciValue = APCI.isTenBit((apciHigh << 8) | apciLow) ? (apciHigh << 8) | byte1 : (apciHigh << 8) | apciLow;
 
     const apci = new APCI(apciValue);
 
@@ -104,7 +111,7 @@ export class APDU implements ServiceMessage {
     // Si el TPDU tiene longitud > 2 bytes, los datos comienzan en el byte 2 (Extended Data).
     // Si el TPDU tiene longitud == 2 bytes, los datos son los 6 bits bajos del byte 1 (Optimized/Short Data).
 
-    if (buffer.length > 2) {
+    if (buffer.length > 2 || apci.isTenBit) {
       // Caso: Datos largos (> 6 bits o estructurados)
       // Ejemplo: Escribir un flotante (4 bytes) -> buffer total 1 + 1 + 4 = 6 bytes.
       // Los datos empiezan en el índice 2.
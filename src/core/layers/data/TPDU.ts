@@ -38,6 +38,10 @@ export class TPDU implements ServiceMessage {
       buffer.writeUint8(this.tpci.getValue(), 0);
       return buffer;
     }
+    if (this.apdu.apci.isTenBit) {
+      const [high, low] = this.apdu.apci.packNumber();
+      return Buffer.concat([Buffer.from([(this.tpci.getValue() & 0xfc) | high, low]), this.data]);
+    }
     const buffer = Buffer.alloc(1 + this.apdu.length);
     // La clase APDU tiene el tpci y el apci en su buffer
     // para simplificar la envoltura de los octetos por lo tanto
@@ -32,6 +32,18 @@ export class APCI {
     this._value = val & 0x3ff;
   }
 
+  /**
+   * True para los APCI de 10 bits (1011xxxxxx y 1111xxxxxx: A_UserMemory_*, A_FilterTable_*,
+   * A_PropertyValue_*, A_SecureService...), cuyos 6 bits bajos no son datos
+   */
+  get isTenBit(): boolean {
+    return APCI.isTenBit(this._value);
+  }
+
+  static isTenBit(value: number): boolean {
+    return (value & 0x3c0) === 0x2c0 || (value & 0x3c0) === 0x3c0;
+  }
+
   /**
    * Obtiene el comando APCI
    */
@@ -0,0 +1,287 @@
+import crypto from "node:crypto";
+import { KNXHelper } from "../../utils/KNXHelper";
+import { APCIEnum } from "../enum/APCIEnum";
+import { MESSAGE_CODE_FIELD } from "../MessageCodeField";
+import { KNXSecureCrypto } from "./KNXSecureCrypto";
+import { KNXDataSecureOptions } from "../../@types/interfaces/connection";
+
+/**
+ * Telegrams dropped by the Data Secure layer.
+ */
+export interface DataSecureCounters {
+  /** Plain telegrams received for an address of the key table */
+  plain: number;
+  /** Secured telegrams with a wrong MAC or an unsupported security service */
+  unauthenticated: number;
+  /** Secured telegrams whose sequence number is not newer than the last one of the source */
+  replayed: number;
+}
+
+/**
+ * KNX Data Secure (AN158 / KNX 3.8.2) on the application layer.
+ * The APDU travels inside A_SecureService (APCI 03F1h) as S-A_Data:
+ * SCF(1) + SequenceNumber(6) + APDU(n) + MAC(4), protected with AES-128 CCM. Block 0 and counter 0
+ * bind the telegram to its source, destination and sequence number.
+ */
+export class DataSecure {
+  /** Security Control Field: algorithm (bits 6..4) */
+  static readonly ALGORITHM_AUTHENTICATION = 0x00;
+  static readonly ALGORITHM_ENCRYPTION = 0x10;
+  /** Security Control Field: tool access (bit 7), used with the tool key of a device */
+  static readonly TOOL_ACCESS = 0x80;
+  /** Security Control Field: security service (bits 2..0) */
+  static readonly SERVICE_DATA = 0x00;
+
+  public readonly counters: DataSecureCounters = { plain: 0, unauthenticated: 0, replayed: 0 };
+  private readonly keys = new Map<string, Buffer>();
+  private readonly lastSequenceBySource = new Map<string, number>();
+  private nextSequence: number;
+  private readonly encrypt: boolean;
+
+  constructor(options: KNXDataSecureOptions) {
+    for (const [address, key] of Object.entries(options.keys)) {
+      if (key.length !== 16) throw new Error(`The Data Secure key of ${address} must be 16 bytes long`);
+      this.keys.set(DataSecure.addressId(KNXHelper.GetAddress_(address), address.includes("/")), key);
+    }
+    for (const [address, sequence] of Object.entries(options.lastSequenceNumbers ?? {})) {
+      this.lastSequenceBySource.set(KNXHelper.GetAddress_(address).toString("hex"), sequence);
+    }
+    this.nextSequence = options.sequenceNumber ?? Date.now();
+    this.encrypt = options.encrypt ?? true;
+  }
+
+  /**
+   * Next sequence number this device will send. Persist it when it was configured explicitly.
+   */
+  get sequenceNumber(): number {
+    return this.nextSequence;
+  }
+
+  /**
+   * Last accepted sequence number of every source
+   */
+  get lastSequenceNumbers(): Record<string, number> {
+    const table: Record<string, number> = {};
+    this.lastSequenceBySource.forEach((sequence, source) => {
+      table[KNXHelper.GetAddress(Buffer.from(source, "hex"), ".")] = sequence;
+    });
+    return table;
+  }
+
+  hasKey(address: string): boolean {
+    return this.keys.has(DataSecure.addressId(KNXHelper.GetAddress_(address), address.includes("/")));
+  }
+
+  /**
+   * Secures an outgoing L_Data frame. Frames to addresses without a key and transport control frames
+   * (T_Connect, T_Disconnect, T_ACK, T_NAK) are returned unchanged.
+   * @param cemi cEMI L_Data frame
+   * @param individualAddress Replaces the source 0.0.0, the MAC covers the real source address
+   */
+  secure(cemi: Buffer, individualAddress: string): Buffer {
+    const frame = DataSecure.parse(cemi);
+    if (!frame || frame.isSecure || !frame.hasApdu) return cemi;
+    const key = this.keys.get(DataSecure.addressId(frame.destination, frame.isGroup));
+    if (!key) return cemi;
+
+    const source = frame.source.readUInt16BE() === 0 ? KNXHelper.GetAddress_(individualAddress) : frame.source;
+    const sequence = Buffer.alloc(6);
+    sequence.writeUIntBE(this.nextSequence++, 0, 6);
+    const scf =
+      (frame.isGroup ? 0 : DataSecure.TOOL_ACCESS) |
+      (this.encrypt ? DataSecure.ALGORITHM_ENCRYPTION : DataSecure.ALGORITHM_AUTHENTICATION) |
+      DataSecure.SERVICE_DATA;
+    // El APDU protegido no lleva los bits del TPCI
+    const apdu = Buffer.from(frame.tpdu);
+    apdu[0] &= 0x03;
+
+    const tpci = frame.tpdu[0] & 0xfc;
+    const addresses = Buffer.concat([source, frame.destination]);
+    let payload: Buffer;
+    let mac: Buffer;
+    if (this.encrypt) {
+      const block0 = DataSecure.block0(sequence, addresses, frame.cf2, tpci, apdu.length);
+      const encrypted = KNXSecureCrypto.ctr(
+        key,
+        DataSecure.counter0(sequence, addresses),
+        KNXSecureCrypto.cbcMac(key, Buffer.from([scf]), apdu, block0),
+        apdu,
+      );
+      payload = encrypted.payload;
+      mac = encrypted.mac.subarray(0, 4);
+    } else {
+      const block0 = DataSecure.block0(sequence, addresses, frame.cf2, tpci, 0);
+      payload = apdu;
+      mac = KNXSecureCrypto.cbcMac(key, Buffer.concat([Buffer.from([scf]), apdu]), Buffer.alloc(0), block0).subarray(
+        0,
+        4,
+      );
+    }
+
+    const tpdu = Buffer.concat([
+      Buffer.from([tpci | 0x03, APCIEnum.A_SecureService_Protocol_Data_Unit & 0xff, scf]),
+      sequence,
+      payload,
+      mac,
+    ]);
+    return DataSecure.rebuild(cemi, frame.offset, source, tpdu);
+  }
+
+  /**
+   * Verifies and decrypts an incoming L_Data frame.
+   * @returns The plain frame, the same frame when it is not for the key table (or not secured) or is a
+   * transport control frame, or null when it must be dropped
+   */
+  unsecure(cemi: Buffer): Buffer | null {
+    const frame = DataSecure.parse(cemi);
+    // T_Connect, T_ACK... no llevan APDU y viajan siempre en claro
+    if (!frame || !frame.hasApdu) return cemi;
+    const isConfirmation = cemi[0] === MESSAGE_CODE_FIELD["L_Data.con"].CEMI.value;
+    // Point-to-point: the key is the one of the remote device (destination of our own confirmations)
+    const peer = frame.isGroup || isConfirmation ? frame.destination : frame.source;
+    const key = this.keys.get(DataSecure.addressId(peer, frame.isGroup));
+    if (!key) return cemi;
+
+    if (!frame.isSecure) {
+      // Our own plain telegrams are confirmed as they were sent
+      if (isConfirmation) return cemi;
+      this.counters.plain++;
+      return null;
+    }
+
+    // TPCI(1) + APCI(1) + SCF(1) + SequenceNumber(6) + APDU(>=2) + MAC(4)
+    if (frame.tpdu.length < 15) {
+      this.counters.unauthenticated++;
+      return null;
+    }
+    const scf = frame.tpdu[2];
+    const algorithm = scf & 0x70;
+    if (
+      (scf & 0x07) !== DataSecure.SERVICE_DATA ||
+      (algorithm !== DataSecure.ALGORITHM_ENCRYPTION && algorithm !== DataSecure.ALGORITHM_AUTHENTICATION)
+    ) {
+      this.counters.unauthenticated++;
+      return null;
+    }
+
+    const tpci = frame.tpdu[0] & 0xfc;
+    const sequence = frame.tpdu.subarray(3, 9);
+    const secured = frame.tpdu.subarray(9, frame.tpdu.length - 4);
+    const receivedMac = frame.tpdu.subarray(frame.tpdu.length - 4);
+    const addresses = Buffer.concat([frame.source, frame.destination]);
+
+    let apdu: Buffer;
+    let mac: Buffer;
+    let expected: Buffer;
+    if (algorithm === DataSecure.ALGORITHM_ENCRYPTION) {
+      // Only the first 4 octets of the encrypted MAC are transmitted
+      const decrypted = KNXSecureCrypto.ctr(
+        key,
+        DataSecure.counter0(sequence, addresses),
+        Buffer.concat([receivedMac, Buffer.alloc(12)]),
+        secured,
+      );
+      apdu = decrypted.payload;
+      mac = decrypted.mac.subarray(0, 4);
+      expected = KNXSecureCrypto.cbcMac(
+        key,
+        Buffer.from([scf]),
+        apdu,
+        DataSecure.block0(sequence, addresses, frame.cf2, tpci, apdu.length),
+      );
+    } else {
+      apdu = Buffer.from(secured);
+      mac = receivedMac;
+      expected = KNXSecureCrypto.cbcMac(
+        key,
+        Buffer.concat([Buffer.from([scf]), apdu]),
+        Buffer.alloc(0),
+        DataSecure.block0(sequence, addresses, frame.cf2, tpci, 0),
+      );
+    }
+    if (!crypto.timingSafeEqual(expected.subarray(0, 4), mac)) {
+      this.counters.unauthenticated++;
+      return null;
+    }
+
+    if (!isConfirmation) {
+      const source = frame.source.toString("hex");
+      const last = this.lastSequenceBySource.get(source);
+      const value = sequence.readUIntBE(0, 6);
+      if (last !== undefined && value <= last) {
+        this.counters.replayed++;
+        return null;
+      }
+      this.lastSequenceBySource.set(source, value);
+    }
+
+    const tpdu = Buffer.from(apdu);
+    tpdu[0] = tpci | (apdu[0] & 0x03);
+    return DataSecure.rebuild(cemi, frame.offset, frame.source, tpdu);
+  }
+
+  /**
+   * Block 0 of the CBC-MAC: SequenceNumber(6) + Source(2) + Destination(2) + 00h + FrameFlags +
+   * TPCI/APCI(2) + 00h + PayloadLength
+   */
+  private static block0(sequence: Buffer, addresses: Buffer, cf2: number, tpci: number, payloadLength: number) {
+    const apci = APCIEnum.A_SecureService_Protocol_Data_Unit;
+    return Buffer.concat([
+      sequence,
+      addresses,
+      // Frame flags: address type and extended frame format only
+      Buffer.from([0x00, cf2 & 0x8f, tpci | (apci >> 8), apci & 0xff, 0x00, payloadLength]),
+    ]);
+  }
+
+  /**
+   * Counter 0: SequenceNumber(6) + Source(2) + Destination(2) + 00000000h + 0100h
+   */
+  private static counter0(sequence: Buffer, addresses: Buffer) {
+    return Buffer.concat([sequence, addresses, Buffer.from([0x00, 0x00, 0x00, 0x00, 0x01, 0x00])]);
+  }
+
+  private static addressId(address: Buffer, isGroup: boolean) {
+    return `${isGroup ? "g" : "i"}${address.toString("hex")}`;
+  }
+
+  /**
+   * Splits an L_Data cEMI frame (req, con or ind). Other services return null.
+   */
+  private static parse(cemi: Buffer) {
+    const code = cemi[0];
+    if (
+      code !== MESSAGE_CODE_FIELD["L_Data.req"].CEMI.value &&
+      code !== MESSAGE_CODE_FIELD["L_Data.con"].CEMI.value &&
+      code !== MESSAGE_CODE_FIELD["L_Data.ind"].CEMI.value
+    ) {
+      return null;
+    }
+    const offset = 2 + cemi[1];
+    if (cemi.length < offset + 8) return null;
+    const tpdu = cemi.subarray(offset + 7, offset + 8 + cemi[offset + 6]);
+    return {
+      offset,
+      cf2: cemi[offset + 1],
+      isGroup: (cemi[offset + 1] & 0x80) !== 0,
+      source: cemi.subarray(offset + 2, offset + 4),
+      destination: cemi.subarray(offset + 4, offset + 6),
+      tpdu,
+      /** T_Data frames carry an APDU, transport control frames (TPCI bit 7) only the TPCI */
+      hasApdu: tpdu.length >= 2 && (tpdu[0] & 0x80) === 0,
+      isSecure: tpdu.length > 2 && (((tpdu[0] & 0x03) << 8) | tpdu[1]) === APCIEnum.A_SecureService_Protocol_Data_Unit,
+    };
+  }
+
+  /**
+   * Same frame with another source and TPDU. Frames longer than 15 octets become extended frames.
+   */
+  private static rebuild(cemi: Buffer, offset: number, source: Buffer, tpdu: Buffer): Buffer {
+    const frame = Buffer.concat([cemi.subarray(0, offset + 7), tpdu]);
+    source.copy(frame, offset + 2);
+    frame[offset + 6] = tpdu.length - 1;
+    if (tpdu.length - 1 > 15) frame[offset] &= 0x7f;
+    else frame[offset] |= 0x80;
+    return frame;
+  }
+}
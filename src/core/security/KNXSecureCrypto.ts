@@ -0,0 +1,175 @@
+import crypto from "node:crypto";
+import { KNXnetIPHeader } from "../KNXnetIPHeader";
+import { KNXnetIPServiceType } from "../enum/KNXnetIPEnum";
+import { SecureWrapperError } from "../../errors/SecureErrors";
+
+/**
+ * Decoded SECURE_WRAPPER frame.
+ * Body: SessionID(2) + Sequence(6) + SerialNumber(6) + MessageTag(2) + EncryptedFrame(n) + MAC(16)
+ */
+export interface SecureWrapperFrame {
+  sessionId: number;
+  sequence: number;
+  serialNumber: Buffer;
+  messageTag: number;
+  /** Decrypted KNXnet/IP frame, header included */
+  frame: Buffer;
+}
+
+/**
+ * Cryptographic primitives of KNX IP Secure (AN159 / KNX 3.8.9).
+ * KNX uses AES-128 in CCM mode, split in a CBC-MAC over B0 + associated data + payload
+ * and a CTR encryption where counter 0 encrypts the MAC.
+ */
+export class KNXSecureCrypto {
+  /** Counter 0 used by SESSION_RESPONSE and SESSION_AUTHENTICATE */
+  static readonly COUNTER_0_HANDSHAKE = Buffer.from("0000000000000000000000000000ff00", "hex");
+  /** Size of a SECURE_WRAPPER without the encrypted frame: Header(6) + fixed fields(16) + MAC(16) */
+  static readonly WRAPPER_OVERHEAD = 38;
+
+  /**
+   * CBC-MAC (Y_n) with a zero IV.
+   * Blocks: B0 | len(A) (2 bytes) | A | P, zero padded to 16 bytes.
+   */
+  static cbcMac(key: Buffer, additionalData: Buffer, payload: Buffer = Buffer.alloc(0), block0 = Buffer.alloc(16)) {
+    const lengthField = Buffer.alloc(2);
+    lengthField.writeUInt16BE(additionalData.length);
+    const blocks = Buffer.concat([block0, lengthField, additionalData, payload]);
+    const padded = Buffer.concat([blocks, Buffer.alloc((16 - (blocks.length % 16)) % 16)]);
+
+    const cipher = crypto.createCipheriv("aes-128-cbc", key, Buffer.alloc(16));
+    cipher.setAutoPadding(false);
+    const encrypted = Buffer.concat([cipher.update(padded), cipher.final()]);
+    return encrypted.subarray(encrypted.length - 16);
+  }
+
+  /**
+   * AES-CTR starting at counter 0. The MAC takes counter 0, the payload the following counters.
+   * Encryption and decryption are the same operation.
+   */
+  static ctr(key: Buffer, counter0: Buffer, mac: Buffer, payload: Buffer = Buffer.alloc(0)) {
+    const cipher = crypto.createCipheriv("aes-128-ctr", key, counter0);
+    const output = Buffer.concat([cipher.update(Buffer.concat([mac, payload])), cipher.final()]);
+    return { mac: output.subarray(0, 16), payload: output.subarray(16) };
+  }
+
+  /**
+   * Password hash of a tunnel user (PBKDF2-HMAC-SHA256, 65536 iterations).
+   */
+  static deriveUserPassword(password: string): Buffer {
+    return crypto.pbkdf2Sync(Buffer.from(password, "latin1"), "user-password.1.secure.ip.knx.org", 65536, 16, "sha256");
+  }
+
+  /**
+   * Device authentication code of a secure KNXnet/IP server (PBKDF2-HMAC-SHA256, 65536 iterations).
+   */
+  static deriveDeviceAuthenticationCode(password: string): Buffer {
+    return crypto.pbkdf2Sync(
+      Buffer.from(password, "latin1"),
+      "device-authentication-code.1.secure.ip.knx.org",
+      65536,
+      16,
+      "sha256",
+    );
+  }
+
+  /**
+   * Generates an ephemeral X25519 key pair. The public key is returned as the raw 32 bytes sent on the wire.
+   */
+  static generateKeyPair(): { privateKey: crypto.KeyObject; publicKey: Buffer } {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("x25519");
+    const jwk = publicKey.export({ format: "jwk" });
+    return { privateKey, publicKey: Buffer.from(jwk.x!, "base64url") };
+  }
+
+  /**
+   * Session key: the first 16 bytes of SHA-256 over the X25519 shared secret.
+   */
+  static deriveSessionKey(privateKey: crypto.KeyObject, peerPublicKey: Buffer): Buffer {
+    const publicKey = crypto.createPublicKey({
+      key: { kty: "OKP", crv: "X25519", x: peerPublicKey.toString("base64url") },
+      format: "jwk",
+    });
+    const secret = crypto.diffieHellman({ privateKey, publicKey });
+    return crypto.createHash("sha256").update(secret).digest().subarray(0, 16);
+  }
+
+  static xor(a: Buffer, b: Buffer): Buffer {
+    const out = Buffer.alloc(Math.min(a.length, b.length));
+    for (let i = 0; i < out.length; i++) out[i] = a[i] ^ b[i];
+    return out;
+  }
+
+  /**
+   * Builds the SECURE_WRAPPER around a complete KNXnet/IP frame.
+   */
+  static wrap(
+    key: Buffer,
+    sessionId: number,
+    sequence: number,
+    serialNumber: Buffer,
+    messageTag: number,
+    frame: Buffer,
+  ): Buffer {
+    const header = new KNXnetIPHeader(
+      KNXnetIPServiceType.SECURE_WRAPPER,
+      KNXSecureCrypto.WRAPPER_OVERHEAD + frame.length,
+    ).toBuffer();
+    const sessionField = Buffer.alloc(2);
+    sessionField.writeUInt16BE(sessionId);
+    const sequenceField = Buffer.alloc(6);
+    sequenceField.writeUIntBE(sequence, 0, 6);
+    const tagField = Buffer.alloc(2);
+    tagField.writeUInt16BE(messageTag);
+    const lengthField = Buffer.alloc(2);
+    lengthField.writeUInt16BE(frame.length);
+
+    const nonce = Buffer.concat([sequenceField, serialNumber, tagField]);
+    const mac = KNXSecureCrypto.cbcMac(
+      key,
+      Buffer.concat([header, sessionField]),
+      frame,
+      Buffer.concat([nonce, lengthField]),
+    );
+    const encrypted = KNXSecureCrypto.ctr(key, Buffer.concat([nonce, Buffer.from([0xff, 0x00])]), mac, frame);
+
+    return Buffer.concat([header, sessionField, nonce, encrypted.payload, encrypted.mac]);
+  }
+
+  /**
+   * Decrypts a SECURE_WRAPPER and checks its MAC.
+   * @throws SecureWrapperError when the frame is malformed or not authentic
+   */
+  static unwrap(key: Buffer, msg: Buffer): SecureWrapperFrame {
+    if (msg.length < KNXSecureCrypto.WRAPPER_OVERHEAD) throw new SecureWrapperError("SECURE_WRAPPER too short");
+    const header = msg.subarray(0, 6);
+    const sessionField = msg.subarray(6, 8);
+    const nonce = msg.subarray(8, 22);
+    const encrypted = msg.subarray(22, msg.length - 16);
+    const receivedMac = msg.subarray(msg.length - 16);
+
+    const decrypted = KNXSecureCrypto.ctr(
+      key,
+      Buffer.concat([nonce, Buffer.from([0xff, 0x00])]),
+      receivedMac,
+      encrypted,
+    );
+    const lengthField = Buffer.alloc(2);
+    lengthField.writeUInt16BE(decrypted.payload.length);
+    const mac = KNXSecureCrypto.cbcMac(
+      key,
+      Buffer.concat([header, sessionField]),
+      decrypted.payload,
+      Buffer.concat([nonce, lengthField]),
+    );
+    if (!crypto.timingSafeEqual(mac, decrypted.mac)) throw new SecureWrapperError("SECURE_WRAPPER MAC mismatch");
+
+    return {
+      sessionId: sessionField.readUInt16BE(),
+      sequence: nonce.readUIntBE(0, 6),
+      serialNumber: Buffer.from(nonce.subarray(6, 12)),
+      messageTag: nonce.readUInt16BE(12),
+      frame: decrypted.payload,
+    };
+  }
+}
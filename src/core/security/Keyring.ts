@@ -0,0 +1,267 @@
+import crypto from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { KNXHelper } from "../../utils/KNXHelper";
+import { KeyringError } from "../../errors/SecureErrors";
+import {
+  KNXDataSecureOptions,
+  KNXSecureRoutingOptions,
+  KNXSecureTunnelOptions,
+} from "../../@types/interfaces/connection";
+
+/**
+ * Backbone of the secure IP line. Usable as `secureRouting` of a KNXnetIPServer.
+ */
+export interface KeyringBackbone extends Required<KNXSecureRoutingOptions> {
+  multicastAddress: string;
+}
+
+/**
+ * Secure tunnel of a KNXnet/IP interface. Usable as `secure` of a KNXTunneling.
+ */
+export interface KeyringTunnel extends KNXSecureTunnelOptions {
+  /** Individual address of the tunnel */
+  individualAddress: string;
+  /** Individual address of the interface that hosts the tunnel */
+  host: string | null;
+  userPassword: string;
+}
+
+export interface KeyringDevice {
+  individualAddress: string;
+  serialNumber: string | null;
+  /** Tool key, the Data Secure key for point-to-point (management) telegrams */
+  toolKey: Buffer | null;
+  managementPassword: string | null;
+  /** Device authentication code of a KNXnet/IP Secure interface */
+  deviceAuthenticationCode: string | null;
+  /** Last sequence number known by ETS */
+  sequenceNumber: number;
+}
+
+export interface KeyringLoadOptions {
+  /**
+   * Check the Signature of the file with the password before decrypting. Defaults to true.
+   */
+  verifySignature?: boolean;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+/**
+ * ETS keyring (.knxkeys) with the secrets decrypted.
+ * Keys and passwords are AES-128-CBC encrypted with the PBKDF2 hash of the keyring password and
+ * the first 16 bytes of SHA-256 over the `Created` attribute as IV.
+ */
+export class Keyring {
+  readonly project: string;
+  readonly createdBy: string;
+  readonly created: string;
+  readonly backbone: KeyringBackbone | null = null;
+  readonly tunnels: KeyringTunnel[] = [];
+  readonly devices: KeyringDevice[] = [];
+  /** Data Secure keys by group address ("1/2/3") */
+  readonly groupKeys: Record<string, Buffer> = {};
+
+  private constructor(root: XmlElement, passwordHash: Buffer) {
+    this.project = root.attributes.Project ?? "";
+    this.createdBy = root.attributes.CreatedBy ?? "";
+    this.created = root.attributes.Created ?? "";
+    const iv = crypto.createHash("sha256").update(this.created, "utf8").digest().subarray(0, 16);
+    const decryptKey = (value?: string) =>
+      value ? Keyring.decrypt(Buffer.from(value, "base64"), passwordHash, iv).subarray(0, 16) : null;
+    const decryptPassword = (value?: string) =>
+      value ? Keyring.extractPassword(Keyring.decrypt(Buffer.from(value, "base64"), passwordHash, iv)) : null;
+
+    for (const element of root.children) {
+      switch (element.name) {
+        case "Backbone": {
+          const key = decryptKey(element.attributes.Key);
+          if (key) {
+            this.backbone = {
+              multicastAddress: element.attributes.MulticastAddress ?? "224.0.23.12",
+              backboneKey: key,
+              latencyTolerance: Number(element.attributes.Latency ?? 2000),
+            };
+          }
+          break;
+        }
+        case "Devices":
+          for (const device of element.children) {
+            const sequence = device.attributes.SequenceNumber;
+            this.devices.push({
+              individualAddress: device.attributes.IndividualAddress,
+              serialNumber: device.attributes.SerialNumber ?? null,
+              toolKey: decryptKey(device.attributes.ToolKey),
+              managementPassword: decryptPassword(device.attributes.ManagementPassword),
+              deviceAuthenticationCode: decryptPassword(device.attributes.Authentication),
+              sequenceNumber: sequence ? Number(sequence) : 0,
+            });
+          }
+          break;
+        case "GroupAddresses":
+          for (const group of element.children) {
+            const key = decryptKey(group.attributes.Key);
+            if (key) this.groupKeys[KNXHelper.GetAddress(Number(group.attributes.Address), "/")] = key;
+          }
+          break;
+      }
+    }
+
+    // Interfaces go last: the authentication code may come from the host device
+    for (const element of root.children) {
+      if (element.name !== "Interface" || element.attributes.Type !== "Tunneling") continue;
+      const userPassword = decryptPassword(element.attributes.Password);
+      if (!element.attributes.UserID || userPassword === null) continue;
+      const host = element.attributes.Host ?? null;
+      const deviceAuthenticationCode =
+        decryptPassword(element.attributes.Authentication) ?? this.getDevice(host)?.deviceAuthenticationCode;
+      this.tunnels.push({
+        individualAddress: element.attributes.IndividualAddress,
+        host,
+        userId: Number(element.attributes.UserID),
+        userPassword,
+        ...(deviceAuthenticationCode ? { deviceAuthenticationCode } : {}),
+      });
+    }
+  }
+
+  /**
+   * Reads and decrypts an ETS `.knxkeys` file.
+   * @throws KeyringError when the file is not a keyring or the password is wrong
+   */
+  static async load(path: string, password: string, options: KeyringLoadOptions = {}): Promise<Keyring> {
+    return Keyring.parse(await readFile(path, "utf8"), password, options);
+  }
+
+  /**
+   * Decrypts the XML content of a `.knxkeys` file.
+   * @throws KeyringError when the content is not a keyring or the password is wrong
+   */
+  static parse(xml: string, password: string, options: KeyringLoadOptions = {}): Keyring {
+    const { root, signature } = parseKeyringXml(xml);
+    if (root.name !== "Keyring") throw new KeyringError("Not a KNX keyring: the root element must be <Keyring>");
+
+    const passwordHash = crypto.pbkdf2Sync(Buffer.from(password, "utf8"), "1.keyring.ets.knx.org", 65536, 16, "sha256");
+    if (options.verifySignature ?? true) {
+      const expected = root.attributes.Signature;
+      if (!expected) throw new KeyringError("The keyring has no Signature");
+      signature.update(keyringString(passwordHash.toString("base64")));
+      if (!signature.digest().subarray(0, 16).equals(Buffer.from(expected, "base64"))) {
+        throw new KeyringError("Keyring signature mismatch, check the password");
+      }
+    }
+
+    try {
+      return new Keyring(root, passwordHash);
+    } catch (e: any) {
+      throw new KeyringError(`Keyring could not be decrypted: ${e.message}`);
+    }
+  }
+
+  getTunnel(individualAddress: string): KeyringTunnel | undefined {
+    return this.tunnels.find((tunnel) => tunnel.individualAddress === individualAddress);
+  }
+
+  /**
+   * Secure tunnels hosted by an interface, in user ID order
+   */
+  getTunnelsOf(host: string): KeyringTunnel[] {
+    return this.tunnels.filter((tunnel) => tunnel.host === host).sort((a, b) => a.userId - b.userId);
+  }
+
+  getDevice(individualAddress: string | null): KeyringDevice | undefined {
+    return this.devices.find((device) => device.individualAddress === individualAddress);
+  }
+
+  /**
+   * Options for `dataSecure`: group keys, tool keys of the devices and their last sequence numbers.
+   */
+  get dataSecure(): KNXDataSecureOptions {
+    const keys: Record<string, Buffer> = { ...this.groupKeys };
+    const lastSequenceNumbers: Record<string, number> = {};
+    for (const device of this.devices) {
+      if (device.toolKey) keys[device.individualAddress] = device.toolKey;
+      if (device.sequenceNumber) lastSequenceNumbers[device.individualAddress] = device.sequenceNumber;
+    }
+    return { keys, lastSequenceNumbers };
+  }
+
+  private static decrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv("aes-128-cbc", key, iv);
+    decipher.setAutoPadding(false);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  /**
+   * Passwords are stored as 8 random bytes + UTF-8 password + padding (the last byte is its length).
+   */
+  private static extractPassword(data: Buffer): string {
+    const padding = data[data.length - 1];
+    if (data.length < 8 + padding || padding === 0) throw new KeyringError("Invalid padding of a keyring password");
+    return data.subarray(8, data.length - padding).toString("utf8");
+  }
+}
+
+/**
+ * Length-prefixed UTF-8 string of the signature stream
+ */
+function keyringString(value: string): Buffer {
+  const data = Buffer.from(value, "utf8");
+  return Buffer.concat([Buffer.from([data.length]), data]);
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] === "#") {
+      return String.fromCodePoint(entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity]!;
+  });
+}
+
+/**
+ * Minimal XML reader for the keyring (elements and attributes only). While walking it feeds the
+ * signature stream: 01h + name + sorted attributes (without xmlns and Signature) on each start tag,
+ * 02h on each end tag.
+ */
+function parseKeyringXml(xml: string): { root: XmlElement; signature: crypto.Hash } {
+  const signature = crypto.createHash("sha256");
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  const tagPattern = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  const content = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, "");
+  for (const [, closing, qualifiedName, rawAttributes, selfClosing] of content.matchAll(tagPattern)) {
+    const name = qualifiedName.split(":").pop()!;
+    if (closing) {
+      if (stack.pop()?.name !== name) throw new KeyringError(`Malformed keyring XML near </${name}>`);
+      signature.update(Buffer.from([0x02]));
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [] };
+    for (const [, attribute, doubleQuoted, singleQuoted] of rawAttributes.matchAll(attributePattern)) {
+      element.attributes[attribute] = decodeXmlEntities(doubleQuoted ?? singleQuoted);
+    }
+    signature.update(Buffer.from([0x01]));
+    signature.update(keyringString(name));
+    for (const attribute of Object.keys(element.attributes).sort()) {
+      if (attribute === "xmlns" || attribute.startsWith("xmlns:") || attribute === "Signature") continue;
+      signature.update(keyringString(attribute));
+      signature.update(keyringString(element.attributes[attribute]));
+    }
+
+    if (stack.length) stack[stack.length - 1].children.push(element);
+    else if (!root) root = element;
+    if (selfClosing) signature.update(Buffer.from([0x02]));
+    else stack.push(element);
+  }
+
+  if (!root || stack.length) throw new KeyringError("Malformed keyring XML");
+  return { root, signature };
+}
@@ -0,0 +1,149 @@
+import crypto from "node:crypto";
+import { KNXnetIPHeader } from "../KNXnetIPHeader";
+import { KNXnetIPServiceType } from "../enum/KNXnetIPEnum";
+import { KNXSecureCrypto } from "./KNXSecureCrypto";
+
+/**
+ * Routing frames dropped by the secure routing layer.
+ */
+export interface SecureRoutingCounters {
+  /** Plain routing frames received while secure routing is enabled */
+  plain: number;
+  /** SECURE_WRAPPER / TIMER_NOTIFY with a wrong MAC or a unicast session ID */
+  unauthenticated: number;
+  /** Frames whose timer value was already seen from the same sender */
+  replayed: number;
+  /** Frames older than the latency tolerance (a TIMER_NOTIFY is sent back) */
+  outdated: number;
+}
+
+/**
+ * KNX IP Secure routing (multicast) with the backbone key.
+ * Every routing frame travels in a SECURE_WRAPPER with session ID 0 whose sequence field carries the
+ * shared multicast timer (milliseconds). TIMER_NOTIFY keeps the timers of all devices in sync.
+ */
+export class SecureRouting {
+  public readonly counters: SecureRoutingCounters = { plain: 0, unauthenticated: 0, replayed: 0, outdated: 0 };
+  private timerOffset: number = 0;
+  private lastSentTimer: number = -1;
+  private lastTimerBySerial = new Map<string, number>();
+
+  constructor(
+    private readonly backboneKey: Buffer,
+    private readonly serialNumber: Buffer,
+    private readonly latencyTolerance: number,
+  ) {
+    if (backboneKey.length !== 16) throw new Error("The backbone key must be 16 bytes long");
+  }
+
+  /**
+   * Current value of the multicast timer in milliseconds
+   */
+  get timer(): number {
+    return Math.floor(performance.now()) + this.timerOffset;
+  }
+
+  wrap(frame: Buffer): Buffer {
+    // Two frames in the same millisecond must not share a timer value
+    const timer = Math.max(this.timer, this.lastSentTimer + 1);
+    this.lastSentTimer = timer;
+    return KNXSecureCrypto.wrap(this.backboneKey, 0, timer, this.serialNumber, 0, frame);
+  }
+
+  /**
+   * Decrypts a routing SECURE_WRAPPER.
+   * `frame` is null when the wrapper must be dropped, `notify` holds the TIMER_NOTIFY to multicast
+   * when the sender's timer is outdated.
+   */
+  unwrap(msg: Buffer): { frame: Buffer | null; notify: Buffer | null } {
+    let wrapper;
+    try {
+      wrapper = KNXSecureCrypto.unwrap(this.backboneKey, msg);
+    } catch {
+      this.counters.unauthenticated++;
+      return { frame: null, notify: null };
+    }
+    if (wrapper.sessionId !== 0) {
+      this.counters.unauthenticated++;
+      return { frame: null, notify: null };
+    }
+
+    if (wrapper.sequence < this.timer - this.latencyTolerance) {
+      this.counters.outdated++;
+      return { frame: null, notify: this.buildTimerNotify(wrapper.serialNumber, wrapper.messageTag) };
+    }
+
+    const sender = wrapper.serialNumber.toString("hex");
+    const last = this.lastTimerBySerial.get(sender);
+    if (last !== undefined && wrapper.sequence <= last) {
+      this.counters.replayed++;
+      return { frame: null, notify: null };
+    }
+    this.lastTimerBySerial.set(sender, wrapper.sequence);
+    this.synchronize(wrapper.sequence);
+
+    return { frame: wrapper.frame, notify: null };
+  }
+
+  /**
+   * Processes a TIMER_NOTIFY. A newer timer is adopted; when ours is ahead beyond the tolerance
+   * the returned TIMER_NOTIFY corrects the sender.
+   * Body: Timer(6) + SerialNumber(6) + MessageTag(2) + MAC(16)
+   */
+  handleTimerNotify(msg: Buffer): Buffer | null {
+    if (msg.length < 36) {
+      this.counters.unauthenticated++;
+      return null;
+    }
+    const nonce = msg.subarray(6, 20);
+    const mac = KNXSecureCrypto.cbcMac(
+      this.backboneKey,
+      msg.subarray(0, 6),
+      Buffer.alloc(0),
+      Buffer.concat([nonce, Buffer.alloc(2)]),
+    );
+    const decrypted = KNXSecureCrypto.ctr(
+      this.backboneKey,
+      Buffer.concat([nonce, Buffer.from([0xff, 0x00])]),
+      msg.subarray(20, 36),
+    );
+    if (!crypto.timingSafeEqual(mac, decrypted.mac)) {
+      this.counters.unauthenticated++;
+      return null;
+    }
+
+    const timer = nonce.readUIntBE(0, 6);
+    if (timer > this.timer) {
+      this.synchronize(timer);
+      return null;
+    }
+    if (timer < this.timer - this.latencyTolerance) {
+      return this.buildTimerNotify(this.serialNumber, crypto.randomBytes(2).readUInt16BE());
+    }
+    return null;
+  }
+
+  /**
+   * TIMER_NOTIFY with the local timer, addressed to the device identified by serial number and message tag.
+   */
+  buildTimerNotify(serialNumber: Buffer = this.serialNumber, messageTag: number = 0): Buffer {
+    const header = new KNXnetIPHeader(KNXnetIPServiceType.TIMER_NOTIFY, 36).toBuffer();
+    const nonce = Buffer.alloc(14);
+    nonce.writeUIntBE(this.timer, 0, 6);
+    serialNumber.copy(nonce, 6);
+    nonce.writeUInt16BE(messageTag, 12);
+
+    const mac = KNXSecureCrypto.cbcMac(
+      this.backboneKey,
+      header,
+      Buffer.alloc(0),
+      Buffer.concat([nonce, Buffer.alloc(2)]),
+    );
+    const encrypted = KNXSecureCrypto.ctr(this.backboneKey, Buffer.concat([nonce, Buffer.from([0xff, 0x00])]), mac);
+    return Buffer.concat([header, nonce, encrypted.mac]);
+  }
+
+  private synchronize(timer: number) {
+    if (timer > this.timer) this.timerOffset += timer - this.timer;
+  }
+}
@@ -0,0 +1,110 @@
+import crypto from "node:crypto";
+import { KNXnetIPHeader } from "../KNXnetIPHeader";
+import { HPAI } from "../KNXnetIPStructures";
+import { KNXnetIPServiceType, SecureSessionStatus } from "../enum/KNXnetIPEnum";
+import { KNXSecureCrypto } from "./KNXSecureCrypto";
+import { SecureSessionError, SecureWrapperError } from "../../errors/SecureErrors";
+
+export interface SecureSessionCredentials {
+  /** Tunnel user ID (1..127) */
+  userId: number;
+  /** Derived password hash of the user (16 bytes) */
+  userPasswordHash: Buffer;
+  /** Derived device authentication code (16 bytes). Without it the server is not authenticated */
+  deviceAuthenticationCode?: Buffer;
+  /** KNX serial number of this client (6 bytes) */
+  serialNumber: Buffer;
+}
+
+/**
+ * Client side of a KNX IP Secure session (unicast, over TCP).
+ * Handshake: SESSION_REQUEST -> SESSION_RESPONSE -> SESSION_AUTHENTICATE (wrapped) -> SESSION_STATUS (wrapped).
+ * Once the session key is known every frame travels inside a SECURE_WRAPPER.
+ */
+export class SecureSession {
+  public sessionId: number = 0;
+  private sessionKey: Buffer | null = null;
+  private readonly keyPair = KNXSecureCrypto.generateKeyPair();
+  private txSequence: number = 0;
+  private rxSequence: number = -1;
+
+  constructor(private readonly credentials: SecureSessionCredentials) {
+    if (credentials.userId < 1 || credentials.userId > 127) {
+      throw new SecureSessionError(`Invalid secure user ID: ${credentials.userId}`);
+    }
+  }
+
+  /**
+   * True once SESSION_RESPONSE was processed and frames have to be wrapped.
+   */
+  get isEstablished(): boolean {
+    return this.sessionKey !== null;
+  }
+
+  buildSessionRequest(hpai: HPAI): Buffer {
+    const body = Buffer.concat([hpai.toBuffer(), this.keyPair.publicKey]);
+    const header = new KNXnetIPHeader(KNXnetIPServiceType.SESSION_REQUEST, 6 + body.length);
+    return Buffer.concat([header.toBuffer(), body]);
+  }
+
+  /**
+   * Derives the session key from SESSION_RESPONSE and returns the (plain) SESSION_AUTHENTICATE frame.
+   * Body: SessionID(2) + ServerPublicKey(32) + MAC(16)
+   * @throws SecureSessionError when the device authentication code doesn't match
+   */
+  handleSessionResponse(msg: Buffer): Buffer {
+    if (msg.length < 56) throw new SecureSessionError("SESSION_RESPONSE too short");
+    const sessionId = msg.readUInt16BE(6);
+    const serverPublicKey = msg.subarray(8, 40);
+    const receivedMac = msg.subarray(40, 56);
+    const publicKeysXor = KNXSecureCrypto.xor(this.keyPair.publicKey, serverPublicKey);
+
+    if (this.credentials.deviceAuthenticationCode) {
+      const key = this.credentials.deviceAuthenticationCode;
+      const mac = KNXSecureCrypto.cbcMac(key, Buffer.concat([msg.subarray(0, 8), publicKeysXor]));
+      const decrypted = KNXSecureCrypto.ctr(key, KNXSecureCrypto.COUNTER_0_HANDSHAKE, receivedMac);
+      if (!crypto.timingSafeEqual(mac, decrypted.mac)) {
+        throw new SecureSessionError("SESSION_RESPONSE not authentic, check the device authentication code");
+      }
+    }
+
+    this.sessionId = sessionId;
+    this.sessionKey = KNXSecureCrypto.deriveSessionKey(this.keyPair.privateKey, serverPublicKey);
+
+    // Body: Reserved(1) + UserID(1) + MAC(16)
+    const header = new KNXnetIPHeader(KNXnetIPServiceType.SESSION_AUTHENTICATE, 24).toBuffer();
+    const user = Buffer.from([0x00, this.credentials.userId]);
+    const key = this.credentials.userPasswordHash;
+    const mac = KNXSecureCrypto.cbcMac(key, Buffer.concat([header, user, publicKeysXor]));
+    const encrypted = KNXSecureCrypto.ctr(key, KNXSecureCrypto.COUNTER_0_HANDSHAKE, mac);
+    return Buffer.concat([header, user, encrypted.mac]);
+  }
+
+  static buildSessionStatus(status: SecureSessionStatus): Buffer {
+    const header = new KNXnetIPHeader(KNXnetIPServiceType.SESSION_STATUS, 8);
+    return Buffer.concat([header.toBuffer(), Buffer.from([status, 0x00])]);
+  }
+
+  wrap(frame: Buffer): Buffer {
+    if (!this.sessionKey) throw new SecureSessionError("Secure session not established");
+    const sequence = this.txSequence++;
+    return KNXSecureCrypto.wrap(this.sessionKey, this.sessionId, sequence, this.credentials.serialNumber, 0, frame);
+  }
+
+  /**
+   * Decrypts a SECURE_WRAPPER of this session.
+   * @throws SecureWrapperError for foreign sessions, failed authentication or replayed sequence numbers
+   */
+  unwrap(msg: Buffer): Buffer {
+    if (!this.sessionKey) throw new SecureWrapperError("Secure session not established");
+    const wrapper = KNXSecureCrypto.unwrap(this.sessionKey, msg);
+    if (wrapper.sessionId !== this.sessionId) {
+      throw new SecureWrapperError(`SECURE_WRAPPER for unknown session ${wrapper.sessionId}`);
+    }
+    if (wrapper.sequence <= this.rxSequence) {
+      throw new SecureWrapperError(`Replayed SECURE_WRAPPER (sequence ${wrapper.sequence})`);
+    }
+    this.rxSequence = wrapper.sequence;
+    return wrapper.frame;
+  }
+}
@@ -0,0 +1,23 @@
+import type { CEMI } from "../core/CEMI";
+
+export class NegativeConfirmationError extends Error {
+  readonly confirmation: InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.con"]>;
+  constructor(confirmation: InstanceType<(typeof CEMI)["DataLinkLayerCEMI"]["L_Data.con"]>) {
+    super(`Negative L_Data.con received for ${confirmation.destinationAddress}`);
+    this.confirmation = confirmation;
+  }
+}
+export class ConfirmationTimeoutError extends Error {
+  constructor(destination: string, timeout: number) {
+    super(`No L_Data.con received for ${destination} within ${timeout} ms`);
+  }
+}
+/** Why the TP-UART did not transmit a frame: NAK, busy bus after the retries or no confirmation service */
+export type TransmitFailure = "NAK" | "BUSY" | "TIMEOUT";
+export class TransmitError extends Error {
+  readonly failure: TransmitFailure;
+  constructor(message: string, failure: TransmitFailure) {
+    super(message);
+    this.failure = failure;
+  }
+}
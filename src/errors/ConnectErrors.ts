@@ -0,0 +1,35 @@
+export class ConnectError extends Error {
+  /** Error code of the CONNECT_RESPONSE (KNXnetIPErrorCodes) */
+  readonly status: number;
+  constructor(status: number, detail?: string) {
+    super(`Connect Error: 0x${status.toString(16)}${detail ? `, ${detail}` : ""}`);
+    this.status = status;
+  }
+}
+/**
+ * E_NO_MORE_UNIQUE_CONNECTIONS: the requested tunnel address is taken or not offered by the server,
+ * or the server has no free address left
+ */
+export class TunnelAddressUnavailableError extends ConnectError {
+  readonly requestedAddress: string | null;
+  constructor(status: number, requestedAddress: string | null) {
+    super(
+      status,
+      requestedAddress ? `tunnel address ${requestedAddress} is not available` : "no free tunnel address on the server",
+    );
+    this.requestedAddress = requestedAddress;
+  }
+}
+/**
+ * E_CONNECTION_IN_USE: the requested tunnel address is held by another connection
+ */
+export class TunnelConnectionInUseError extends ConnectError {
+  readonly requestedAddress: string | null;
+  constructor(status: number, requestedAddress: string | null) {
+    super(
+      status,
+      requestedAddress ? `tunnel address ${requestedAddress} is in use by another connection` : "connection in use",
+    );
+    this.requestedAddress = requestedAddress;
+  }
+}
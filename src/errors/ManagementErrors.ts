@@ -0,0 +1,13 @@
+export class PropertyAccessError extends Error {
+  /** Error code of the negative confirmation (ErrorCodeSet) */
+  readonly errorCode: number;
+  constructor(service: string, errorCode: number) {
+    super(`${service} failed with error code 0x${errorCode.toString(16).padStart(2, "0")}`);
+    this.errorCode = errorCode;
+  }
+}
+export class ManagementTimeoutError extends Error {
+  constructor(service: string, timeout: number) {
+    super(`No confirmation received for ${service} within ${timeout} ms`);
+  }
+}
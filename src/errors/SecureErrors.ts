@@ -0,0 +1,17 @@
+export class SecureSessionError extends Error {
+  readonly status?: number;
+  constructor(msg: string, status?: number) {
+    super(msg);
+    this.status = status;
+  }
+}
+export class SecureWrapperError extends Error {
+  constructor(msg: string) {
+    super(msg);
+  }
+}
+export class KeyringError extends Error {
+  constructor(msg: string) {
+    super(msg);
+  }
+}
@@ -2,6 +2,18 @@ export { KnxDataDecode } from "./core/data/KNXDataDecode";
 export { KnxDataEncoder } from "./core/data/KNXDataEncode";
 export { KNXnetIPServer } from "./connection/KNXnetIPServer";
 export { KNXTunneling } from "./connection/KNXTunneling";
+export { KNXnetIPDiscovery } from "./connection/KNXnetIPDiscovery";
+export { JsonFileStateStore } from "./connection/JsonFileStateStore";
+export { NegativeConfirmationError, ConfirmationTimeoutError, TransmitError } from "./errors/ConfirmationErrors";
+export { SecureSessionError, SecureWrapperError, KeyringError } from "./errors/SecureErrors";
+export { PropertyAccessError, ManagementTimeoutError } from "./errors/ManagementErrors";
+export { ConnectError, TunnelAddressUnavailableError, TunnelConnectionInUseError } from "./errors/ConnectErrors";
+export { KNXSecureCrypto } from "./core/security/KNXSecureCrypto";
+export type { SecureRoutingCounters } from "./core/security/SecureRouting";
+export { DataSecure } from "./core/security/DataSecure";
+export type { DataSecureCounters } from "./core/security/DataSecure";
+export { Keyring } from "./core/security/Keyring";
+export type { KeyringBackbone, KeyringTunnel, KeyringDevice, KeyringLoadOptions } from "./core/security/Keyring";
 export { KNXWebSocketGateway } from "./server/KNXWebSocketServer";
 export { KNXMQTTGateway } from "./server/KNXMQTTGateway";
 export * from "./connection/Router";
@@ -15,6 +27,31 @@ export * from "./@types/interfaces/DPTs";
 export * from "./core/enum/APCIEnum";
 export * from "./core/enum/EnumControlField";
 export { AddressType } from "./core/enum/EnumControlFieldExtended";
+export {
+  ConnectionType,
+  DescriptionType,
+  SRPType,
+  TunnellingFeature,
+  SecureSessionStatus,
+} from "./core/enum/KNXnetIPEnum";
+export * from "./core/enum/InterfaceObjectEnum";
+export { InterfaceObject, InterfaceObjectTable } from "./core/InterfaceObjects";
+export type { PropertyDefinition, PropertyDescription } from "./core/InterfaceObjects";
+export { KNXnetIPFeatures } from "./core/KNXnetIPFeatures";
+export type { TunnellingFeatureValues } from "./core/KNXnetIPFeatures";
+export {
+  SRP,
+  DIB,
+  DeviceInformationDIB,
+  SupportedServicesDIB,
+  IPConfigDIB,
+  IPCurrentConfigDIB,
+  KNXAddressesDIB,
+  TunnellingInfoDIB,
+  ExtendedDeviceInformationDIB,
+  MfrDataDIB,
+  UnknownDIB,
+} from "./core/KNXnetIPStructures";
 export * from "./core/ControlField";
 export * from "./core/ControlFieldExtended";
 export * from "./core/layers/data/APDU";
@@ -27,13 +64,39 @@ export * from "./@types/interfaces/servers";
 export type { CEMIInstance } from "./core/CEMI";
 export type { EMIInstance } from "./core/EMI";
 export type { ServiceMessage } from "./@types/interfaces/ServiceMessage";
+export type { LDataConfirmation } from "./connection/KNXService";
 export type {
   KNXnetIPServerOptions,
   TPUARTOptions,
   KNXUSBOptions,
   KNXLoggerOptions,
   KNXTunnelingOptions,
+  KNXReconnectOptions,
+  KNXSecureTunnelOptions,
+  KNXSecureRoutingOptions,
+  KNXDataSecureOptions,
+  KNXServerState,
+  KNXServerStateStore,
+  KNXTunnelAdmissionOptions,
+  KNXTunnelLayerName,
+  KNXConnectionRejection,
+  KNXBusmonitorFrame,
+  KNXTunnelSession,
   RouterConnOptions,
+  KNXRouterAddressFilter,
+  KNXRouterFilterRules,
+  KNXRouterLinkFilter,
+  KNXRouterAddressTranslation,
+  KNXRouterLinkState,
+  KNXRouterLinkStatus,
+  KNXRouterLinkQueueOptions,
+  KNXCouplerOptions,
+  KNXCouplerDirection,
+  KNXCouplerRouting,
   KNXDiscoveredDevice,
+  KNXDiscoveryOptions,
+  KNXSearchFilter,
+  KNXDescribeOptions,
+  KNXDeviceDescription,
   IndicationRouterLink,
 } from "./@types/interfaces/connection";
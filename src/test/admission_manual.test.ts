@@ -0,0 +1,50 @@
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXTunnelAdmissionOptions } from "../@types/interfaces/connection";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const localIp = getLocalIP();
+
+// Opens `clients` tunnels against a server with the given rules and prints what each one gets
+async function tryAdmission(label: string, admission: KNXTunnelAdmissionOptions, clients = 1) {
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp,
+    admission,
+    logOptions: { enabled: false },
+  });
+  server.on("connection_rejected", ({ status, reason }) =>
+    console.log(`[${label}] connection_rejected 0x${status.toString(16)}: ${reason}`),
+  );
+  await server.connect();
+
+  const tunnels: KNXTunneling[] = [];
+  for (let i = 0; i < clients; i++) {
+    const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+    client.on("error", () => {});
+    tunnels.push(client);
+    try {
+      await client.connect();
+      console.log(`[${label}] Tunnel ${i + 1} connected as ${client.individualAddress}`);
+    } catch (e: any) {
+      console.log(`[${label}] Tunnel ${i + 1} refused: ${e.message}`);
+    }
+  }
+  tunnels.forEach((client) => client.disconnect());
+  await wait(300);
+  server.disconnect();
+  await wait(300);
+}
+
+async function testAdmission() {
+  console.log(`
+--- Testing tunnel admission control ---`);
+  await tryAdmission("allow", { allow: ["10.0.0.0/8"] });
+  await tryAdmission("deny", { deny: [localIp] });
+  await tryAdmission("maxConnectionsPerIp", { maxConnectionsPerIp: 1 }, 2);
+  await tryAdmission("pinnedAddresses", { pinnedAddresses: { [localIp]: "15.15.40" } });
+  await tryAdmission("layers", { layers: { [`${localIp}/32`]: ["busmonitor"] } });
+}
+
+testAdmission();
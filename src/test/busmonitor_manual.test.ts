@@ -0,0 +1,52 @@
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXBusmonitorFrame } from "../@types/interfaces/connection";
+import { decodeBusmonitorFrame } from "../core/BusmonitorFrame";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const print = (label: string, frame: KNXBusmonitorFrame) =>
+  console.log(
+    `[${label}] ${frame.raw.toString("hex")} ${frame.frameFormat} checksum ${frame.checksumValid ? "OK" : "BAD"}` +
+      ` ${frame.acknowledgement ?? `${frame.sourceAddress} -> ${frame.destinationAddress} (${frame.addressType})`}` +
+      ` tpdu ${frame.tpdu?.toString("hex")} status ${JSON.stringify(frame.status)} timestamp ${frame.timestamp}`,
+  );
+
+// Passive probe on a busmonitor tunnel
+async function testBusmonitor() {
+  console.log(`
+--- Testing KNXTunneling busmonitor mode ---`);
+  // L_Busmon.ind hechos a mano: status con bit error + timestamp, ACK corto y trama extendida con checksum malo
+  print("Decode", decodeBusmonitorFrame(Buffer.from("2b07" + "030146" + "04020123" + "bc110a0a03e1008131", "hex")));
+  print("Decode", decodeBusmonitorFrame(Buffer.from("2b03" + "030100" + "cc", "hex")));
+  print("Decode", decodeBusmonitorFrame(Buffer.from("2b00" + "3ce011011102010080" + "00", "hex")));
+
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({ individualAddress: "15.15.0", localIp, logOptions: { enabled: false } });
+  await server.connect();
+  const monitor = new KNXTunneling({
+    ip: localIp,
+    port: 3671,
+    localIp,
+    busmonitor: true,
+    logOptions: { enabled: false },
+  });
+  const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  monitor.on("busmonitor", (frame: KNXBusmonitorFrame) => print("Monitor", frame));
+  await monitor.connect();
+  await client.connect();
+
+  await client.send(Buffer.from("1100bce000000a03010081", "hex"));
+  await wait(300);
+  await monitor
+    .send(Buffer.from("1100bce000000a03010080", "hex"))
+    .catch((err) => console.log(`[Monitor] ${err.message}`));
+
+  client.disconnect();
+  monitor.disconnect();
+  await wait(300);
+  server.disconnect();
+}
+
+testBusmonitor();
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { Router } from "../connection/Router";
+import { FakeLink, flush, frame } from "./helpers/fake_link";
+
+async function testCoupler() {
+  console.log(`
+--- Testing Router line coupler mode ---`);
+  const router = new Router({
+    routerAddress: "1.1.0",
+    coupler: {
+      mainLinks: ["IP Tunneling: test"],
+      filterTable: ["1/0/*"],
+      subToMain: { individual: "route" },
+    },
+  });
+  const main = new FakeLink("IP");
+  const line = new FakeLink("TPUART");
+  const lineUsb = new FakeLink("KNXUSB");
+  router.registerLink("IP Tunneling: test", main.asService());
+  router.registerLink("TPUART", line.asService());
+  router.registerLink("KNXUSB", lineUsb.asService());
+  const filterTableSizes: number[] = [];
+  router.on("filter_table_changed", ({ filterTable }) => filterTableSizes.push(filterTable.length));
+
+  // Grupo: solo la tabla de filtros (y 0/0/0) cruza hacia la línea
+  for (const destination of ["1/0/5", "1/1/5", "0/0/0"]) main.emit("indication", frame("2.2.2", destination));
+  // Individual: solo lo que va a la línea 1.1
+  for (const destination of ["1.1.20", "1.2.20"]) main.emit("indication", frame("2.2.2", destination));
+  await flush();
+  console.log(`[TPUART] ${line.destinations.join(", ")}`);
+  assert.deepEqual(line.destinations, ["1/0/5", "0/0/0", "1.1.20"]);
+
+  // Desde la línea: el USB comparte la línea y lo recibe todo, las individuales se enrutan siempre
+  line.emit("indication", frame("1.1.5", "1/1/5"));
+  line.emit("indication", frame("1.1.5", "1.1.30"));
+  await flush();
+  console.log(`[KNXUSB] ${lineUsb.destinations.join(", ")}`);
+  console.log(`[IP] ${main.destinations.join(", ")}`);
+  assert.deepEqual(lineUsb.destinations, ["1/0/5", "0/0/0", "1.1.20", "1/1/5", "1.1.30"]);
+  assert.deepEqual(main.destinations, ["1.1.30"]);
+
+  // ETS: T_Connect, A_DeviceDescriptor_Read, A_FilterTable_Open/Write/Read y T_Disconnect
+  for (const tpdu of ["80", "4300", "47c0", "4bc30900018000", "4fc1080002", "81"]) {
+    main.emit("indication", frame("1.0.250", "1.1.0", { control: 0xb0, tpdu }));
+  }
+  await flush();
+  const responses = main.rawSent.map((cemi) => cemi.subarray(8).toString("hex"));
+  console.log(`[IP] Responses: ${responses.join(" ")}`);
+  assert.deepEqual(responses, ["00c2", "0343400912", "00c6", "00ca", "00ce", "0647c2080002ffff"]);
+  console.log(`[Router] Filter table changed: ${filterTableSizes.join(", ")} addresses`);
+  assert.deepEqual(filterTableSizes, [257]);
+  assert.equal(router.getFilterTable().length, 257);
+  assert.ok(router.getFilterTable().includes("1/1/0"));
+
+  assert.throws(
+    () => new Router({ routerAddress: "1.1.5", coupler: { mainLinks: [] } }),
+    /A coupler address must be area.line.0, got 1.1.5/,
+  );
+  router.disconnect();
+}
+
+testCoupler().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { KNXService } from "../connection/KNXService";
+import { DataSecure } from "../core/security/DataSecure";
+import { CEMI, CEMIInstance } from "../core/CEMI";
+import { APCIEnum } from "../core/enum/APCIEnum";
+
+const KEY = Buffer.from("000102030405060708090a0b0c0d0e0f", "hex");
+
+function testDataSecure() {
+  console.log(`
+--- Testing KNX Data Secure (S-A_Data) ---`);
+  const sender = new DataSecure({ keys: { "1/2/3": KEY }, sequenceNumber: 1 });
+  const receiver = new DataSecure({ keys: { "1/2/3": KEY } });
+
+  // GroupValue_Write 1/2/3 = 1 from 0.0.0 (the source is replaced, the MAC covers it)
+  const plain = Buffer.from("1100bce000000a03010081", "hex");
+  const secured = sender.secure(plain, "1.1.9");
+  console.log(`[DataSecure] Secured: ${secured.toString("hex")}`);
+
+  const indication = Buffer.from(secured);
+  indication[0] = 0x29; // L_Data.ind
+  const decrypted = receiver.unsecure(indication);
+  console.log(`[DataSecure] Decrypted: ${decrypted?.toString("hex")}`);
+  console.log(`[DataSecure] Parsed APDU: ${(CEMI.fromBuffer(decrypted!) as any).TPDU.toBuffer().toString("hex")}`);
+
+  console.log(`[DataSecure] Replay dropped: ${receiver.unsecure(indication) === null}`);
+  const forged = Buffer.from(indication);
+  forged[forged.length - 1] ^= 0x01;
+  console.log(
+    `[DataSecure] Forged MAC dropped: ${new DataSecure({ keys: { "1/2/3": KEY } }).unsecure(forged) === null}`,
+  );
+  console.log(
+    `[DataSecure] Plain telegram dropped: ${receiver.unsecure(Buffer.from("2900bce011090a03010080", "hex")) === null}`,
+  );
+  console.log(`[DataSecure] Counters: ${JSON.stringify(receiver.counters)}`);
+  console.log(`[DataSecure] Last sequence numbers: ${JSON.stringify(receiver.lastSequenceNumbers)}`);
+}
+
+// T_Connect, T_ACK... no llevan APDU: viajan en claro aunque haya tool key del dispositivo
+function testTransportControl() {
+  console.log(`
+--- Testing KNX Data Secure with transport control telegrams ---`);
+  const tool = new DataSecure({ keys: { "1.1.5": KEY }, sequenceNumber: 1 });
+  for (const tpdu of ["80", "81", "c2", "c6"]) {
+    const fromDevice = Buffer.from("2900b0601105110900" + tpdu, "hex");
+    assert.equal(tool.unsecure(fromDevice), fromDevice);
+    const toDevice = Buffer.from("1100b0600000110500" + tpdu, "hex");
+    assert.equal(tool.secure(toDevice, "1.1.9"), toDevice);
+  }
+  // Un T_Data en claro del dispositivo sí se descarta
+  assert.equal(tool.unsecure(Buffer.from("2900b060110511090343400912", "hex")), null);
+  assert.deepEqual(tool.counters, { plain: 1, unauthenticated: 0, replayed: 0 });
+  console.log(`[DataSecure] Transport control telegrams pass in plain: ${JSON.stringify(tool.counters)}`);
+}
+
+// sendIndividual() protege con la tool key del destino
+async function testPointToPoint() {
+  console.log(`
+--- Testing KNX Data Secure point-to-point sends ---`);
+  class Capture extends KNXService {
+    sent: CEMIInstance[] = [];
+    async connect() {}
+    disconnect() {}
+    async send(cemi: CEMIInstance) {
+      this.sent.push(cemi);
+    }
+  }
+  const service = new Capture({ dataSecure: { keys: { "1.1.5": KEY }, sequenceNumber: 1 } });
+  service.individualAddress = "1.1.9";
+  await service.sendIndividual("1.1.5", APCIEnum.A_DeviceDescriptor_Read_Protocol_Data_Unit, Buffer.from([0]), true);
+  await service.sendIndividual("1.1.6", APCIEnum.A_DeviceDescriptor_Read_Protocol_Data_Unit, Buffer.from([0]), true);
+  const [secured, plain] = service.sent.map((cemi) => cemi.toBuffer());
+  console.log(`[DataSecure] Secured: ${secured.toString("hex")}`);
+  console.log(`[DataSecure] Without tool key: ${plain.toString("hex")}`);
+  assert.equal(plain.toString("hex"), "1100b0601109110601" + "0300");
+  // A_SecureService (03F1h) con SCF de tool access
+  assert.equal(secured.subarray(9, 12).toString("hex"), "03f190");
+
+  // Nuestra propia confirmación se descifra con la clave del destino
+  const confirmation = Buffer.from(secured);
+  confirmation[0] = 0x2e; // L_Data.con
+  const decrypted = new DataSecure({ keys: { "1.1.5": KEY } }).unsecure(confirmation);
+  assert.equal(decrypted?.toString("hex"), "2e00b0601109110501" + "0300");
+}
+
+async function main() {
+  testDataSecure();
+  testTransportControl();
+  await testPointToPoint();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { KNXnetIPDiscovery } from "../connection/KNXnetIPDiscovery";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { IPConfigDIB, IPCurrentConfigDIB, KNXAddressesDIB, MfrDataDIB } from "../core/KNXnetIPStructures";
+
+const PORT = 3683;
+
+// DESCRIPTION_REQUEST a un KNXnetIPServer local, sin abrir túnel
+async function testDescribe() {
+  console.log(`
+--- Testing DESCRIPTION_REQUEST ---`);
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp: "127.0.0.1",
+    port: PORT,
+    serialNumber: Buffer.from("00fa01020304", "hex"),
+    macAddress: "00:24:6d:01:02:03",
+    friendlyName: "Description test",
+    logOptions: { enabled: false },
+  });
+  await server.connect();
+  try {
+    const description = await KNXTunneling.describe("127.0.0.1", PORT, { localIp: "127.0.0.1" });
+    console.log(`[Describe] DIBs: ${description.dibs.map((dib) => dib.constructor.name).join(", ")}`);
+    assert.equal(description.ip, "127.0.0.1");
+    assert.equal(description.port, PORT);
+    assert.equal(description.deviceInfo?.friendlyName, "Description test");
+    assert.equal(description.deviceInfo?.individualAddress, 0xff00);
+    assert.deepEqual(
+      description.supportedServices?.services.map((svc) => svc.family),
+      [0x02, 0x03, 0x04, 0x05],
+    );
+    assert.equal(description.ipConfig?.ipAssignmentMethod, 0x02);
+    assert.equal(description.ipCurrentConfig?.ipAssignmentMethod, 0x02);
+    assert.equal(description.tunnellingInfo?.slots.length, 15);
+    assert.equal(description.extendedDeviceInfo?.maximalLocalApduLength, 254);
+    assert.deepEqual(description.manufacturerData, []);
+    assert.deepEqual(description.unknown, []);
+
+    // Route back (NAT): el servidor responde a la dirección de origen
+    const routeBack = await KNXTunneling.describe("127.0.0.1", PORT, { useRouteBack: true });
+    assert.equal(routeBack.deviceInfo?.friendlyName, "Description test");
+    console.log("[Describe] Route back HPAI answered");
+  } finally {
+    server.disconnect();
+  }
+
+  await assert.rejects(
+    KNXTunneling.describe("127.0.0.1", PORT + 1, { localIp: "127.0.0.1", timeout: 300 }),
+    /Description Request Timeout \(127.0.0.1:3684\)/,
+  );
+  console.log("[Describe] No gateway: timeout");
+}
+
+// DIBs que el servidor no envía: KNX addresses, datos de fabricante y tipos desconocidos
+function testParseDIBs() {
+  console.log(`
+--- Testing DIB parsing ---`);
+  const block = Buffer.concat([
+    new IPConfigDIB("192.168.1.10", "255.255.255.0", "192.168.1.1", 0x07, 0x04).toBuffer(),
+    new IPCurrentConfigDIB("192.168.1.10", "255.255.255.0", "192.168.1.1", "192.168.1.1", 0x04).toBuffer(),
+    new KNXAddressesDIB(0x1101, [0x1102, 0x1103]).toBuffer(),
+    new MfrDataDIB(0x00c5, Buffer.from("0102", "hex")).toBuffer(),
+    Buffer.from("047fabcd", "hex"), // Tipo 0x7f desconocido
+    Buffer.from("0a01", "hex"), // Longitud mayor que lo que queda: se descarta
+  ]);
+  const description = KNXnetIPDiscovery.toDescription("192.168.1.10", 3671, KNXnetIPDiscovery.parseDIBs(block));
+  assert.equal(description.dibs.length, 5);
+  assert.equal(description.ipConfig?.defaultGateway, "192.168.1.1");
+  assert.equal(description.ipConfig?.ipCapabilities, 0x07);
+  assert.equal(description.ipCurrentConfig?.dhcpServer, "192.168.1.1");
+  assert.equal(description.knxAddresses?.knxIndividualAddress, 0x1101);
+  assert.deepEqual(description.knxAddresses?.additionalIndividualAddresses, [0x1102, 0x1103]);
+  assert.equal(description.manufacturerData.length, 1);
+  assert.equal(description.manufacturerData[0].manufacturerId, 0x00c5);
+  assert.equal(description.manufacturerData[0].data.toString("hex"), "0102");
+  assert.equal(description.unknown.length, 1);
+  assert.equal(description.unknown[0].type, 0x7f);
+  assert.equal(description.unknown[0].toBuffer().toString("hex"), "047fabcd");
+  console.log(`[DIB] ${description.dibs.map((dib) => dib.constructor.name).join(", ")}`);
+}
+
+async function main() {
+  await testDescribe();
+  testParseDIBs();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
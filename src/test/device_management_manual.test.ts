@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { ConnectionType } from "../core/enum/KNXnetIPEnum";
+import { DevicePropertyId, InterfaceObjectType, KNXnetIPPropertyId } from "../core/enum/InterfaceObjectEnum";
+import { getLocalIP } from "../utils/localIp";
+
+// Device management connection against the interface objects of a local KNXnetIPServer
+async function testDeviceManagement() {
+  console.log(`
+--- Testing Device Management (DEVICE_CONFIGURATION_REQUEST) ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({ individualAddress: "1.1.5", localIp, logOptions: { enabled: false } });
+  await server.connect();
+  server.on("property_changed", (change) =>
+    console.log(`[Server] property_changed PID ${change.propertyId}: ${change.value.toString("hex")}`),
+  );
+
+  const client = new KNXTunneling({
+    ip: localIp,
+    port: 3671,
+    localIp,
+    connectionType: ConnectionType.DEVICE_MGMT_CONNECTION,
+  });
+  // CONNECT_REQUEST: el CRI de device management son 2 bytes (02 03), sin capa KNX
+  let cri = "";
+  const sendRaw = client["sendRaw"].bind(client);
+  client["sendRaw"] = (buffer: Buffer) => {
+    if (buffer.readUInt16BE(2) === 0x0205) cri = buffer.subarray(22).toString("hex");
+    sendRaw(buffer);
+  };
+  client.on("property_info", (cemi) => console.log(`[Mgmt] M_PropInfo.ind: ${cemi.toBuffer().toString("hex")}`));
+
+  try {
+    await client.connect();
+    const IP = InterfaceObjectType.KNXNET_IP_PARAMETER;
+    const ia = await client.propertyRead(IP, 1, KNXnetIPPropertyId.PID_KNX_INDIVIDUAL_ADDRESS);
+    console.log(`[Mgmt] PID_KNX_INDIVIDUAL_ADDRESS: ${ia.toString("hex")}`);
+    const serial = await client.propertyRead(InterfaceObjectType.DEVICE, 1, DevicePropertyId.PID_SERIAL_NUMBER);
+    console.log(`[Mgmt] PID_SERIAL_NUMBER: ${serial.toString("hex")}`);
+    const tunnels = await client.propertyRead(IP, 1, KNXnetIPPropertyId.PID_ADDITIONAL_INDIVIDUAL_ADDRESSES, 1, 0);
+    console.log(`[Mgmt] Tunnel addresses: ${tunnels.readUInt16BE(0)}`);
+    const description = await client.propertyRead(IP, 1, 0, 1, 1);
+    console.log(`[Mgmt] Description of property index 1: ${description.toString("hex")}`);
+
+    const name = Buffer.alloc(30);
+    name.write("Renamed gateway");
+    // NoE has 4 bits: the 30 characters go in two writes
+    await client.propertyWrite(IP, 1, KNXnetIPPropertyId.PID_FRIENDLY_NAME, name.subarray(0, 15), 15, 1);
+    await client.propertyWrite(IP, 1, KNXnetIPPropertyId.PID_FRIENDLY_NAME, name.subarray(15), 15, 16);
+    console.log(`[Mgmt] Friendly name: ${server.options.friendlyName}`);
+    await client.propertyWrite(IP, 1, KNXnetIPPropertyId.PID_CURRENT_IP_ADDRESS, Buffer.alloc(4)).catch((e) => {
+      console.log(`[Mgmt] Read-only property rejected: ${e.constructor.name} ${e.message}`);
+    });
+  } catch (e: any) {
+    console.log(`[Mgmt] ${e.constructor.name}: ${e.message}`);
+  } finally {
+    client.disconnect();
+    setTimeout(() => server.disconnect(), 1000);
+  }
+  console.log(`[Mgmt] CONNECT_REQUEST CRI: ${cri}`);
+  assert.equal(cri, "0203");
+}
+
+testDeviceManagement();
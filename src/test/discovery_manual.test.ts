@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { KNXnetIPDiscovery } from "../connection/KNXnetIPDiscovery";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXDiscoveryOptions } from "../@types/interfaces/connection";
+
+// Búsqueda unicast contra un KNXnetIPServer local: mismo SEARCH_REQUEST que por multicast
+const PORT = 3681;
+const search: KNXDiscoveryOptions = { ip: "127.0.0.1", port: PORT, interfaces: ["127.0.0.1"], timeout: 500 };
+
+async function testDiscovery() {
+  console.log(`
+--- Testing KNXnet/IP discovery (SEARCH_REQUEST / SEARCH_REQUEST_EXTENDED) ---`);
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp: "127.0.0.1",
+    port: PORT,
+    serialNumber: Buffer.from("00fa01020304", "hex"),
+    macAddress: "00:24:6d:01:02:03",
+    friendlyName: "Discovery test",
+    logOptions: { enabled: false },
+  });
+  await server.connect();
+  try {
+    // Las respuestas básica y extendida del mismo equipo se juntan en uno
+    const devices = await KNXTunneling.discover(search);
+    assert.equal(devices.length, 1);
+    const [device] = devices;
+    console.log(`[Discovery] ${device.friendlyName} ${device.ip}:${device.port} (${device.knxMedium})`);
+    assert.equal(device.ip, "127.0.0.1");
+    assert.equal(device.port, PORT);
+    assert.equal(device.friendlyName, "Discovery test");
+    assert.equal(device.knxMedium, "KNXIP");
+    assert.equal(device.deviceStatus, "Not Programmed");
+    assert.equal(device.serialNumber.toString("hex"), "00fa01020304");
+    assert.equal(device.macAddress, "00:24:6d:01:02:03");
+    assert.equal(device.localInterface, "127.0.0.1");
+    console.log(`[Discovery] Services: ${device.supportedServices.map((svc) => svc.familyName).join(", ")}`);
+    assert.deepEqual(
+      device.supportedServices.map((svc) => svc.familyName),
+      ["Core", "DeviceManagement", "Tunnelling", "Routing"],
+    );
+    // TunnellingInfoDIB y ExtendedDeviceInformationDIB solo llegan en la respuesta extendida
+    assert.ok(device.tunnelling);
+    assert.equal(device.tunnelling.slots.length, 15);
+    assert.deepEqual(
+      { individualAddress: device.tunnelling.slots[0].individualAddress, free: device.tunnelling.slots[0].free },
+      { individualAddress: "15.15.1", free: true },
+    );
+    assert.ok(device.extendedInfo);
+    assert.equal(device.extendedInfo.mediumStatus, 0);
+
+    const basic = await KNXTunneling.discover({ ...search, useExtended: false });
+    assert.equal(basic.length, 1);
+    assert.equal(basic[0].tunnelling, undefined);
+    assert.equal(basic[0].extendedInfo, undefined);
+    console.log("[Discovery] Basic search only: no tunnelling slots");
+  } finally {
+    server.disconnect();
+  }
+
+  // Sin nadie escuchando se resuelve vacío al terminar la ventana
+  assert.deepEqual(await KNXTunneling.discover({ ...search, port: PORT + 1 }), []);
+  // Una trama que no es SEARCH_RESPONSE no es un equipo
+  assert.equal(KNXnetIPDiscovery.parseSearchResponse(Buffer.from("061002040008", "hex")), null);
+  console.log("[Discovery] No gateway, no devices");
+
+  // Los dos envíos fallan (loopback -> dirección externa): la interfaz cuenta como fallida una sola vez
+  await assert.rejects(KNXTunneling.discover({ ...search, ip: "192.0.2.1" }), { code: "EINVAL" });
+  console.log("[Discovery] Failed sends reject the search");
+}
+
+testDiscovery().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
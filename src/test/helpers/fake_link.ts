@@ -0,0 +1,85 @@
+import { EventEmitter } from "events";
+import { KNXService, LDataConfirmation } from "../../connection/KNXService";
+import { CEMI, CEMIInstance } from "../../core/CEMI";
+import { KNXHelper } from "../../utils/KNXHelper";
+
+/**
+ * Link falso para los tests del Router: registra lo que el Router le envía, puede fallar las
+ * próximas `failures` conexiones y tardar `sendDelay` ms en cada envío (o rechazarlo con `failSends`).
+ * `sendConfirmed()` contesta con un L_Data.con negativo mientras `negativeConfirmations` esté activo.
+ * Se registra con `router.registerLink(key, link.asService())`.
+ */
+export class FakeLink extends EventEmitter {
+  /** Frames sent by the Router, in order */
+  readonly sent: CEMIInstance[] = [];
+  /** Raw cEMI buffers sent by the Router (coupler management responses) */
+  readonly rawSent: Buffer[] = [];
+  /** Milliseconds since the creation of the link at which each frame was sent */
+  readonly sentAt: number[] = [];
+  failures = 0;
+  sendDelay = 0;
+  failSends = false;
+  negativeConfirmations = false;
+  private readonly start = Date.now();
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  async connect() {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error(`${this.name} not found`);
+    }
+  }
+
+  disconnect() {}
+
+  async send(data: CEMIInstance | Buffer) {
+    if (this.sendDelay > 0) await wait(this.sendDelay);
+    if (this.failSends) throw new Error(`${this.name} send failed`);
+    if (Buffer.isBuffer(data)) {
+      this.rawSent.push(data);
+      return;
+    }
+    this.sent.push(data);
+    this.sentAt.push(Date.now() - this.start);
+  }
+
+  async sendConfirmed(data: CEMIInstance): Promise<LDataConfirmation> {
+    await this.send(data);
+    const buffer = data.toBuffer();
+    buffer[0] = 0x2e;
+    if (this.negativeConfirmations) buffer[2 + buffer[1]] |= 0x01;
+    return CEMI.fromBuffer(buffer) as LDataConfirmation;
+  }
+
+  /** Destinations of the frames sent by the Router */
+  get destinations(): string[] {
+    return this.sent.map((cemi) => ("destinationAddress" in cemi ? cemi.destinationAddress : ""));
+  }
+
+  /** The link as the Router sees it */
+  asService(): KNXService {
+    return this as unknown as KNXService;
+  }
+}
+
+/**
+ * L_Data.ind source -> destination. By default a GroupValue_Write (TPDU 0081) with normal priority and no
+ * repetition; `control` sets the first control field (priority bits 2-3, repeat flag 0x20).
+ */
+export function frame(source: string, destination: string, options: { control?: number; tpdu?: string } = {}) {
+  const { control = 0xbc, tpdu = "0081" } = options;
+  const isGroup = destination.includes("/");
+  const src = KNXHelper.GetAddress(source, ".").toString("hex");
+  const dst = KNXHelper.GetAddress(destination, isGroup ? "/" : ".").toString("hex");
+  const length = (tpdu.length / 2 - 1).toString(16).padStart(2, "0");
+  const ctrl = control.toString(16).padStart(2, "0");
+  return CEMI.fromBuffer(Buffer.from(`2900${ctrl}${isGroup ? "e0" : "60"}${src}${dst}${length}${tpdu}`, "hex"));
+}
+
+/** Lets the link queues of the Router hand their frames to the links */
+export const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+export const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,24 @@
+import { SerialPortMock } from "serialport";
+import { TPUARTConnection } from "../../connection/TPUART";
+
+/**
+ * TPUARTConnection real sobre un puerto serie simulado que contesta como el chip: RESET_IND al reset,
+ * STATE_IND a la petición de estado y `confirmation` a cada trama (L_Data.con positivo por defecto, 0x0b
+ * negativo, null sin respuesta). `writes` guarda las tramas (UART services).
+ */
+export function mockTPUART(path: string) {
+  SerialPortMock.binding.createPort(path);
+  const tpuart = new TPUARTConnection({ path, individualAddress: "15.15.250", logOptions: { enabled: false } });
+  const port = new SerialPortMock({ path, baudRate: 19200, autoOpen: false });
+  (tpuart as unknown as { serialPort: SerialPortMock }).serialPort = port;
+  const mock = { tpuart, port, writes: [] as Buffer[], confirmation: 0x8b as number | null };
+  const write = port.write.bind(port);
+  port.write = ((data: Buffer | number[], callback?: (err: Error | null | undefined) => void) => {
+    const bytes = Buffer.from(data);
+    const answer = bytes[0] === 0x01 ? 0x03 : bytes[0] === 0x02 ? 0x07 : bytes[0] === 0x80 ? mock.confirmation : null;
+    if (bytes[0] === 0x80) mock.writes.push(bytes);
+    if (answer !== null) setTimeout(() => port.port?.emitData(Buffer.from([answer])), 5);
+    return write(data, callback);
+  }) as typeof port.write;
+  return mock;
+}
@@ -0,0 +1,107 @@
+import crypto from "node:crypto";
+import { Keyring } from "../core/security/Keyring";
+
+// Builds a keyring the way ETS exports it, so the loader can be checked without a real project
+const PASSWORD = "keyring-password";
+const CREATED = "2024-05-01T10:00:00";
+const passwordHash = crypto.pbkdf2Sync(PASSWORD, "1.keyring.ets.knx.org", 65536, 16, "sha256");
+const iv = crypto.createHash("sha256").update(CREATED).digest().subarray(0, 16);
+
+function encrypt(data: Buffer) {
+  const cipher = crypto.createCipheriv("aes-128-cbc", passwordHash, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]).toString("base64");
+}
+
+function encryptPassword(password: string) {
+  const plain = Buffer.from(password, "utf8");
+  const padding = 16 - ((8 + plain.length) % 16);
+  return encrypt(Buffer.concat([crypto.randomBytes(8), plain, Buffer.alloc(padding, padding)]));
+}
+
+type Element = [string, Record<string, string>, Element[]];
+
+function sign(element: Element, hash = crypto.createHash("sha256")) {
+  const str = (value: string) => Buffer.concat([Buffer.from([Buffer.byteLength(value)]), Buffer.from(value)]);
+  const [name, attributes, children] = element;
+  hash.update(Buffer.from([0x01]));
+  hash.update(str(name));
+  for (const key of Object.keys(attributes).sort()) {
+    if (key === "xmlns" || key === "Signature") continue;
+    hash.update(str(key));
+    hash.update(str(attributes[key]));
+  }
+  children.forEach((child) => sign(child, hash));
+  hash.update(Buffer.from([0x02]));
+  return hash;
+}
+
+function toXml([name, attributes, children]: Element): string {
+  const attrs = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${value}"`)
+    .join("");
+  return children.length ? `<${name}${attrs}>${children.map(toXml).join("")}</${name}>` : `<${name}${attrs} />`;
+}
+
+const backboneKey = crypto.randomBytes(16);
+const groupKey = crypto.randomBytes(16);
+const toolKey = crypto.randomBytes(16);
+const root: Element = [
+  "Keyring",
+  { Project: "Demo", CreatedBy: "ETS 6", Created: CREATED, xmlns: "http://knx.org/xml/keyring/1" },
+  [
+    ["Backbone", { MulticastAddress: "224.0.23.12", Latency: "1000", Key: encrypt(backboneKey) }, []],
+    [
+      "Interface",
+      {
+        Type: "Tunneling",
+        Host: "1.1.10",
+        IndividualAddress: "1.1.11",
+        UserID: "2",
+        Password: encryptPassword("tunnel password"),
+      },
+      [],
+    ],
+    ["GroupAddresses", {}, [["Group", { Address: String((1 << 11) | (2 << 8) | 3), Key: encrypt(groupKey) }, []]]],
+    [
+      "Devices",
+      {},
+      [
+        [
+          "Device",
+          {
+            IndividualAddress: "1.1.10",
+            SerialNumber: "00FA10010710",
+            ToolKey: encrypt(toolKey),
+            Authentication: encryptPassword("device code"),
+            SequenceNumber: "42",
+          },
+          [],
+        ],
+      ],
+    ],
+  ],
+];
+const hash = sign(root);
+hash.update(Buffer.concat([Buffer.from([24]), Buffer.from(passwordHash.toString("base64"))]));
+root[1].Signature = hash.digest().subarray(0, 16).toString("base64");
+const xml = `<?xml version="1.0" encoding="utf-8"?>\n${toXml(root)}`;
+
+function testKeyring() {
+  console.log(`
+--- Testing .knxkeys keyring loader ---`);
+  const keyring = Keyring.parse(xml, PASSWORD);
+  console.log(`[Keyring] Project ${keyring.project} created by ${keyring.createdBy}`);
+  console.log(`[Keyring] Backbone key OK: ${keyring.backbone?.backboneKey.equals(backboneKey)}`);
+  console.log(`[Keyring] Tunnel 1.1.11: ${JSON.stringify(keyring.getTunnel("1.1.11"))}`);
+  console.log(`[Keyring] Group key 1/2/3 OK: ${keyring.groupKeys["1/2/3"]?.equals(groupKey)}`);
+  console.log(`[Keyring] Data Secure keys: ${Object.keys(keyring.dataSecure.keys).join(", ")}`);
+  console.log(`[Keyring] Last sequence numbers: ${JSON.stringify(keyring.dataSecure.lastSequenceNumbers)}`);
+  try {
+    Keyring.parse(xml, "wrong");
+  } catch (e: any) {
+    console.log(`[Keyring] Wrong password rejected: ${e.message}`);
+  }
+}
+
+testKeyring();
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXServerState } from "../@types/interfaces/connection";
+import { CEMIInstance } from "../core/CEMI";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "Program physical address" as ETS does it, through a tunnel of the same server
+async function testProgrammingMode() {
+  console.log(`
+--- Testing Programming Mode (A_IndividualAddress_Read/Write) ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({ individualAddress: "15.15.0", localIp, logOptions: { enabled: false } });
+  await server.connect();
+  server.on("individualAddressChanged", ({ individualAddress, previousAddress }) =>
+    console.log(`[Server] individualAddressChanged ${previousAddress} -> ${individualAddress}`),
+  );
+
+  const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  client.on("indication", (cemi: CEMIInstance) => console.log(`[ETS] Received: ${cemi.toBuffer().toString("hex")}`));
+  await client.connect();
+
+  try {
+    console.log("[ETS] A_IndividualAddress_Read (prog mode off, no answer expected)");
+    await client.send(Buffer.from("1100b0e000000000010100", "hex"));
+    await wait(300);
+
+    server.setProgrammingMode(true);
+    console.log("[ETS] A_IndividualAddress_Read (prog mode on)");
+    await client.send(Buffer.from("1100b0e000000000010100", "hex"));
+    await wait(300);
+    console.log("[ETS] A_IndividualAddress_Write 1.2.7");
+    await client.send(Buffer.from("1100b0e0000000000300c01207", "hex"));
+    await wait(300);
+
+    console.log("[ETS] T_Connect, A_DeviceDescriptor_Read, A_Restart");
+    await client.send(Buffer.from("1100b060000012070080", "hex"));
+    await client.send(Buffer.from("1100b06000001207014300", "hex"));
+    await wait(300);
+    await client.send(Buffer.from("1100b06000001207014780", "hex"));
+    await wait(300);
+    console.log(`[Server] Address ${server.individualAddress}, programming mode ${server.programmingMode}`);
+  } catch (e: any) {
+    console.log(`[ETS] ${e.message}`);
+  } finally {
+    client.disconnect();
+    setTimeout(() => server.disconnect(), 1000);
+  }
+}
+
+// El pool de túneles sigue al servidor sin contener nunca su dirección, y el túnel que tenga la nueva dirección
+// del servidor se desconecta
+async function testAddressPool() {
+  console.log(`
+--- Testing tunnel pool after A_IndividualAddress_Write ---`);
+  const localIp = getLocalIP();
+  let saved: KNXServerState | null = null;
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.200",
+    clientAddrs: "15.15.1:15",
+    port: 3691,
+    localIp,
+    stateStore: { load: async () => null, save: async (state) => void (saved = state) },
+    logOptions: { enabled: false },
+  });
+  await server.connect();
+  server.setProgrammingMode(true);
+  const disconnected: string[] = [];
+  const connect = async () => {
+    const client = new KNXTunneling({ ip: localIp, port: 3691, localIp, logOptions: { enabled: false } });
+    await client.connect();
+    client.on("disconnected", () => disconnected.push(client.individualAddress));
+    return client;
+  };
+  const first = await connect();
+  const second = await connect();
+  const program = async (address: string, expected: string) => {
+    const [area, line, device] = address.split(".").map(Number);
+    const ia = Buffer.from([(area << 4) | line, device]).toString("hex");
+    await first.send(Buffer.from(`1100b0e0000000000300c0${ia}`, "hex"));
+    await wait(300);
+    const pool = saved!.clientAddresses;
+    console.log(`[Server] ${server.individualAddress}, pool ${pool.join(", ")}`);
+    assert.equal(server.individualAddress, address);
+    assert.ok(!pool.includes(address));
+    assert.equal(pool.join(","), expected);
+  };
+
+  try {
+    // Otra línea: conserva el número de dispositivo y 1.2.5 pasa al primer libre
+    await program(
+      "1.2.5",
+      "1.2.1,1.2.2,1.2.3,1.2.4,1.2.16,1.2.6,1.2.7,1.2.8,1.2.9,1.2.10,1.2.11,1.2.12,1.2.13,1.2.14,1.2.15",
+    );
+    assert.deepEqual(disconnected, []);
+    // Vuelta a 15.15: el túnel 15.15.2 tenía la dirección nueva del servidor
+    await program(
+      "15.15.2",
+      "15.15.1,15.15.5,15.15.3,15.15.4,15.15.16,15.15.6,15.15.7,15.15.8,15.15.9,15.15.10,15.15.11,15.15.12,15.15.13,15.15.14,15.15.15",
+    );
+    assert.deepEqual(disconnected, ["15.15.2"]);
+    // Misma línea sin sitio para desplazarlo (15.15.0): se queda como está salvo la dirección del servidor
+    await program(
+      "15.15.1",
+      "15.15.2,15.15.5,15.15.3,15.15.4,15.15.16,15.15.6,15.15.7,15.15.8,15.15.9,15.15.10,15.15.11,15.15.12,15.15.13,15.15.14,15.15.15",
+    );
+    console.log(`[Server] Tunnels disconnected: ${disconnected.join(", ")}`);
+    assert.deepEqual(disconnected, ["15.15.2", "15.15.1"]);
+  } finally {
+    first.disconnect();
+    second.disconnect();
+    await wait(300);
+    server.disconnect();
+  }
+}
+
+async function main() {
+  await testProgrammingMode();
+  await wait(1200);
+  await testAddressPool();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { Router } from "../connection/Router";
+import { NegativeConfirmationError } from "../errors/ConfirmationErrors";
+import { getLocalIP } from "../utils/localIp";
+import { FakeLink, frame, wait } from "./helpers/fake_link";
+
+/**
+ * L_Data.con that a tunnel client gets through the Router: "positive", "negative" and the milliseconds it took.
+ * The frame is an L_Data.req with source 0.0.0, the server puts the address of the tunnel.
+ */
+async function confirm(client: KNXTunneling, destination: string) {
+  const request = Buffer.from(frame("0.0.0", destination).toBuffer());
+  request[0] = 0x11;
+  const start = Date.now();
+  try {
+    await client.sendConfirmed(request, 5000);
+    return { result: "positive", ms: Date.now() - start };
+  } catch (err) {
+    if (!(err instanceof NegativeConfirmationError)) throw err;
+    return { result: "negative", ms: Date.now() - start };
+  }
+}
+
+// El cliente de túnel recibe la confirmación real de los enlaces de bus: la de uno solo tal cual, la de varios
+// combinada, inmediata cuando la trama no llega a ningún enlace y negativa tras confirmationTimeout sin respuesta.
+async function testRouterConfirmation() {
+  console.log(`
+--- Testing L_Data.con of tunnel frames routed to bus links ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp,
+    confirmationTimeout: 500,
+    logOptions: { enabled: false },
+  });
+  await server.connect();
+  const router = new Router({ routerAddress: "15.15.250" });
+  const tpuart = new FakeLink("TPUART");
+  const usb = new FakeLink("KNXUSB");
+  router.registerLink(`IP KNXnet/IP Server: ${localIp}:3671`, server);
+  router.registerLink("TPUART", tpuart.asService());
+  router.registerLink("KNXUSB", usb.asService());
+  assert.equal(server.isConfirmationDelegated, true);
+
+  const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  await client.connect();
+  // 1.1.20 queda aprendida en el TP-UART
+  tpuart.emit("indication", frame("1.1.20", "1/0/0"));
+  await wait(50);
+
+  const results: Record<string, { result: string; ms: number }> = {};
+  const run = async (name: string, destination: string) => {
+    results[name] = await confirm(client, destination);
+    console.log(`[Client] ${name}: ${results[name].result} after ${results[name].ms} ms`);
+  };
+
+  // Un solo enlace: se pasa su confirmación
+  await run("single positive", "1.1.20");
+  tpuart.negativeConfirmations = true;
+  await run("single negative", "1.1.20");
+
+  // Dos enlaces: positiva solo si confirman los dos
+  await run("combined, one negative", "1/0/1");
+  tpuart.negativeConfirmations = false;
+  await run("combined, both positive", "1/0/2");
+  assert.deepEqual(usb.destinations, ["1/0/0", "1/0/1", "1/0/2"]);
+
+  // Sin enlace de bus: confirmación inmediata, positiva si el destino está en el lado del servidor
+  const discard = (address: string) => ({ groupAddress: { addresses: [address], policy: "discard all" as const } });
+  router.setLinkFilter("TPUART", { outbound: discard("1/0/3") });
+  router.setLinkFilter("KNXUSB", { outbound: discard("1/0/3") });
+  await run("filtered", "1/0/3");
+  router.setLinkFilter(`IP KNXnet/IP Server: ${localIp}:3671`, { inbound: discard("1/0/4") });
+  await run("inbound filter", "1/0/4");
+  await run("destination on the server side", client.individualAddress);
+
+  // Un enlace que no contesta: el servidor manda la negativa a los 500 ms
+  tpuart.sendDelay = 2000;
+  await run("no answer", "1.1.20");
+
+  assert.equal(results["single positive"].result, "positive");
+  assert.equal(results["single negative"].result, "negative");
+  assert.equal(results["combined, one negative"].result, "negative");
+  assert.equal(results["combined, both positive"].result, "positive");
+  assert.equal(results["filtered"].result, "negative");
+  assert.equal(results["inbound filter"].result, "negative");
+  assert.equal(results["destination on the server side"].result, "positive");
+  for (const name of ["filtered", "inbound filter", "destination on the server side"]) {
+    assert.ok(results[name].ms < 300, `${name} should be confirmed without waiting for the timeout`);
+  }
+  assert.equal(results["no answer"].result, "negative");
+  assert.ok(results["no answer"].ms >= 450 && results["no answer"].ms < 1500);
+
+  client.disconnect();
+  await wait(100);
+  router.disconnect();
+  server.disconnect();
+  await wait(2000);
+}
+
+testRouterConfirmation().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { Router } from "../connection/Router";
+import { FakeLink, flush, frame } from "./helpers/fake_link";
+
+async function testRouterFilter() {
+  console.log(`
+--- Testing Router wildcard, range and per link filters ---`);
+  const router = new Router({
+    routerAddress: "15.15.0",
+    // Política antigua: del IP al bus solo la línea principal 1 salvo 1/2/*
+    toLocalFilter: {
+      groupAddress: { addresses: ["1/*", "!1/2/*"], groupAddressToLocalFilterPolicie: "accept only" },
+    },
+    linkFilters: {
+      TPUART: { outbound: { groupAddress: { addresses: ["1/0/0-1/0/9"], policy: "discard all" } } },
+      KNXUSB: {
+        inbound: { individualAddress: { addresses: ["1.1.*"], policy: "discard all" } },
+        outbound: { groupAddress: { addresses: ["1/0/5"], policy: "accept only" } },
+      },
+    },
+  });
+  const ip = new FakeLink("IP");
+  const tpuart = new FakeLink("TPUART");
+  const usb = new FakeLink("KNXUSB");
+  router.registerLink("IP Tunneling: test", ip.asService());
+  router.registerLink("TPUART", tpuart.asService());
+  router.registerLink("KNXUSB", usb.asService());
+
+  for (const destination of ["1/0/5", "1/0/20", "1/2/3", "2/0/1", "1/7/255"]) {
+    ip.emit("indication", frame("2.2.2", destination));
+  }
+  await flush();
+  console.log(`[TPUART] ${tpuart.destinations.join(", ")}`);
+  console.log(`[KNXUSB] ${usb.destinations.join(", ")}`);
+  assert.deepEqual(tpuart.destinations, ["1/0/20", "1/7/255"]);
+  assert.deepEqual(usb.destinations, ["1/0/5"]);
+
+  // El filtro de entrada del USB descarta lo que va a la línea 1.1
+  usb.emit("indication", frame("3.3.3", "1.1.20"));
+  usb.emit("indication", frame("3.3.3", "1.2.20"));
+  await flush();
+  console.log(`[IP] ${ip.destinations.join(", ")}`);
+  assert.deepEqual(ip.destinations, ["1.2.20"]);
+
+  const errors: string[] = [];
+  for (const bad of ["1/8/0", "1/*/5", "1/2/3-1/0/0", "16.1.1"]) {
+    try {
+      router.setLinkFilter("TPUART", {
+        outbound: {
+          [bad.includes(".") ? "individualAddress" : "groupAddress"]: { addresses: [bad], policy: "discard all" },
+        },
+      });
+    } catch (err: any) {
+      errors.push(err.message);
+    }
+  }
+  console.log(`[Router] ${errors.join("; ")}`);
+  assert.equal(errors.length, 4);
+  router.disconnect();
+}
+
+testRouterFilter().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
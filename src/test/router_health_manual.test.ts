@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { Router } from "../connection/Router";
+import { FakeLink, flush, frame, wait } from "./helpers/fake_link";
+import { mockTPUART } from "./helpers/mock_tpuart";
+
+async function testRouterHealth() {
+  console.log(`
+--- Testing Router link health and standby failover ---`);
+  const router = new Router({
+    routerAddress: "15.15.0",
+    linkReconnect: { enabled: true, initialDelay: 50, jitter: 0 },
+    standbyLinks: { "IP Tunneling: backup": "KNXUSB" },
+  });
+  const ip = new FakeLink("IP");
+  const usb = new FakeLink("KNXUSB");
+  const backup = new FakeLink("Backup");
+  router.registerLink("IP Tunneling: main", ip.asService());
+  router.registerLink("KNXUSB", usb.asService());
+  router.registerLink("IP Tunneling: backup", backup.asService());
+  const events: string[] = [];
+  router.on("link_down", ({ key, error }) => events.push(`link_down ${key}: ${error.message}`));
+  router.on("link_up", ({ key }) => events.push(`link_up ${key}`));
+  router.on("failover", ({ standby, active }) => events.push(`failover ${standby} active: ${active}`));
+  const status = () =>
+    router
+      .getLinkStatus()
+      .map(({ key, state, reconnectAttempts }) => `${key}=${state}(${reconnectAttempts})`)
+      .join(", ");
+  console.log(`[Router] ${status()}`);
+  assert.equal(status(), "IP Tunneling: main=up(0), KNXUSB=up(0), IP Tunneling: backup=standby(0)");
+
+  ip.emit("indication", frame("1.1.5", "1/0/1"));
+  // USB desenchufado: las dos primeras reconexiones fallan
+  usb.failures = 2;
+  usb.emit("disconnected");
+  ip.emit("indication", frame("1.1.5", "1/0/2"));
+  // Las tramas del de reserva solo se enrutan mientras está activo
+  backup.emit("indication", frame("2.1.5", "1/0/3"));
+  await wait(120);
+  console.log(`[Router] ${status()}`);
+  assert.equal(status(), "IP Tunneling: main=up(0), KNXUSB=down(1), IP Tunneling: backup=up(0)");
+  await wait(300);
+  ip.emit("indication", frame("1.1.5", "1/0/4"));
+  backup.emit("indication", frame("2.1.5", "1/0/5"));
+  await flush();
+  console.log(`[Router] ${events.join("; ")}`);
+  console.log(`[KNXUSB] ${usb.destinations.join(", ")}`);
+  console.log(`[Backup] ${backup.destinations.join(", ")}`);
+  console.log(`[IP] ${ip.destinations.join(", ")}`);
+  assert.deepEqual(events, [
+    "link_down KNXUSB: Link disconnected",
+    "failover IP Tunneling: backup active: true",
+    "link_up KNXUSB",
+    "failover IP Tunneling: backup active: false",
+  ]);
+  assert.deepEqual(usb.destinations, ["1/0/1", "1/0/4"]);
+  assert.deepEqual(backup.destinations, ["1/0/2"]);
+  assert.deepEqual(ip.destinations, ["1/0/3"]);
+  assert.equal(status(), "IP Tunneling: main=up(0), KNXUSB=up(0), IP Tunneling: backup=standby(0)");
+  router.disconnect();
+}
+
+// Al agotar maxAttempts se emite link_failed (no error, que sin listener lanzaría) y el enlace sigue caído.
+// Un connect() que no termina cuenta como intento fallido a los 10 s.
+async function testRouterLinkFailed() {
+  console.log(`
+--- Testing Router reconnect give up and attempt timeout ---`);
+  const router = new Router({
+    routerAddress: "15.15.0",
+    linkReconnect: { enabled: true, initialDelay: 20, jitter: 0, maxAttempts: 2 },
+  });
+  const usb = new FakeLink("KNXUSB");
+  const tunnel = new FakeLink("Tunnel");
+  router.registerLink("KNXUSB", usb.asService());
+  router.registerLink("IP Tunneling: test", tunnel.asService());
+  const failed: string[] = [];
+  router.on("link_failed", ({ key, attempts }) => failed.push(`${key} after ${attempts}`));
+
+  usb.failures = Infinity;
+  usb.emit("disconnected");
+  await wait(200);
+  console.log(`[Router] link_failed: ${failed.join(", ")}`);
+  assert.deepEqual(failed, ["KNXUSB after 2"]);
+  assert.equal(router.getLinkStatus().find(({ key }) => key === "KNXUSB")?.state, "down");
+
+  // Sin respuesta: cada intento expira
+  tunnel.connect = () => new Promise<void>(() => {});
+  tunnel.emit("disconnected");
+  await wait(10500);
+  const status = router.getLinkStatus().find(({ key }) => key === "IP Tunneling: test");
+  console.log(`[Router] ${status?.key}: ${status?.state}, ${status?.lastError}`);
+  assert.equal(status?.reconnectAttempts, 1);
+  assert.equal(status?.lastError, "Connect timeout (10000ms)");
+  router.disconnect();
+}
+
+// Adaptador desenchufado: el Router recibe `disconnected`, reconecta el mismo TPUARTConnection y sigue enrutando
+async function testRouterTPUART() {
+  console.log(`
+--- Testing Router with a TP-UART that is unplugged ---`);
+  const { tpuart, port, writes } = mockTPUART("/dev/ttyKNX0");
+  await tpuart.connect();
+  const router = new Router({
+    routerAddress: "15.15.0",
+    linkReconnect: { enabled: true, initialDelay: 50, jitter: 0 },
+  });
+  const ip = new FakeLink("IP");
+  router.registerLink("TPUART", tpuart);
+  router.registerLink("IP Tunneling: test", ip.asService());
+  const events: string[] = [];
+  router.on("link_down", ({ key }) => events.push(`link_down ${key}`));
+  router.on("link_up", ({ key }) => events.push(`link_up ${key}`));
+
+  const listeners = tpuart.listenerCount("indication") + tpuart.listenerCount("disconnected");
+  await new Promise((resolve) => port.close(resolve));
+  await wait(300);
+  console.log(`[Router] ${events.join("; ")}`);
+  assert.deepEqual(events, ["link_down TPUART", "link_up TPUART"]);
+  assert.equal(tpuart.listenerCount("indication") + tpuart.listenerCount("disconnected"), listeners);
+
+  ip.emit("indication", frame("1.1.5", "1/0/1"));
+  await wait(50);
+  console.log(`[TPUART] Frames written after reconnecting: ${writes.length}`);
+  assert.equal(writes.length, 1);
+  router.disconnect();
+  await wait(50);
+}
+
+async function main() {
+  await testRouterHealth();
+  await testRouterTPUART();
+  await testRouterLinkFailed();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { Router } from "../connection/Router";
+import { FakeLink, frame, wait } from "./helpers/fake_link";
+
+// Octeto de control: prioridad en los bits 2-3 (system 0xb0, normal 0xb4, urgent 0xb8, low 0xbc)
+const burst: [number, string][] = [
+  [0xbc, "1/0/1"],
+  [0xbc, "1/0/2"],
+  [0xb4, "1/0/3"],
+  [0xbc, "1/0/4"],
+  [0xb0, "1/0/5"],
+  [0xb8, "1/0/6"],
+];
+
+function linkStats(router: Router, key: string) {
+  const { queued, sent, failed, dropped } = router.getLinkStatus().find((status) => status.key === key)!;
+  return { queued, sent, failed, dropped };
+}
+
+async function testRouterQueue() {
+  console.log(`
+--- Testing Router per link queues ---`);
+  const router = new Router({
+    routerAddress: "15.15.0",
+    linkQueues: {
+      TPUART: { rate: 20, burst: 2, maxLength: 3 },
+      KNXUSB: { rate: 20, maxLength: 3, overflowPolicy: "drop-newest" },
+    },
+  });
+  const ip = new FakeLink("IP");
+  const tpuart = new FakeLink("TPUART");
+  const usb = new FakeLink("KNXUSB");
+  router.registerLink("IP Tunneling: test", ip.asService());
+  router.registerLink("TPUART", tpuart.asService());
+  router.registerLink("KNXUSB", usb.asService());
+
+  // Ráfaga desde el IP: la primera sale enseguida, el resto espera por prioridad y las low sobrantes se descartan
+  for (const [control, destination] of burst) ip.emit("indication", frame("1.1.5", destination, { control }));
+  assert.deepEqual(linkStats(router, "TPUART"), { queued: 3, sent: 0, failed: 0, dropped: 2 });
+  await wait(300);
+  console.log(`[TPUART] ${tpuart.destinations.map((dst, i) => `${dst}@${tpuart.sentAt[i]}ms`).join(", ")}`);
+  console.log(`[KNXUSB] ${usb.destinations.map((dst, i) => `${dst}@${usb.sentAt[i]}ms`).join(", ")}`);
+  // drop-oldest descarta 1/0/2 y 1/0/4, drop-newest 1/0/4 y 1/0/2: quedan las mismas
+  assert.deepEqual(tpuart.destinations, ["1/0/1", "1/0/5", "1/0/6", "1/0/3"]);
+  assert.deepEqual(usb.destinations, ["1/0/1", "1/0/5", "1/0/6", "1/0/3"]);
+  // 20 telegramas/s: ráfaga de 2 en el TPUART, uno cada 50 ms en el USB
+  assert.ok(tpuart.sentAt[1] - tpuart.sentAt[0] < 40);
+  assert.ok(usb.sentAt[3] - usb.sentAt[0] >= 140);
+  assert.deepEqual(linkStats(router, "TPUART"), { queued: 0, sent: 4, failed: 0, dropped: 2 });
+  assert.deepEqual(linkStats(router, "KNXUSB"), { queued: 0, sent: 4, failed: 0, dropped: 2 });
+  router.disconnect();
+}
+
+// Sin rate la cola también ordena por prioridad y limita su longitud: un envío espera al anterior
+async function testQueueWithoutRate() {
+  console.log(`
+--- Testing Router link queue without rate ---`);
+  const router = new Router({ routerAddress: "15.15.0", linkQueues: { TPUART: { maxLength: 2 } } });
+  const ip = new FakeLink("IP");
+  const tpuart = new FakeLink("TPUART");
+  const usb = new FakeLink("KNXUSB");
+  tpuart.sendDelay = 20;
+  usb.failSends = true;
+  router.registerLink("IP Tunneling: test", ip.asService());
+  router.registerLink("TPUART", tpuart.asService());
+  router.registerLink("KNXUSB", usb.asService());
+
+  for (const [control, destination] of burst) ip.emit("indication", frame("1.1.5", destination, { control }));
+  await wait(200);
+  console.log(`[TPUART] ${tpuart.destinations.join(", ")}`);
+  console.log(`[Router] KNXUSB ${JSON.stringify(linkStats(router, "KNXUSB"))}`);
+  assert.deepEqual(tpuart.destinations, ["1/0/1", "1/0/5", "1/0/6"]);
+  assert.deepEqual(linkStats(router, "TPUART"), { queued: 0, sent: 3, failed: 0, dropped: 3 });
+  // Los envíos rechazados cuentan como fallidos
+  assert.deepEqual(linkStats(router, "KNXUSB"), { queued: 0, sent: 0, failed: 6, dropped: 0 });
+
+  const invalid = new Router({ routerAddress: "15.15.0", linkQueues: { Bad: { rate: 0 } } });
+  assert.throws(
+    () => invalid.registerLink("Bad", new FakeLink("Bad").asService()),
+    /Link queue rate must be greater than 0, got 0/,
+  );
+  invalid.disconnect();
+  router.disconnect();
+}
+
+async function main() {
+  await testRouterQueue();
+  await testQueueWithoutRate();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
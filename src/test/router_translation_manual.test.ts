@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { Router } from "../connection/Router";
+import { FakeLink, flush, frame } from "./helpers/fake_link";
+
+// Origen -> destino de lo que el Router envió al enlace
+const routes = (link: FakeLink) =>
+  link.sent.map((cemi) => ("destinationAddress" in cemi ? `${cemi.sourceAddress}->${cemi.destinationAddress}` : ""));
+
+async function testRouterTranslation() {
+  console.log(`
+--- Testing Router address translation ---`);
+  const router = new Router({
+    routerAddress: "15.15.0",
+    addressTranslation: [
+      {
+        links: ["KNXUSB", "IP Tunneling: test"],
+        groupAddresses: { "1/1/*": "10/1/*", "1/2/0-1/2/9": "10/2/10-10/2/19" },
+        individualAddresses: { "1.1.5": "2.1.5" },
+      },
+    ],
+    // Los filtros ven la dirección usada en el enlace de destino
+    linkFilters: {
+      "IP Tunneling: test": { outbound: { groupAddress: { addresses: ["10/1/3"], policy: "discard all" } } },
+    },
+  });
+  const usb = new FakeLink("KNXUSB");
+  const ip = new FakeLink("IP");
+  const tpuart = new FakeLink("TPUART");
+  router.registerLink("KNXUSB", usb.asService());
+  router.registerLink("IP Tunneling: test", ip.asService());
+  router.registerLink("TPUART", tpuart.asService());
+
+  for (const destination of ["1/1/1", "1/1/3", "1/2/5", "3/0/0"]) usb.emit("indication", frame("1.1.5", destination));
+  await flush();
+  console.log(`[IP] ${routes(ip).join(", ")}`);
+  console.log(`[TPUART] ${routes(tpuart).join(", ")}`);
+  assert.deepEqual(routes(ip), ["2.1.5->10/1/1", "2.1.5->10/2/15", "2.1.5->3/0/0"]);
+  assert.deepEqual(routes(tpuart), ["1.1.5->1/1/1", "1.1.5->1/1/3", "1.1.5->1/2/5", "1.1.5->3/0/0"]);
+
+  // Del IP al USB con la traducción inversa
+  ip.emit("indication", frame("3.3.3", "10/2/12"));
+  await flush();
+  console.log(`[KNXUSB] ${routes(usb).join(", ")}`);
+  assert.deepEqual(routes(usb), ["3.3.3->1/2/2"]);
+
+  // El eco de 1/1/1 vuelve por el IP como 10/1/1 repetido (bit de repetición a 0) y se descarta
+  const before = usb.sent.length + tpuart.sent.length;
+  ip.emit("indication", frame("2.1.5", "10/1/1", { control: 0x9c }));
+  await flush();
+  const echoDropped = usb.sent.length + tpuart.sent.length === before;
+  console.log(`[Router] Echo dropped: ${echoDropped}`);
+  assert.ok(echoDropped);
+
+  const invalid: [Record<string, string>, RegExp][] = [
+    [{ "1/*": "10/1/*" }, /does not map the same number of addresses/],
+    [{ "1/1/1": "10/1/1", "1/1/2": "10/1/1" }, /is not one to one/],
+  ];
+  for (const [groupAddresses, message] of invalid) {
+    assert.throws(
+      () =>
+        new Router({
+          routerAddress: "15.15.0",
+          addressTranslation: [{ links: ["KNXUSB", "TPUART"], groupAddresses }],
+        }),
+      message,
+    );
+  }
+  router.disconnect();
+}
+
+testRouterTranslation().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
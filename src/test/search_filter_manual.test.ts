@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import { AddressInfo } from "node:net";
+import { KNXnetIPDiscovery } from "../connection/KNXnetIPDiscovery";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { DescriptionType } from "../core/enum/KNXnetIPEnum";
+import { KNXDiscoveryOptions, KNXSearchFilter } from "../@types/interfaces/connection";
+
+const PORT = 3682;
+const MAC = "00:24:6d:01:02:03";
+const search: KNXDiscoveryOptions = { ip: "127.0.0.1", port: PORT, interfaces: ["127.0.0.1"], timeout: 400 };
+
+async function find(filter: KNXSearchFilter) {
+  return KNXTunneling.discover({ ...search, filter });
+}
+
+// SEARCH_REQUEST_EXTENDED con SRPs en crudo, para los que el cliente no sabe construir. Devuelve las respuestas.
+async function rawSearch(srps: string): Promise<Buffer[]> {
+  const socket = dgram.createSocket("udp4");
+  const responses: Buffer[] = [];
+  socket.on("message", (msg) => responses.push(msg));
+  await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+  const hpai = Buffer.from("0801" + "7f000001" + "0000", "hex");
+  hpai.writeUInt16BE((socket.address() as AddressInfo).port, 6);
+  const body = Buffer.concat([hpai, Buffer.from(srps, "hex")]);
+  const header = Buffer.from([0x06, 0x10, 0x02, 0x0b, 0x00, 6 + body.length]);
+  socket.send(Buffer.concat([header, body]), PORT, "127.0.0.1");
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  socket.close();
+  return responses;
+}
+
+async function testSearchFilter() {
+  console.log(`
+--- Testing SRP filtered search (SEARCH_REQUEST_EXTENDED) ---`);
+  // Codificación de los SRPs: todos obligatorios (bit 7), REQUEST_DIBS rellenado a longitud par
+  const srps = KNXnetIPDiscovery.buildSearchParameters({
+    programmingMode: true,
+    macAddress: MAC,
+    services: [{ family: 0x04, version: 2 }],
+    requestDIBs: [DescriptionType.TUNNELLING_INFO],
+  });
+  assert.deepEqual(
+    srps.map((srp) => srp.toBuffer().toString("hex")),
+    ["0281", "088200246d010203", "04830402", "04840700"],
+  );
+
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp: "127.0.0.1",
+    port: PORT,
+    serialNumber: Buffer.from("00fa01020304", "hex"),
+    macAddress: MAC,
+    friendlyName: "SRP test",
+    logOptions: { enabled: false },
+  });
+  await server.connect();
+  try {
+    // Modo programación: silencio hasta que se activa
+    assert.deepEqual(await find({ programmingMode: true }), []);
+    server.setProgrammingMode(true);
+    const inProgMode = await find({ programmingMode: true });
+    assert.equal(inProgMode.length, 1);
+    assert.equal(inProgMode[0].deviceStatus, "Programmed");
+    console.log(`[Search] In programming mode: ${inProgMode[0].friendlyName}`);
+    server.setProgrammingMode(false);
+
+    assert.equal((await find({ macAddress: MAC })).length, 1);
+    assert.deepEqual(await find({ macAddress: "00:24:6d:ff:ff:ff" }), []);
+    console.log("[Search] MAC address filter: only the matching MAC answers");
+
+    // Familia Tunnelling (0x04) v1 sí, Routing (0x05) v2 no
+    assert.equal((await find({ services: [{ family: 0x04 }] })).length, 1);
+    assert.deepEqual(await find({ services: [{ family: 0x04 }, { family: 0x05, version: 2 }] }), []);
+    console.log("[Search] Service family filter: every family is required");
+
+    // Solo los DIBs pedidos, además de DEVICE_INFO y SUPP_SVC_FAMILIES
+    const [requested] = await find({ requestDIBs: [DescriptionType.TUNNELLING_INFO] });
+    assert.ok(requested.tunnelling);
+    assert.equal(requested.extendedInfo, undefined);
+    assert.equal(requested.supportedServices.length, 4);
+    console.log("[Search] Requested DIBs: TunnellingInfo without ExtendedDeviceInformation");
+
+    // SRP desconocido: obligatorio deja al servidor en silencio, opcional se ignora
+    assert.equal((await rawSearch("02fe")).length, 0);
+    assert.equal((await rawSearch("027e")).length, 1);
+    console.log("[Search] Unknown mandatory SRP: no answer, unknown optional SRP: answered");
+  } finally {
+    server.disconnect();
+  }
+}
+
+testSearchFilter().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
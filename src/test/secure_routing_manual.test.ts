@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { CEMIInstance } from "../core/CEMI";
+import { KNXnetIPServiceType } from "../core/enum/KNXnetIPEnum";
+import { KNXSecureCrypto } from "../core/security/KNXSecureCrypto";
+import { SecureRouting } from "../core/security/SecureRouting";
+
+// Dos routers seguros de la misma línea IP: mismo backbone key, distinto número de serie
+const BACKBONE_KEY = Buffer.from("000102030405060708090a0b0c0d0e0f", "hex");
+const ROUTING_INDICATION = Buffer.from("061005300011" + "2900bce0110a0801010081", "hex");
+const LATENCY_TOLERANCE = 2000;
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function router(serial: string, key: Buffer = BACKBONE_KEY) {
+  return new SecureRouting(key, Buffer.from(serial, "hex"), LATENCY_TOLERANCE);
+}
+
+function serviceType(msg: Buffer) {
+  return msg.readUInt16BE(2);
+}
+
+function testWrapUnwrap() {
+  console.log(`
+--- Testing secure routing SECURE_WRAPPER ---`);
+  const a = router("00fa00000001");
+  const b = router("00fa00000002");
+
+  const wrapped = a.wrap(ROUTING_INDICATION);
+  assert.equal(serviceType(wrapped), KNXnetIPServiceType.SECURE_WRAPPER);
+  assert.equal(wrapped.readUInt16BE(6), 0); // Session ID 0: multicast
+  assert.equal(wrapped.indexOf(ROUTING_INDICATION.subarray(6)), -1); // cEMI cifrado
+  const { frame, notify } = b.unwrap(wrapped);
+  assert.deepEqual(frame, ROUTING_INDICATION);
+  assert.equal(notify, null);
+  console.log(`[Routing] Unwrapped: ${frame!.toString("hex")}`);
+
+  // Dos tramas en el mismo milisegundo no comparten timer: la segunda no es una repetición
+  assert.deepEqual(b.unwrap(a.wrap(ROUTING_INDICATION)).frame, ROUTING_INDICATION);
+  assert.deepEqual(b.unwrap(a.wrap(ROUTING_INDICATION)).frame, ROUTING_INDICATION);
+
+  // Repetición de una trama ya recibida
+  assert.deepEqual(b.unwrap(wrapped), { frame: null, notify: null });
+  assert.equal(b.counters.replayed, 1);
+  console.log("[Routing] Replayed wrapper dropped");
+
+  // Otro backbone key, MAC alterado o session ID de túnel (unicast)
+  assert.equal(router("00fa00000003", Buffer.alloc(16, 0xff)).unwrap(a.wrap(ROUTING_INDICATION)).frame, null);
+  const tampered = Buffer.from(a.wrap(ROUTING_INDICATION));
+  tampered[tampered.length - 1] ^= 0x01;
+  assert.equal(b.unwrap(tampered).frame, null);
+  const unicast = KNXSecureCrypto.wrap(
+    BACKBONE_KEY,
+    1,
+    b.timer,
+    Buffer.from("00fa00000001", "hex"),
+    0,
+    ROUTING_INDICATION,
+  );
+  assert.equal(b.unwrap(unicast).frame, null);
+  assert.deepEqual(b.counters, { plain: 0, unauthenticated: 2, replayed: 1, outdated: 0 });
+  console.log(`[Routing] Counters: ${JSON.stringify(b.counters)}`);
+
+  assert.throws(() => router("00fa00000001", Buffer.alloc(8)), /The backbone key must be 16 bytes long/);
+}
+
+function testTimerSynchronization() {
+  console.log(`
+--- Testing secure routing TIMER_NOTIFY ---`);
+  const a = router("00fa00000001");
+  const b = router("00fa00000002");
+  const c = router("00fa00000003");
+
+  // Una trama con un timer más nuevo adelanta el de B
+  const ahead = KNXSecureCrypto.wrap(
+    BACKBONE_KEY,
+    0,
+    b.timer + 10000,
+    Buffer.from("00fa00000009", "hex"),
+    0,
+    ROUTING_INDICATION,
+  );
+  assert.deepEqual(b.unwrap(ahead).frame, ROUTING_INDICATION);
+  assert.ok(b.timer - a.timer >= 10000 - 50);
+
+  // A se ha quedado atrás: B descarta su trama y le responde con TIMER_NOTIFY
+  const { frame, notify } = b.unwrap(a.wrap(ROUTING_INDICATION));
+  assert.equal(frame, null);
+  assert.equal(b.counters.outdated, 1);
+  assert.ok(notify);
+  assert.equal(serviceType(notify), KNXnetIPServiceType.TIMER_NOTIFY);
+  assert.equal(notify.length, 36);
+  console.log(`[Routing] Outdated frame answered with TIMER_NOTIFY (timer ${notify.readUIntBE(6, 6)})`);
+
+  // A adopta el timer de B y sus tramas vuelven a aceptarse
+  assert.equal(a.handleTimerNotify(notify), null);
+  assert.ok(Math.abs(a.timer - b.timer) < 50);
+  assert.deepEqual(b.unwrap(a.wrap(ROUTING_INDICATION)).frame, ROUTING_INDICATION);
+  console.log("[Routing] Timer synchronized, frames accepted again");
+
+  // Un TIMER_NOTIFY atrasado se corrige con el nuestro, uno alterado se descarta
+  const correction = b.handleTimerNotify(c.buildTimerNotify());
+  assert.ok(correction);
+  assert.ok(correction.readUIntBE(6, 6) >= b.timer - 50);
+  assert.equal(c.handleTimerNotify(correction), null);
+  assert.ok(Math.abs(c.timer - b.timer) < 50);
+  const tampered = Buffer.from(b.buildTimerNotify());
+  tampered[10] ^= 0x01;
+  assert.equal(a.handleTimerNotify(tampered), null);
+  assert.equal(a.counters.unauthenticated, 1);
+  console.log("[Routing] Late TIMER_NOTIFY corrected, tampered TIMER_NOTIFY dropped");
+}
+
+// KNXnetIPServer con secure routing: solo entran las tramas envueltas con el backbone key
+async function testSecureRoutingServer() {
+  console.log(`
+--- Testing KNXnetIPServer secure routing ---`);
+  const port = 3685;
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp: "127.0.0.1",
+    port,
+    secureRouting: { backboneKey: BACKBONE_KEY, latencyTolerance: LATENCY_TOLERANCE },
+    logOptions: { enabled: false },
+  });
+  server.on("error", (err) => console.log(`[Server] ${err.message}`));
+  const received: string[] = [];
+  server.on("indication", (cemi: CEMIInstance) => received.push(cemi.toBuffer().toString("hex")));
+  await server.connect();
+
+  const peer = router("00fa00000002");
+  const socket = dgram.createSocket("udp4");
+  await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+  const send = (msg: Buffer) => new Promise((resolve) => socket.send(msg, port, "127.0.0.1", resolve));
+  try {
+    const wrapped = peer.wrap(ROUTING_INDICATION);
+    await send(ROUTING_INDICATION);
+    await send(wrapped);
+    await send(wrapped);
+    await wait(200);
+    console.log(`[Server] Received: ${received.join(", ")}`);
+    assert.deepEqual(received, [ROUTING_INDICATION.subarray(6).toString("hex")]);
+    assert.deepEqual(server.secureRoutingCounters, { plain: 1, unauthenticated: 0, replayed: 1, outdated: 0 });
+    console.log(`[Server] Counters: ${JSON.stringify(server.secureRoutingCounters)}`);
+  } finally {
+    socket.close();
+    server.disconnect();
+  }
+}
+
+async function main() {
+  testWrapUnwrap();
+  testTimerSynchronization();
+  await testSecureRoutingServer();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,139 @@
+import net from "net";
+import crypto from "node:crypto";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXnetIPHeader } from "../core/KNXnetIPHeader";
+import { KNXnetIPServiceType, SecureSessionStatus } from "../core/enum/KNXnetIPEnum";
+import { KNXSecureCrypto } from "../core/security/KNXSecureCrypto";
+import { SecureSession } from "../core/security/SecureSession";
+
+// Stand-in KNX IP Secure server: only what a secure tunnelling client needs
+const USER_ID = 2;
+const USER_PASSWORD = "tunnel-password";
+const DEVICE_AUTH_CODE = "device-code";
+const SERVER_SERIAL = Buffer.from("00fa00000001", "hex");
+
+function frame(serviceType: KNXnetIPServiceType, body: Buffer) {
+  return Buffer.concat([new KNXnetIPHeader(serviceType, 6 + body.length).toBuffer(), body]);
+}
+
+function startStandInServer(): Promise<net.Server> {
+  const userHash = KNXSecureCrypto.deriveUserPassword(USER_PASSWORD);
+  const deviceCode = KNXSecureCrypto.deriveDeviceAuthenticationCode(DEVICE_AUTH_CODE);
+
+  const server = net.createServer((socket) => {
+    let rx = Buffer.alloc(0);
+    let sessionKey: Buffer | null = null;
+    let publicKeysXor = Buffer.alloc(0);
+    let txSequence = 0;
+    let tunnelSeq = 0;
+    const sessionId = 1;
+    const sendSecure = (msg: Buffer) =>
+      socket.write(KNXSecureCrypto.wrap(sessionKey!, sessionId, txSequence++, SERVER_SERIAL, 0, msg));
+
+    const handlePlain = (msg: Buffer) => {
+      const header = KNXnetIPHeader.fromBuffer(msg);
+      const body = msg.subarray(6);
+      switch (header.serviceType) {
+        case KNXnetIPServiceType.SESSION_AUTHENTICATE: {
+          const mac = KNXSecureCrypto.cbcMac(userHash, Buffer.concat([msg.subarray(0, 8), publicKeysXor]));
+          const received = KNXSecureCrypto.ctr(userHash, KNXSecureCrypto.COUNTER_0_HANDSHAKE, body.subarray(2, 18));
+          const ok = body[1] === USER_ID && mac.equals(received.mac);
+          console.log(`[Server] SESSION_AUTHENTICATE user ${body[1]}: ${ok ? "OK" : "FAILED"}`);
+          sendSecure(
+            SecureSession.buildSessionStatus(
+              ok ? SecureSessionStatus.AUTHENTICATION_SUCCESS : SecureSessionStatus.AUTHENTICATION_FAILED,
+            ),
+          );
+          break;
+        }
+        case KNXnetIPServiceType.CONNECT_REQUEST:
+          // ChannelID 1, route back HPAI, CRD with IA 1.1.250
+          sendSecure(
+            frame(
+              KNXnetIPServiceType.CONNECT_RESPONSE,
+              Buffer.from([0x01, 0x00, 0x08, 0x02, 0, 0, 0, 0, 0, 0, 0x04, 0x04, 0x11, 0xfa]),
+            ),
+          );
+          break;
+        case KNXnetIPServiceType.TUNNELLING_REQUEST: {
+          sendSecure(frame(KNXnetIPServiceType.TUNNELLING_ACK, Buffer.from([0x04, 0x01, body[2], 0x00])));
+          // Positive L_Data.con
+          const con = Buffer.from(body.subarray(4));
+          con[0] = 0x2e;
+          sendSecure(
+            frame(
+              KNXnetIPServiceType.TUNNELLING_REQUEST,
+              Buffer.concat([Buffer.from([0x04, 0x01, tunnelSeq++, 0x00]), con]),
+            ),
+          );
+          break;
+        }
+        case KNXnetIPServiceType.DISCONNECT_REQUEST:
+          sendSecure(frame(KNXnetIPServiceType.DISCONNECT_RESPONSE, Buffer.from([0x01, 0x00])));
+          break;
+        case KNXnetIPServiceType.SESSION_STATUS:
+          console.log(`[Server] SESSION_STATUS 0x${body[0].toString(16)}`);
+          break;
+      }
+    };
+
+    socket.on("data", (data) => {
+      rx = Buffer.concat([rx, data]);
+      while (rx.length >= 6 && rx.length >= rx.readUInt16BE(4)) {
+        const msg = rx.subarray(0, rx.readUInt16BE(4));
+        rx = rx.subarray(msg.length);
+        const serviceType = msg.readUInt16BE(2);
+        if (serviceType === KNXnetIPServiceType.SESSION_REQUEST) {
+          const clientPublicKey = msg.subarray(14, 46);
+          const keyPair = KNXSecureCrypto.generateKeyPair();
+          sessionKey = KNXSecureCrypto.deriveSessionKey(keyPair.privateKey, clientPublicKey);
+          publicKeysXor = KNXSecureCrypto.xor(clientPublicKey, keyPair.publicKey);
+          const head = Buffer.from([0x06, 0x10, 0x09, 0x52, 0x00, 0x38, 0x00, sessionId]);
+          const mac = KNXSecureCrypto.cbcMac(deviceCode, Buffer.concat([head, publicKeysXor]));
+          const encrypted = KNXSecureCrypto.ctr(deviceCode, KNXSecureCrypto.COUNTER_0_HANDSHAKE, mac);
+          socket.write(Buffer.concat([head, keyPair.publicKey, encrypted.mac]));
+        } else if (serviceType === KNXnetIPServiceType.SECURE_WRAPPER && sessionKey) {
+          handlePlain(KNXSecureCrypto.unwrap(sessionKey, msg).frame);
+        }
+      }
+    });
+    socket.on("error", () => {});
+  });
+
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+async function testSecureTunneling() {
+  console.log(`
+--- Testing KNX IP Secure Tunneling against a stand-in server ---`);
+  const server = await startStandInServer();
+  const port = (server.address() as net.AddressInfo).port;
+
+  const client = new KNXTunneling({
+    ip: "127.0.0.1",
+    port,
+    localIp: "127.0.0.1",
+    logOptions: { enabled: false },
+    secure: { userId: USER_ID, userPassword: USER_PASSWORD, deviceAuthenticationCode: DEVICE_AUTH_CODE },
+  });
+  await client.connect();
+  console.log(`[Secure] Connected as ${client.individualAddress}`);
+  const con = await client.sendConfirmed(
+    Buffer.from("1100bce000000a01010081", "hex"), // GroupValue_Write 1/2/1 = 1
+  );
+  console.log(`[Secure] L_Data.con for ${con.destinationAddress}, confirm error: ${con.controlField1.confirm}`);
+  client.disconnect();
+
+  const intruder = new KNXTunneling({
+    ip: "127.0.0.1",
+    port,
+    localIp: "127.0.0.1",
+    logOptions: { enabled: false },
+    secure: { userId: USER_ID, userPassword: "wrong", serialNumber: crypto.randomBytes(6) },
+  });
+  await intruder.connect().catch((e) => console.log(`[Secure] Wrong password rejected: ${e.message}`));
+
+  setTimeout(() => server.close(), 500);
+}
+
+testSecureTunneling();
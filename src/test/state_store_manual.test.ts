@@ -0,0 +1,66 @@
+import os from "node:os";
+import path from "node:path";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { JsonFileStateStore } from "../connection/JsonFileStateStore";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The address assigned by "ETS" must survive a restart of the server
+async function testStateStore() {
+  console.log(`
+--- Testing KNXnetIPServer state store ---`);
+  const localIp = getLocalIP();
+  const filePath = path.join(os.tmpdir(), "knx-ts-state-test", "server.json");
+  await rm(filePath, { force: true });
+  const createServer = () =>
+    new KNXnetIPServer({
+      individualAddress: "15.15.0",
+      localIp,
+      stateStore: new JsonFileStateStore(filePath),
+      logOptions: { enabled: false },
+    });
+
+  const server = createServer();
+  await server.connect();
+  server.setProgrammingMode(true);
+  const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  await client.connect();
+  console.log("[ETS] A_IndividualAddress_Write 1.2.7");
+  await client.send(Buffer.from("1100b0e0000000000300c01207", "hex"));
+  await wait(300);
+  client.disconnect();
+  await wait(300);
+  server.disconnect();
+  console.log(`[Store] ${await readFile(filePath, "utf8")}`);
+
+  const restarted = createServer();
+  await restarted.connect();
+  console.log(`[Server] Address after restart: ${restarted.individualAddress}`);
+  restarted.disconnect();
+
+  // Un estado con valores fuera de rango: se ignoran y quedan los de las opciones
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      individualAddress: "1.2.255",
+      routingMulticastAddress: "192.168.1.1",
+      ipAssignmentMethod: 0,
+      ipAddress: "not an ip",
+      multicastTTL: 300,
+      friendlyName: "Restored",
+    }),
+  );
+  const invalid = createServer();
+  await invalid.connect();
+  const state = (invalid as any).getState();
+  console.log(
+    `[Server] Invalid state: ${state.individualAddress} ${state.routingMulticastAddress} method ${state.ipAssignmentMethod} ip ${state.ipAddress} ttl ${state.multicastTTL} "${state.friendlyName}"`,
+  );
+  invalid.disconnect();
+  await rm(path.dirname(filePath), { recursive: true, force: true });
+}
+
+testStateStore();
@@ -0,0 +1,73 @@
+import net from "node:net";
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { CEMIInstance } from "../core/CEMI";
+import { TunnellingFeature } from "../core/enum/KNXnetIPEnum";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// KNXnet/IP frame with a TCP "route back" HPAI where the service needs one
+const ROUTE_BACK_TCP = "0802000000000000";
+function frame(serviceType: number, body: string) {
+  const data = Buffer.from(body, "hex");
+  const header = Buffer.from([0x06, 0x10, serviceType >> 8, serviceType & 0xff, 0, 0]);
+  header.writeUInt16BE(6 + data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+async function testTcpServer() {
+  console.log(`
+--- Testing KNXnetIPServer over TCP (tunnelling v2) ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp,
+    tcp: true,
+    logOptions: { enabled: false },
+  });
+  server.on("connection_rejected", ({ status, reason }) =>
+    console.log(`[Server] connection_rejected 0x${status.toString(16)}: ${reason}`),
+  );
+  await server.connect();
+
+  // TCP and UDP tunnels side by side
+  const tcp = new KNXTunneling({ ip: localIp, port: 3671, localIp, transport: "TCP", logOptions: { enabled: false } });
+  const udp = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  udp.on("indication", (cemi: CEMIInstance) => console.log(`[UDP] Received: ${cemi.toBuffer().toString("hex")}`));
+  await tcp.connect();
+  await udp.connect();
+  console.log(`[TCP] Connected as ${tcp.individualAddress}`);
+  await tcp.send(Buffer.from("1100bce000000a03010081", "hex"));
+  console.log(`[TCP] Feature IndividualAddress: ${await tcp.getFeatureValue(TunnellingFeature.IndividualAddress)}`);
+  await wait(300);
+
+  // Two connections on one stream, the second asking for 15.15.5 (extended CRI) twice
+  const stream = net.connect(3671, localIp);
+  stream.on("data", (data) => console.log(`[Stream] Received: ${data.toString("hex")}`));
+  await new Promise((resolve) => stream.once("connect", resolve));
+  const connectRequest = (cri: string) => frame(0x0205, ROUTE_BACK_TCP + ROUTE_BACK_TCP + cri);
+  stream.write(Buffer.concat([connectRequest("04040200"), connectRequest("06040200ff05")]));
+  await wait(300);
+  stream.write(connectRequest("06040200ff05"));
+  await wait(300);
+
+  server
+    .getTunnelSessions()
+    .forEach((session) =>
+      console.log(
+        `[Server] Channel ${session.channelId} ${session.individualAddress} ` +
+          `${session.controlEndpoint.ipAddress}:${session.controlEndpoint.port} retransmissions ${session.retransmissions}`,
+      ),
+    );
+  stream.destroy();
+  await wait(300);
+  console.log(`[Server] Sessions after closing the stream: ${server.getTunnelSessions().length}`);
+
+  tcp.disconnect();
+  udp.disconnect();
+  await wait(300);
+  server.disconnect();
+}
+
+testTcpServer();
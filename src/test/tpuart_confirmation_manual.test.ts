@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { CEMI } from "../core/CEMI";
+import { ConfirmationTimeoutError, NegativeConfirmationError, TransmitError } from "../errors/ConfirmationErrors";
+import { mockTPUART } from "./helpers/mock_tpuart";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** L_Data.req 15.15.250 -> 1/0/`n` GroupValue_Write 1 */
+const request = (n: number) =>
+  CEMI.fromBuffer(Buffer.from(`1100bce0fffa08${n.toString(16).padStart(2, "0")}010081`, "hex"));
+
+/** Destinations (last octet) of the frames written to the TP-UART: the odd bytes of the UART services */
+const destinations = (writes: Buffer[]) => writes.map((bytes) => bytes[11]);
+
+// sendConfirmed() sobre las confirmaciones del TP-UART: LDATA_CON_POS, LDATA_CON_NEG y sin respuesta
+async function testTPUARTConfirmation() {
+  console.log(`
+--- Testing TP-UART sendConfirmed ---`);
+  const mock = mockTPUART("/dev/ttyKNX1");
+  const { tpuart } = mock;
+  await tpuart.connect();
+
+  try {
+    const con = await tpuart.sendConfirmed(request(1));
+    console.log(`[TPUART] Positive: ${con.toBuffer().toString("hex")}`);
+    assert.equal(con.controlField1.confirm, false);
+    assert.equal(con.destinationAddress, "1/0/1");
+
+    // LDATA_CON_NEG: L_Data.con negativo, y send() rechaza con el motivo
+    mock.confirmation = 0x0b;
+    const negative = await tpuart.sendConfirmed(request(2)).catch((err) => err);
+    console.log(`[TPUART] Negative: ${negative.constructor.name}`);
+    assert.ok(negative instanceof NegativeConfirmationError);
+    assert.equal(negative.confirmation.controlField1.confirm, true);
+    const failed = await tpuart.send(request(3)).catch((err) => err);
+    assert.ok(failed instanceof TransmitError);
+    assert.equal(failed.failure, "NAK");
+
+    // Sin respuesta: las dos expiran; la que esperaba en la cola sale de ella y nunca se escribe
+    mock.confirmation = null;
+    const start = Date.now();
+    const results = await Promise.all([
+      tpuart.sendConfirmed(request(4), 300).catch((err) => err),
+      tpuart.sendConfirmed(request(5), 300).catch((err) => err),
+    ]);
+    console.log(`[TPUART] Timeout after ${Date.now() - start} ms: ${results.map((err) => err.constructor.name)}`);
+    assert.ok(results.every((err) => err instanceof ConfirmationTimeoutError));
+    assert.ok(Date.now() - start < 1000);
+    // La trama en el bus se repite a los 2 s y esta vez se confirma
+    mock.confirmation = 0x8b;
+    await wait(2200);
+    await tpuart.sendConfirmed(request(6));
+    console.log(`[TPUART] Frames written: ${destinations(mock.writes).join(", ")}`);
+    assert.deepEqual(destinations(mock.writes), [1, 2, 3, 4, 4, 6]);
+  } finally {
+    tpuart.disconnect();
+    await wait(50);
+  }
+}
+
+testTPUARTConfirmation().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,64 @@
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { TunnelAddressUnavailableError } from "../errors/ConnectErrors";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Tunnel address requested with the extended CRI (tunnelling v2)
+async function testTunnelAddress() {
+  console.log(`
+--- Testing KNXTunneling individualAddress (extended CRI) ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({
+    individualAddress: "15.15.0",
+    localIp,
+    tcp: true,
+    logOptions: { enabled: false },
+  });
+  server.on("connection_rejected", ({ status, reason }) =>
+    console.log(`[Server] connection_rejected 0x${status.toString(16)}: ${reason}`),
+  );
+  await server.connect();
+  const createClient = (individualAddress: string) =>
+    new KNXTunneling({
+      ip: localIp,
+      port: 3671,
+      localIp,
+      transport: "TCP",
+      individualAddress,
+      logOptions: { enabled: false },
+    });
+
+  const first = createClient("15.15.5");
+  await first.connect();
+  console.log(`[Client 1] Connected as ${first.individualAddress}`);
+
+  for (const address of ["15.15.5", "1.1.1"]) {
+    const client = createClient(address);
+    try {
+      await client.connect();
+      console.log(`[Client] Unexpectedly connected with ${address}`);
+    } catch (err) {
+      if (err instanceof TunnelAddressUnavailableError) {
+        console.log(
+          `[Client] ${err.constructor.name} status 0x${err.status.toString(16)} for ${err.requestedAddress}: ${err.message}`,
+        );
+      } else throw err;
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  try {
+    createClient("1.1");
+  } catch (err: any) {
+    console.log(`[Client] Invalid address rejected: ${err.message}`);
+  }
+
+  first.disconnect();
+  await wait(300);
+  server.disconnect();
+}
+
+testTunnelAddress();
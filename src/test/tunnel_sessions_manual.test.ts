@@ -0,0 +1,38 @@
+import { KNXnetIPServer } from "../connection/KNXnetIPServer";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { KNXTunnelSession } from "../@types/interfaces/connection";
+import { getLocalIP } from "../utils/localIp";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const describe = (session: KNXTunnelSession) =>
+  `channel ${session.channelId} ${session.individualAddress} from ${session.controlEndpoint.ipAddress}:` +
+  `${session.controlEndpoint.port} rx ${session.rxFrames} tx ${session.txFrames} ` +
+  `retransmissions ${session.retransmissions} queue ${session.queueDepth}`;
+
+async function testTunnelSessions() {
+  console.log(`
+--- Testing KNXnetIPServer tunnel sessions API ---`);
+  const localIp = getLocalIP();
+  const server = new KNXnetIPServer({ individualAddress: "15.15.0", localIp, logOptions: { enabled: false } });
+  server.on("tunnelOpened", (session: KNXTunnelSession) => console.log(`[Server] tunnelOpened ${describe(session)}`));
+  server.on("tunnelClosed", (session: KNXTunnelSession) => console.log(`[Server] tunnelClosed ${describe(session)}`));
+  await server.connect();
+
+  const client = new KNXTunneling({ ip: localIp, port: 3671, localIp, logOptions: { enabled: false } });
+  let channelId = 0;
+  client.on("connected", (info: { channelId: number }) => (channelId = info.channelId));
+  client.on("disconnected", () => console.log("[Client] disconnected"));
+  await client.connect();
+  await client.send(Buffer.from("1100bce000000a03010081", "hex"));
+  await wait(300);
+
+  server.getTunnelSessions().forEach((session) => console.log(`[Server] Active: ${describe(session)}`));
+  console.log(`[Server] disconnectTunnel: ${server.disconnectTunnel(channelId)}`);
+  await wait(300);
+  console.log(`[Server] Sessions left: ${server.getTunnelSessions().length}`);
+  client.disconnect();
+  server.disconnect();
+}
+
+testTunnelSessions();
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import { AddressInfo } from "node:net";
+import { KNXTunneling } from "../connection/KNXTunneling";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const GROUP_WRITE = "1100bce000000801010081"; // L_Data.req 0.0.0 -> 1/0/1 GroupValue_Write 1
+
+// Servidor KNXnet/IP falso: rechaza los CONNECT_REQUEST que se le indiquen y responde a cada
+// TUNNELLING_REQUEST con el estado de `ackStatus` (E_NO_ERROR cuando se acaba)
+class FakeTunnelServer {
+  readonly socket = dgram.createSocket("udp4");
+  connectRequests = 0;
+  refuseConnects = 0;
+  ackStatus: number[] = [];
+  received: string[] = [];
+  private channelId = 0;
+  private client: dgram.RemoteInfo | null = null;
+
+  async listen(): Promise<number> {
+    this.socket.on("message", (msg, rinfo) => this.handle(msg, rinfo));
+    await new Promise<void>((resolve) => this.socket.bind(0, "127.0.0.1", resolve));
+    return (this.socket.address() as AddressInfo).port;
+  }
+
+  /** DISCONNECT_REQUEST del servidor: el cliente pierde el túnel */
+  dropTunnel() {
+    this.reply(0x0209, Buffer.from([this.channelId, 0x00, 0x08, 0x01, 127, 0, 0, 1, 0x0e, 0x57]));
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private handle(msg: Buffer, rinfo: dgram.RemoteInfo) {
+    this.client = rinfo;
+    const serviceType = msg.readUInt16BE(2);
+    const body = msg.subarray(6);
+    if (serviceType === 0x0205) {
+      // CONNECT_REQUEST -> CONNECT_RESPONSE, 0x24 = E_NO_MORE_CONNECTIONS
+      this.connectRequests++;
+      if (this.refuseConnects > 0) {
+        this.refuseConnects--;
+        this.reply(0x0206, Buffer.from([0x00, 0x24]));
+        return;
+      }
+      this.channelId++;
+      this.reply(
+        0x0206,
+        Buffer.from([this.channelId, 0x00, 0x08, 0x01, 127, 0, 0, 1, 0x0e, 0x57, 0x04, 0x04, 0x11, 0xfa]),
+      );
+    } else if (serviceType === 0x0420) {
+      // TUNNELLING_REQUEST -> TUNNELLING_ACK
+      this.received.push(body.subarray(4).toString("hex"));
+      this.reply(0x0421, Buffer.from([0x04, body[1], body[2], this.ackStatus.shift() ?? 0x00]));
+    } else if (serviceType === 0x0207) {
+      this.reply(0x0208, Buffer.from([body[0], 0x00]));
+    } else if (serviceType === 0x0209) {
+      this.reply(0x020a, Buffer.from([body[0], 0x00]));
+    }
+  }
+
+  private reply(serviceType: number, body: Buffer) {
+    if (!this.client) return;
+    const header = Buffer.from([0x06, 0x10, serviceType >> 8, serviceType & 0xff, 0x00, 6 + body.length]);
+    this.socket.send(Buffer.concat([header, body]), this.client.port, this.client.address);
+  }
+}
+
+function createClient(port: number, maxAttempts = 3) {
+  const client = new KNXTunneling({
+    ip: "127.0.0.1",
+    port,
+    localIp: "127.0.0.1",
+    reconnect: { enabled: true, initialDelay: 20, factor: 2, jitter: 0, maxAttempts },
+    logOptions: { enabled: false },
+  });
+  const delays: number[] = [];
+  client.on("reconnecting", ({ delay }) => delays.push(delay));
+  return { client, delays };
+}
+
+// Un TUNNELLING_ACK con error no rechaza el send(): la trama se reenvía en el nuevo canal
+async function testResendAfterAckError(server: FakeTunnelServer, port: number) {
+  const { client, delays } = createClient(port);
+  await client.connect();
+  server.ackStatus = [0x29]; // E_TUNNELLING_LAYER
+  let reconnected = 0;
+  client.on("reconnected", () => reconnected++);
+  await client.send(Buffer.from(GROUP_WRITE, "hex"));
+  assert.deepEqual(server.received, [GROUP_WRITE, GROUP_WRITE]);
+  assert.deepEqual(delays, [20]);
+  assert.equal(reconnected, 1);
+  console.log("[Tunneling] Frame resent after ACK error 0x29 on the new channel");
+
+  // Un segundo error de la misma trama sí rechaza el send()
+  server.received = [];
+  server.ackStatus = [0x29, 0x29];
+  await assert.rejects(client.send(Buffer.from(GROUP_WRITE, "hex")), /ACK Error: 0x29/);
+  assert.equal(server.received.length, 2);
+  console.log("[Tunneling] Second ACK error rejects send()");
+  await wait(100);
+  client.disconnect();
+}
+
+// Backoff exponencial hasta maxAttempts: después `error` y se rechaza lo encolado
+async function testRetryLimit(server: FakeTunnelServer, port: number) {
+  const { client, delays } = createClient(port, 3);
+  await client.connect();
+  const failed = new Promise<Error>((resolve) => client.once("error", resolve));
+  server.refuseConnects = Infinity;
+  const before = server.connectRequests;
+  server.dropTunnel();
+  await wait(20);
+  const queued = client.send(Buffer.from(GROUP_WRITE, "hex"));
+  await assert.rejects(queued);
+  const error = await failed;
+  assert.match(error.message, /Reconnect failed after 3 attempts/);
+  assert.deepEqual(delays, [20, 40, 80]);
+  assert.equal(server.connectRequests - before, 3);
+  console.log(`[Tunneling] Backoff ${delays.join(", ")} ms, then: ${error.message}`);
+  server.refuseConnects = 0;
+  client.disconnect();
+}
+
+// disconnect() durante la espera cancela la reconexión
+async function testCancelReconnect(server: FakeTunnelServer, port: number) {
+  const { client, delays } = createClient(port, 10);
+  await client.connect();
+  server.refuseConnects = Infinity;
+  const before = server.connectRequests;
+  client.once("reconnecting", () => client.disconnect());
+  server.dropTunnel();
+  await wait(300);
+  assert.deepEqual(delays, [20]);
+  assert.equal(server.connectRequests, before);
+  console.log("[Tunneling] disconnect() cancelled the pending reconnect");
+  server.refuseConnects = 0;
+}
+
+async function testTunnelingReconnect() {
+  console.log(`
+--- Testing KNXTunneling reconnect policy ---`);
+  const server = new FakeTunnelServer();
+  const port = await server.listen();
+  try {
+    await testResendAfterAckError(server, port);
+    await testRetryLimit(server, port);
+    await testCancelReconnect(server, port);
+  } finally {
+    server.close();
+  }
+}
+
+testTunnelingReconnect().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import dgram from "node:dgram";
+import { AddressInfo } from "node:net";
+import { KNXTunneling } from "../connection/KNXTunneling";
+import { TunnellingFeature } from "../core/enum/KNXnetIPEnum";
+import { KNXnetIPFeatures, TunnellingFeatureValues } from "../core/KNXnetIPFeatures";
+import { DeviceDescriptorType0 } from "../core/resources/DeviceDescriptorType";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Servidor KNXnet/IP falso con las características de la interfaz: contesta a TUNNELLING_FEATURE_GET/SET con
+// TUNNELLING_FEATURE_RESPONSE y envía TUNNELLING_FEATURE_INFO con `info()`
+class FakeFeatureServer {
+  readonly socket = dgram.createSocket("udp4");
+  readonly features = new Map<number, Buffer>([
+    [TunnellingFeature.MaxApduLength, Buffer.from("00fe", "hex")],
+    [TunnellingFeature.BusConnectionStatus, Buffer.from("01", "hex")],
+    [TunnellingFeature.InfoServiceEnable, Buffer.from("00", "hex")],
+  ]);
+  /** Features that can only be read: a SET is answered with an error code */
+  readonly readOnly = new Set<number>([TunnellingFeature.MaxApduLength]);
+  /** Raw values of the TUNNELLING_FEATURE_SET received */
+  readonly sets: string[] = [];
+  private sequence = 0;
+  private client: dgram.RemoteInfo | null = null;
+
+  async listen(): Promise<number> {
+    this.socket.on("message", (msg, rinfo) => this.handle(msg, rinfo));
+    await new Promise<void>((resolve) => this.socket.bind(0, "127.0.0.1", resolve));
+    return (this.socket.address() as AddressInfo).port;
+  }
+
+  info(feature: TunnellingFeature, value: Buffer) {
+    this.request(0x0425, Buffer.concat([Buffer.from([feature, 0x00]), value]));
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private handle(msg: Buffer, rinfo: dgram.RemoteInfo) {
+    this.client = rinfo;
+    const serviceType = msg.readUInt16BE(2);
+    const body = msg.subarray(6);
+    if (serviceType === 0x0205) {
+      this.reply(0x0206, Buffer.from([0x01, 0x00, 0x08, 0x01, 127, 0, 0, 1, 0x0e, 0x57, 0x04, 0x04, 0x11, 0xfa]));
+    } else if (serviceType === 0x0422 || serviceType === 0x0424) {
+      // TUNNELLING_ACK y después la respuesta con el valor, o un código de error sin valor
+      this.reply(0x0421, Buffer.from([0x04, body[1], body[2], 0x00]));
+      const feature = body[4];
+      let returnCode = 0x00;
+      if (serviceType === 0x0424) {
+        this.sets.push(body.subarray(6).toString("hex"));
+        if (this.readOnly.has(feature)) returnCode = 0x01;
+        else this.features.set(feature, Buffer.from(body.subarray(6)));
+      }
+      const value = returnCode === 0x00 ? (this.features.get(feature) ?? Buffer.alloc(0)) : Buffer.alloc(0);
+      this.request(0x0423, Buffer.concat([Buffer.from([feature, returnCode]), value]));
+    } else if (serviceType === 0x0207) {
+      this.reply(0x0208, Buffer.from([body[0], 0x00]));
+    } else if (serviceType === 0x0209) {
+      this.reply(0x020a, Buffer.from([body[0], 0x00]));
+    }
+  }
+
+  /** Request of the server on the tunnel, with its own sequence counter */
+  private request(serviceType: number, payload: Buffer) {
+    this.reply(serviceType, Buffer.concat([Buffer.from([0x04, 0x01, this.sequence, 0x00]), payload]));
+    this.sequence = (this.sequence + 1) & 0xff;
+  }
+
+  private reply(serviceType: number, body: Buffer) {
+    if (!this.client) return;
+    const header = Buffer.from([0x06, 0x10, serviceType >> 8, serviceType & 0xff, 0x00, 6 + body.length]);
+    this.socket.send(Buffer.concat([header, body]), this.client.port, this.client.address);
+  }
+}
+
+// Cada característica se codifica con su tamaño de la tabla y se decodifica al mismo valor
+function testFeatureEncoding() {
+  console.log(`
+--- Testing interface feature encoding ---`);
+  const values: { [F in TunnellingFeature]: [TunnellingFeatureValues[F], string] } = {
+    [TunnellingFeature.SupportedEmiTypes]: [{ emi1: false, emi2: true, cEmi: true }, "0006"],
+    [TunnellingFeature.DeviceDescriptorType0]: [new DeviceDescriptorType0(0x091a), "091a"],
+    [TunnellingFeature.BusConnectionStatus]: [true, "01"],
+    [TunnellingFeature.ManufacturerCode]: [0x00c5, "00c5"],
+    [TunnellingFeature.ActiveEmiType]: [0x03, "03"],
+    [TunnellingFeature.IndividualAddress]: ["1.1.250", "11fa"],
+    [TunnellingFeature.MaxApduLength]: [254, "00fe"],
+    [TunnellingFeature.InfoServiceEnable]: [false, "00"],
+  };
+  for (const key of Object.keys(values)) {
+    const feature = Number(key) as TunnellingFeature;
+    const [value, hex] = values[feature];
+    const encoded = KNXnetIPFeatures.encode(feature, value);
+    console.log(`[Feature] ${TunnellingFeature[feature]}: ${encoded.toString("hex")}`);
+    assert.equal(encoded.toString("hex"), hex);
+    assert.deepEqual(KNXnetIPFeatures.decode(feature, encoded), value);
+  }
+  assert.throws(() => KNXnetIPFeatures.decode(0x7f as TunnellingFeature, Buffer.from("00", "hex")), /Unknown/);
+}
+
+async function testFeatureService() {
+  console.log(`
+--- Testing TUNNELLING_FEATURE_GET/SET/INFO ---`);
+  const server = new FakeFeatureServer();
+  const port = await server.listen();
+  const client = new KNXTunneling({ ip: "127.0.0.1", port, localIp: "127.0.0.1", logOptions: { enabled: false } });
+  const events: string[] = [];
+  client.on("bus_connected", () => events.push("bus_connected"));
+  client.on("bus_disconnected", () => events.push("bus_disconnected"));
+  client.on("feature_info", (feature: number, value: Buffer) =>
+    events.push(`feature_info ${feature} ${value.toString("hex")}`),
+  );
+  await client.connect();
+
+  try {
+    const maxApdu = await client.getFeatureValue(TunnellingFeature.MaxApduLength);
+    console.log(`[Client] MaxApduLength: ${maxApdu}`);
+    assert.equal(maxApdu, 254);
+    assert.equal((await client.getFeature(TunnellingFeature.MaxApduLength)).toString("hex"), "00fe");
+
+    // SET con el valor codificado, resuelto con el que confirma el servidor
+    const enabled = await client.setFeatureValue(TunnellingFeature.InfoServiceEnable, true);
+    console.log(`[Client] InfoServiceEnable: ${enabled}`);
+    assert.equal(enabled, true);
+    assert.equal(await client.getFeatureValue(TunnellingFeature.InfoServiceEnable), true);
+    assert.equal(
+      (await client.setFeature(TunnellingFeature.InfoServiceEnable, Buffer.from([0x00]))).toString("hex"),
+      "00",
+    );
+    assert.deepEqual(server.sets, ["01", "00"]);
+    await assert.rejects(client.setFeatureValue(TunnellingFeature.MaxApduLength, 55), /Feature Error: 0x1/);
+
+    server.info(TunnellingFeature.BusConnectionStatus, Buffer.from([0x00]));
+    await wait(50);
+    server.info(TunnellingFeature.BusConnectionStatus, Buffer.from([0x01]));
+    await wait(50);
+    console.log(`[Client] ${events.join(", ")}`);
+    assert.deepEqual(events, ["feature_info 3 00", "bus_disconnected", "feature_info 3 01", "bus_connected"]);
+  } finally {
+    client.disconnect();
+    await wait(100);
+    server.close();
+  }
+}
+
+async function main() {
+  testFeatureEncoding();
+  await testFeatureService();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
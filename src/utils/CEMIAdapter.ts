@@ -6,6 +6,7 @@ import { AddressType } from "../core/enum/EnumControlFieldExtended";
 import { MessageCodeTranslator } from "./MessageCodeTranslator";
 import { EMI, EMIInstance } from "../core/EMI";
 import { NPDU } from "../core/layers/data/NPDU";
+import { MESSAGE_CODE_FIELD } from "../core/MessageCodeField";
 
 /**
  * Adapter utility to convert between EMI (External Message Interface) and cEMI (Common External Message Interface).
@@ -56,15 +57,13 @@ export class CEMIAdapter {
     // But CEMI.fromBuffer takes a buffer. Let's use it for simplicity if we can re-construct a cEMI buffer
     // Or just instantiate the specific class.
     // Given the structure of CEMI.ts, it's better to use the constructors if possible or fromBuffer with a temporary buffer.
+    // L_Data.con must keep its message code, otherwise the confirm flag of the local confirmation is lost.
+    const LDataClass =
+      cemiCode === MESSAGE_CODE_FIELD["L_Data.con"].CEMI.value
+        ? CEMI.DataLinkLayerCEMI["L_Data.con"]
+        : CEMI.DataLinkLayerCEMI["L_Data.ind"];
 
-    const tempCemi = new CEMI.DataLinkLayerCEMI["L_Data.ind"](
-      null,
-      controlField1,
-      controlField2,
-      srcAddr,
-      dstAddr,
-      npdu.TPDU,
-    );
+    const tempCemi = new LDataClass(null, controlField1, controlField2, srcAddr, dstAddr, npdu.TPDU);
 
     return tempCemi;
   }
@@ -0,0 +1,11 @@
+import { KNXReconnectOptions } from "../@types/interfaces/connection";
+
+/**
+ * Exponential backoff with symmetric jitter: initialDelay * factor^(attempt-1), capped at maxDelay.
+ */
+export function getReconnectDelay(options: KNXReconnectOptions, attempt: number): number {
+  const { initialDelay = 1000, maxDelay = 30000, factor = 2, jitter = 0.2 } = options;
+  const base = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+  const spread = base * Math.min(Math.max(jitter, 0), 1);
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}